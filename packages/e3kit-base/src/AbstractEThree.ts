@@ -14,9 +14,18 @@ import {
     GroupError,
     GroupErrorCode,
     MissingPrivateKeyError,
+    PrivateKeyMismatchError,
+    DeviceLinkError,
 } from './errors';
 import { PrivateKeyLoader } from './PrivateKeyLoader';
-import { isArray, isString, isVirgilCard, isFindUsersResult, isLookupResult } from './typeguards';
+import {
+    isArray,
+    isString,
+    isVirgilCard,
+    isFindUsersResult,
+    isFindUserDevicesResult,
+    isLookupResult,
+} from './typeguards';
 import {
     Data,
     ICard,
@@ -29,13 +38,41 @@ import {
     NodeBuffer,
     LookupResult,
     FindUsersResult,
+    FindUserDevicesResult,
+    FindUsersOptions,
+    ExportedPrivateKey,
+    LinkDeviceOptions,
+    CreateGroupOptions,
+    GroupRetentionPolicy,
+    GroupTicketTransportFactory,
+    RatchetPreKeyServerFactory,
+    GroupFileProcessor,
 } from './types';
-import { MAX_IDENTITIES_TO_SEARCH, VALID_GROUP_PARTICIPANT_COUNT_RANGE } from './constants';
+import {
+    MAX_IDENTITIES_TO_SEARCH,
+    EXPORTED_PRIVATE_KEY_VERSION,
+    DEVICE_LINK_VERSION,
+    CARD_DEVICE_ID_FIELD,
+} from './constants';
 import { warn } from './log';
-import { Group, isValidParticipantCount } from './groups/Group';
+import { Group, getParticipantCountRange, isValidParticipantCount } from './groups/Group';
 import { GroupManager } from './GroupManager';
-import { getCardActiveAtMoment } from './utils/card';
+import { RatchetManager } from './RatchetManager';
+import { RatchetLocalStorage } from './RatchetLocalStorage';
+import { RatchetChannel } from './ratchet/RatchetChannel';
+import { getCardActiveAtMoment, getCardDeviceId, getCardsArray } from './utils/card';
+import { toGroupId } from './utils/group';
 import { GroupLocalStorage } from './GroupLocalStorage';
+import { encryptWithPassword, decryptWithPassword } from './passwordEncryption';
+import {
+    DeviceLink,
+    DeviceLinkMessage,
+    DeviceLinkPayload,
+    PairingCode,
+    getNonceCommitment,
+    getShortAuthenticationString,
+    parseDeviceLinkMessage,
+} from './DeviceLink';
 
 export abstract class AbstractEThree {
     /**
@@ -65,10 +102,16 @@ export abstract class AbstractEThree {
 
     keyPairType?: any;
 
+    /**
+     * Identifier of the current device in multi-device mode.
+     */
+    deviceId?: string;
+
     protected keyLoader: PrivateKeyLoader;
     protected inProcess = false;
 
     private groupManager: GroupManager;
+    private ratchetManager: RatchetManager;
 
     /**
      * @hidden
@@ -82,6 +125,12 @@ export abstract class AbstractEThree {
         keyLoader: PrivateKeyLoader;
         groupStorageLeveldown: AbstractLevelDOWN;
         keyPairType?: any;
+        deviceId?: string;
+        keepRemovedGroups?: boolean;
+        groupRetentionPolicy?: GroupRetentionPolicy;
+        groupTicketTransport?: GroupTicketTransportFactory;
+        ratchetPreKeyServer?: RatchetPreKeyServerFactory;
+        groupFileProcessor?: GroupFileProcessor;
     }) {
         this.identity = options.identity;
         this.virgilCrypto = options.virgilCrypto;
@@ -89,21 +138,35 @@ export abstract class AbstractEThree {
         this.accessTokenProvider = options.accessTokenProvider;
         this.keyEntryStorage = options.keyEntryStorage;
         this.keyLoader = options.keyLoader;
+        const groupLocalStorage = new GroupLocalStorage({
+            identity: options.identity,
+            leveldown: options.groupStorageLeveldown,
+            virgilCrypto: options.virgilCrypto,
+        });
         this.groupManager = new GroupManager({
             identity: options.identity,
             privateKeyLoader: options.keyLoader,
             cardManager: options.cardManager,
-            groupLocalStorage: new GroupLocalStorage({
-                identity: options.identity,
-                leveldown: options.groupStorageLeveldown,
-                virgilCrypto: options.virgilCrypto,
-            }),
+            groupLocalStorage,
+            keepRemovedGroups: options.keepRemovedGroups,
+            retentionPolicy: options.groupRetentionPolicy,
+            transportFactory: options.groupTicketTransport,
+            fileProcessor: options.groupFileProcessor,
+        });
+        this.ratchetManager = new RatchetManager({
+            identity: options.identity,
+            privateKeyLoader: options.keyLoader,
+            ratchetLocalStorage: new RatchetLocalStorage({ groupLocalStorage }),
+            preKeyServerFactory: options.ratchetPreKeyServer,
         });
         this.keyPairType = options.keyPairType;
+        this.deviceId = options.deviceId;
     }
 
     /**
      * Registers current user in Virgil Cloud. Saves private key locally and uploads public key to the cloud.
+     * In multi-device mode registers the current device, so the other devices of the user
+     * remain registered with their own Virgil Cards.
      */
     async register(keyPair?: IKeyPair) {
         if (this.inProcess) {
@@ -112,7 +175,7 @@ export abstract class AbstractEThree {
         this.inProcess = true;
         try {
             const [cards, privateKey] = await Promise.all<ICard[], IPrivateKey | null>([
-                this.cardManager.searchCards(this.identity),
+                this.searchOwnCards(),
                 this.keyLoader.loadLocalPrivateKey(),
             ]);
             if (cards.length > 1) throw new MultipleCardsError(this.identity);
@@ -126,7 +189,8 @@ export abstract class AbstractEThree {
 
     /**
      * Generates a new private key and saves locally. Replaces old public key with new one in Cloud.
-     * Used in case if old private key is lost.
+     * Used in case if old private key is lost. In multi-device mode replaces the Virgil Card of
+     * the current device only.
      */
     async rotatePrivateKey(): Promise<void> {
         if (this.inProcess) {
@@ -135,7 +199,7 @@ export abstract class AbstractEThree {
         this.inProcess = true;
         try {
             const [cards, privateKey] = await Promise.all<ICard[], IPrivateKey | null>([
-                this.cardManager.searchCards(this.identity),
+                this.searchOwnCards(),
                 this.keyLoader.loadLocalPrivateKey(),
             ]);
             if (cards.length === 0) throw new RegisterRequiredError();
@@ -219,6 +283,16 @@ export abstract class AbstractEThree {
      * was a string and `Buffer` otherwise.
      */
     async encrypt(message: Data, users: FindUsersResult): Promise<NodeBuffer | string>;
+    /**
+     * Encrypts and signs the message for the current user and all devices of multiple recipient
+     * users.
+     * @param {Data} message - Message to sign and encrypt.
+     * @param {FindUserDevicesResult} users - Result of the {@link AbstractEThree.findUsers} method
+     * called with `{ allDevices: true }` option. Specifies multiple recipients.
+     * @returns {Promise<NodeBuffer | string>} Promise that is that resolves to a string if `message`
+     * was a string and `Buffer` otherwise.
+     */
+    async encrypt(message: Data, users: FindUserDevicesResult): Promise<NodeBuffer | string>;
     /**
      * Encrypts and signs the message for the current user and a single recipient user.
      *
@@ -247,7 +321,7 @@ export abstract class AbstractEThree {
     async encrypt(message: Data, publicKeys: LookupResult): Promise<NodeBuffer | string>;
     async encrypt(
         message: Data,
-        recipients?: ICard | FindUsersResult | IPublicKey | LookupResult,
+        recipients?: ICard | FindUsersResult | FindUserDevicesResult | IPublicKey | LookupResult,
     ): Promise<NodeBuffer | string> {
         const shouldReturnString = isString(message);
 
@@ -354,7 +428,11 @@ export abstract class AbstractEThree {
     authEncrypt(message: Data, publicKey: IPublicKey): Promise<NodeBuffer | string>;
     authEncrypt(message: Data, card: ICard): Promise<NodeBuffer | string>;
     authEncrypt(message: Data, users: FindUsersResult): Promise<NodeBuffer | string>;
-    async authEncrypt(arg0: Data, arg1?: IPublicKey | ICard | FindUsersResult) {
+    authEncrypt(message: Data, users: FindUserDevicesResult): Promise<NodeBuffer | string>;
+    async authEncrypt(
+        arg0: Data,
+        arg1?: IPublicKey | ICard | FindUsersResult | FindUserDevicesResult,
+    ) {
         const returnString = isString(arg0);
         const privateKey = await this.keyLoader.loadLocalPrivateKey();
         if (!privateKey) {
@@ -399,6 +477,56 @@ export abstract class AbstractEThree {
         return decryptedData;
     }
 
+    /**
+     * Calculates the signature of the data with the private key of the current user. The data
+     * itself is not encrypted, so it can be published along with the signature.
+     * @param {Data} data - Data to sign.
+     * @returns {Promise<NodeBuffer | string>} Promise that resolves to the signature in base64 if
+     * `data` was a string and `Buffer` otherwise.
+     */
+    async sign(data: Data): Promise<NodeBuffer | string> {
+        const privateKey = await this.keyLoader.loadLocalPrivateKey();
+        if (!privateKey) {
+            throw new MissingPrivateKeyError();
+        }
+        const signature = this.virgilCrypto.calculateSignature(data, privateKey);
+        if (isString(data)) {
+            return signature.toString('base64');
+        }
+        return signature;
+    }
+
+    /**
+     * Verifies the signature of the data calculated with {@link EThree.sign} by the user
+     * identified by `senderCard`. If the sender had ever rotated their keys (e.g. by using the
+     * {@link EThree.rotatePrivateKey} method), then the `signedAt` date is used to find the
+     * public key that was current at the time of signing.
+     * @param {Data} data - Data the signature was calculated for.
+     * @param {Data} signature - The signature, a string is expected to be in base64.
+     * @param {ICard} senderCard - Virgil Card of the user who signed the data.
+     * @param {Date | number} signedAt - Date the data was signed at.
+     * @returns {Promise<boolean>} Promise that resolves to `true` if the signature is valid.
+     */
+    async verify(
+        data: Data,
+        signature: Data,
+        senderCard: ICard,
+        signedAt?: Date | number,
+    ): Promise<boolean> {
+        if (!isVirgilCard(senderCard)) {
+            throw new TypeError(
+                'Could not get public key from the third argument. Expected a Virgil Card. Got ' +
+                    typeof senderCard,
+            );
+        }
+        const { publicKey } = getCardActiveAtMoment(senderCard, signedAt);
+        return this.virgilCrypto.verifySignature(
+            data,
+            isString(signature) ? { value: signature, encoding: 'base64' } : signature,
+            publicKey,
+        );
+    }
+
     /**
      * Finds Virgil Card for user identity registered on Virgil Cloud.
      *
@@ -428,7 +556,40 @@ export abstract class AbstractEThree {
      * more than one Virgil Card, which is not allowed with E3kit.
      */
     async findUsers(identities: string[]): Promise<FindUsersResult>;
-    async findUsers(identities: string[] | string): Promise<ICard | FindUsersResult> {
+    /**
+     * Finds all active Virgil Cards for user identity registered on Virgil Cloud, one Virgil Card
+     * per device of the user in multi-device mode.
+     *
+     * @param {string} - Identity of the user to find the Virgil Cards of.
+     * @param {FindUsersOptions} - `{ allDevices: true }`.
+     *
+     * @returns {Promise<ICard[]>} - Promise that resolves to the array of Virgil Card objects.
+     *
+     * @throws {UsersNotFoundError} in case the Virgil Card wasn't found for the
+     * given identity.
+     */
+    async findUsers(identity: string, options: FindUsersOptions): Promise<ICard[]>;
+    /**
+     * Finds all active Virgil Cards for user identities registered on Virgil Cloud, one
+     * Virgil Card per device of the users in multi-device mode.
+     *
+     * @param {string[]} - A list of user identities to find the Virgil Cards of.
+     * @param {FindUsersOptions} - `{ allDevices: true }`.
+     *
+     * @returns {Promise<FindUserDevicesResult>} - Promise that resolves to a hash with
+     * identities as keys and arrays of Virgil Card objects as values.
+     *
+     * @throws {UsersNotFoundError} in case the Virgil Card wasn't found for any one of the
+     * given identities.
+     */
+    async findUsers(
+        identities: string[],
+        options: FindUsersOptions,
+    ): Promise<FindUserDevicesResult>;
+    async findUsers(
+        identities: string[] | string,
+        options?: FindUsersOptions,
+    ): Promise<ICard | FindUsersResult | ICard[] | FindUserDevicesResult> {
         if (!identities) {
             throw new TypeError('Argument "identities" is required');
         }
@@ -448,28 +609,36 @@ export abstract class AbstractEThree {
             throw new TypeError('"identities" array must not be empty');
         }
 
-        const result: FindUsersResult = Object.create({});
-        const identitiesWithMultipleCards: Set<string> = new Set();
+        const devicesResult: FindUserDevicesResult = Object.create({});
 
         const identityChunks = chunkArray(Array.from(identitySet), MAX_IDENTITIES_TO_SEARCH);
         for (const identityChunk of identityChunks) {
             const cards = await this.cardManager.searchCards(identityChunk);
             for (const card of cards) {
-                if (result[card.identity]) {
-                    identitiesWithMultipleCards.add(card.identity);
-                }
-                result[card.identity] = card;
+                devicesResult[card.identity] = (devicesResult[card.identity] || []).concat(card);
             }
         }
 
-        const identitiesFound = new Set(Object.keys(result));
+        const identitiesFound = new Set(Object.keys(devicesResult));
         const identitiesNotFound = new Set([...identitySet].filter(i => !identitiesFound.has(i)));
         if (identitiesNotFound.size > 0) {
             throw new UsersNotFoundError([...identitiesNotFound]);
         }
 
-        if (identitiesWithMultipleCards.size > 0) {
-            throw new UsersFoundWithMultipleCardsError([...identitiesWithMultipleCards]);
+        if (options && options.allDevices) {
+            return isArray(identities) ? devicesResult : devicesResult[identities];
+        }
+
+        const identitiesWithMultipleCards = Object.keys(devicesResult).filter(
+            identity => devicesResult[identity].length > 1,
+        );
+        if (identitiesWithMultipleCards.length > 0) {
+            throw new UsersFoundWithMultipleCardsError(identitiesWithMultipleCards);
+        }
+
+        const result: FindUsersResult = Object.create({});
+        for (const identity of Object.keys(devicesResult)) {
+            result[identity] = devicesResult[identity][0];
         }
 
         if (isArray(identities)) {
@@ -566,6 +735,177 @@ export abstract class AbstractEThree {
         return;
     }
 
+    /**
+     * Exports current user private key encrypted with the password. The result is a JSON string,
+     * which can be saved to a file and imported with [[importPrivateKey]] on another device,
+     * e.g. to move the private key between Node.js and browser applications.
+     * @param pwd Password that protects the exported private key.
+     */
+    async exportPrivateKey(pwd: string): Promise<string> {
+        const privateKey = await this.keyLoader.loadLocalPrivateKey();
+        if (!privateKey) {
+            throw new MissingPrivateKeyError();
+        }
+        const card = await this.getOwnCard();
+        if (!this.isCardPrivateKey(card, privateKey)) {
+            throw new PrivateKeyMismatchError(
+                "Local private key doesn't match the current Virgil Card of the user.",
+            );
+        }
+
+        const { kdf, encryptedData } = await encryptWithPassword(
+            this.virgilCrypto,
+            this.virgilCrypto.exportPrivateKey(privateKey),
+            pwd,
+        );
+        const exportedKey: ExportedPrivateKey = {
+            version: EXPORTED_PRIVATE_KEY_VERSION,
+            identity: this.identity,
+            cardId: card.id,
+            keyType: this.keyPairType || 'DEFAULT',
+            kdf,
+            encryptedPrivateKey: encryptedData,
+        };
+        return JSON.stringify(exportedKey);
+    }
+
+    /**
+     * Imports the private key exported with [[exportPrivateKey]] and saves it locally. The private
+     * key must belong to the current user and match the current user's Virgil Card.
+     * @param exportedKey Private key exported with [[exportPrivateKey]].
+     * @param pwd Password that protects the exported private key.
+     */
+    async importPrivateKey(exportedKey: string, pwd: string): Promise<void> {
+        const parsedKey: ExportedPrivateKey = JSON.parse(exportedKey);
+        if (parsedKey.version !== EXPORTED_PRIVATE_KEY_VERSION) {
+            throw new TypeError(
+                `Unsupported version of the exported private key: ${parsedKey.version}`,
+            );
+        }
+        if (parsedKey.identity !== this.identity) {
+            throw new PrivateKeyMismatchError(
+                `The private key was exported by "${parsedKey.identity}", not by the current user.`,
+            );
+        }
+        if (await this.keyLoader.hasPrivateKey()) {
+            throw new PrivateKeyAlreadyExistsError();
+        }
+
+        const card = await this.getOwnCard();
+        if (card.id !== parsedKey.cardId) {
+            throw new PrivateKeyMismatchError(
+                'The private key was exported for a different Virgil Card. The key may have been rotated.',
+            );
+        }
+        const privateKeyData = await decryptWithPassword(
+            this.virgilCrypto,
+            parsedKey.kdf,
+            parsedKey.encryptedPrivateKey,
+            pwd,
+        );
+        const privateKey = this.virgilCrypto.importPrivateKey(privateKeyData);
+        if (!this.isCardPrivateKey(card, privateKey)) {
+            throw new PrivateKeyMismatchError(
+                "The private key doesn't match the current Virgil Card of the user.",
+            );
+        }
+        await this.keyLoader.savePrivateKeyLocal(privateKey);
+    }
+
+    /**
+     * Starts the transfer of the private key to this device from another device of the current
+     * user, which already has the private key. The pairing code of the returned device link must be
+     * passed to [[linkDevice]] on the existing device, e.g. by scanning a QR code.
+     */
+    async createDeviceLink(): Promise<DeviceLink> {
+        if (await this.keyLoader.hasPrivateKey()) {
+            throw new PrivateKeyAlreadyExistsError();
+        }
+        return new DeviceLink({ privateKeyLoader: this.keyLoader, cardManager: this.cardManager });
+    }
+
+    /**
+     * Sends the private key of the current user to the new device, which started the transfer
+     * with [[createDeviceLink]]. The private key is sent only after the user confirms that
+     * the short authentication strings displayed on both devices are the same.
+     * @param pairingCode Pairing code of the device link created on the new device.
+     * @param options Transport to the new device and the confirmation callback.
+     */
+    async linkDevice(pairingCode: string, options: LinkDeviceOptions): Promise<void> {
+        const parsedCode: PairingCode = JSON.parse(pairingCode);
+        if (parsedCode.version !== DEVICE_LINK_VERSION) {
+            throw new DeviceLinkError(
+                `Unsupported version of the device link: ${parsedCode.version}`,
+            );
+        }
+        if (parsedCode.identity !== this.identity) {
+            throw new DeviceLinkError(
+                `The device link was created by "${parsedCode.identity}", not by the current user.`,
+            );
+        }
+        const privateKey = await this.keyLoader.loadLocalPrivateKey();
+        if (!privateKey) {
+            throw new MissingPrivateKeyError();
+        }
+        const publicKey = this.virgilCrypto.importPublicKey({
+            value: parsedCode.publicKey,
+            encoding: 'base64',
+        });
+
+        const nonce = this.virgilCrypto.getRandomBytes(32).toString('base64');
+        const commitmentMessage: DeviceLinkMessage = {
+            version: DEVICE_LINK_VERSION,
+            type: 'commitment',
+            commitment: getNonceCommitment(this.virgilCrypto, nonce),
+        };
+        await options.transport.send(JSON.stringify(commitmentMessage));
+
+        const publicKeyMessage = parseDeviceLinkMessage(await options.transport.receive());
+        if (publicKeyMessage.type !== 'publicKey') {
+            throw new DeviceLinkError('Unexpected message received from the new device.');
+        }
+        if (publicKeyMessage.publicKey !== parsedCode.publicKey) {
+            throw new DeviceLinkError(
+                "The public key received from the new device doesn't match the pairing code.",
+            );
+        }
+        const nonceMessage: DeviceLinkMessage = {
+            version: DEVICE_LINK_VERSION,
+            type: 'nonce',
+            nonce,
+        };
+        await options.transport.send(JSON.stringify(nonceMessage));
+        const confirmed = await options.confirm(
+            getShortAuthenticationString(
+                this.virgilCrypto,
+                parsedCode.publicKey,
+                nonce,
+                publicKeyMessage.nonce,
+            ),
+        );
+        if (!confirmed) {
+            throw new DeviceLinkError('Short authentication strings were not confirmed.');
+        }
+
+        const payload: DeviceLinkPayload = {
+            privateKey: this.virgilCrypto.exportPrivateKey(privateKey).toString('base64'),
+            nonce,
+        };
+        const keyMessage: DeviceLinkMessage = {
+            version: DEVICE_LINK_VERSION,
+            type: 'key',
+            encryptedKey: this.virgilCrypto
+                .signAndEncrypt(
+                    { value: JSON.stringify(payload), encoding: 'utf8' },
+                    privateKey,
+                    publicKey,
+                    true,
+                )
+                .toString('base64'),
+        };
+        await options.transport.send(JSON.stringify(keyMessage));
+    }
+
     /**
      * Checks if current user has private key saved locally.
      */
@@ -575,6 +915,7 @@ export abstract class AbstractEThree {
 
     /**
      * Unregister current user. Revokes public key in Virgil Cloud and deletes local private key.
+     * In multi-device mode unregisters the current device only.
      *
      * @throws {RegisterRequiredError} If current user is not registered (i.e.
      *                                 there is no Virgil Card for this identity)
@@ -586,7 +927,7 @@ export abstract class AbstractEThree {
         }
         this.inProcess = true;
         try {
-            const cards = await this.cardManager.searchCards(this.identity);
+            const cards = await this.searchOwnCards();
 
             if (cards.length > 1) {
                 throw new MultipleCardsError(this.identity);
@@ -604,9 +945,26 @@ export abstract class AbstractEThree {
     }
 
     async createGroup(groupId: Data): Promise<Group>;
-    async createGroup(groupId: Data, participant: ICard): Promise<Group>;
-    async createGroup(groupId: Data, participants: FindUsersResult): Promise<Group>;
-    async createGroup(groupId: Data, participants?: ICard | FindUsersResult): Promise<Group> {
+    async createGroup(
+        groupId: Data,
+        participant: ICard,
+        options?: CreateGroupOptions,
+    ): Promise<Group>;
+    async createGroup(
+        groupId: Data,
+        participants: FindUsersResult,
+        options?: CreateGroupOptions,
+    ): Promise<Group>;
+    async createGroup(
+        groupId: Data,
+        participants: FindUserDevicesResult,
+        options?: CreateGroupOptions,
+    ): Promise<Group>;
+    async createGroup(
+        groupId: Data,
+        participants?: ICard | FindUsersResult | FindUserDevicesResult,
+        options: CreateGroupOptions = {},
+    ): Promise<Group> {
         let participantIdentities = new Set<string>();
         let participantCards: ICard[] = [];
         if (isVirgilCard(participants)) {
@@ -615,16 +973,25 @@ export abstract class AbstractEThree {
         } else if (isFindUsersResult(participants)) {
             participantIdentities = new Set(Object.keys(participants));
             participantCards = getObjectValues(participants);
+        } else if (isFindUserDevicesResult(participants)) {
+            participantIdentities = new Set(Object.keys(participants));
+            participantCards = getCardsArray(participants);
         } else if (typeof participants !== 'undefined') {
             throw new TypeError(
                 'Expected participants to be the result of "findUsers" method call or to be "typeof undefined"',
             );
         }
+        if (options.large && options.senderKeys) {
+            throw new TypeError('Expected the large group not to use the sender key chains');
+        }
         participantIdentities.add(this.identity);
-        if (!isValidParticipantCount(participantIdentities.size)) {
+        if (!isValidParticipantCount(participantIdentities.size, options.large)) {
+            const [minParticipantCount, maxParticipantCount] = getParticipantCountRange(
+                options.large,
+            );
             throw new GroupError(
                 GroupErrorCode.InvalidParticipantsCount,
-                `Cannot create group with ${participantIdentities.size} participant(s). Group can have ${VALID_GROUP_PARTICIPANT_COUNT_RANGE[0]} to ${VALID_GROUP_PARTICIPANT_COUNT_RANGE[1]} participants.`,
+                `Cannot create group with ${participantIdentities.size} participant(s). Group can have ${minParticipantCount} to ${maxParticipantCount} participants.`,
             );
         }
         const groupSession = this.virgilCrypto.generateGroupSession(groupId);
@@ -636,12 +1003,17 @@ export abstract class AbstractEThree {
             },
             participants: [...participantIdentities],
         };
-        return await this.groupManager.store(ticket, participantCards);
+        return await this.groupManager.store(ticket, participantCards, {
+            groupId: toGroupId(groupId),
+            large: options.large,
+            metadata: options.metadata,
+            senderKeys: options.senderKeys,
+        });
     }
 
     async loadGroup(groupId: Data, initiatorCard: ICard) {
         const sessionId = this.virgilCrypto.calculateGroupSessionId(groupId);
-        return await this.groupManager.pull(sessionId, initiatorCard);
+        return await this.groupManager.pull(sessionId, initiatorCard, toGroupId(groupId));
     }
 
     async getGroup(groupId: Data) {
@@ -654,6 +1026,74 @@ export abstract class AbstractEThree {
         await this.groupManager.delete(sessionId);
     }
 
+    /**
+     * Returns the groups stored on the device without requests to the Virgil Cloud.
+     */
+    async listGroups() {
+        return await this.groupManager.list();
+    }
+
+    /**
+     * Pulls the latest state of all the groups stored on the device, see {@link Group.update}.
+     * Resolves with the changes made by other participants, which are also emitted by the groups,
+     * see {@link Group.on}.
+     */
+    async syncGroups() {
+        return await this.groupManager.sync();
+    }
+
+    /**
+     * Returns the changes of the groups made on the device that are not made in Virgil Cloud yet,
+     * e.g. because the device went offline.
+     */
+    async getGroupOperations() {
+        return await this.groupManager.retrieveOperations();
+    }
+
+    /**
+     * Retries the changes of the groups returned by {@link AbstractEThree.getGroupOperations}.
+     * The changes of the group are also retried by {@link Group.update}.
+     */
+    async retryGroupOperations() {
+        await this.groupManager.retryOperations();
+    }
+
+    /**
+     * Creates the ratchet channel with the user, who joins it with
+     * {@link AbstractEThree.joinRatchetChannel}. The messages of the channel can be encrypted
+     * right away. Requires {@link EThreeInitializeOptions.ratchetPreKeyServer} on both sides.
+     */
+    async createRatchetChannel(card: ICard): Promise<RatchetChannel> {
+        if (!isVirgilCard(card)) {
+            throw new TypeError('Expected the argument to be a Virgil Card object');
+        }
+        return await this.ratchetManager.create(card);
+    }
+
+    /**
+     * Joins the ratchet channel created by the user with {@link AbstractEThree.createRatchetChannel}.
+     */
+    async joinRatchetChannel(card: ICard): Promise<RatchetChannel> {
+        if (!isVirgilCard(card)) {
+            throw new TypeError('Expected the argument to be a Virgil Card object');
+        }
+        return await this.ratchetManager.join(card);
+    }
+
+    /**
+     * Returns the ratchet channel with the user stored on the device, `null` if there is none.
+     */
+    async getRatchetChannel(identity: string): Promise<RatchetChannel | null> {
+        return await this.ratchetManager.retrieve(identity);
+    }
+
+    /**
+     * Deletes the ratchet channel with the user from the device.
+     */
+    async deleteRatchetChannel(identity: string) {
+        await this.ratchetManager.delete(identity);
+    }
+
     /**
      * @hidden
      */
@@ -667,14 +1107,55 @@ export abstract class AbstractEThree {
             privateKey: myKeyPair.privateKey,
             publicKey: myKeyPair.publicKey,
             previousCardId: previousCard ? previousCard.id : undefined,
+            extraFields: this.deviceId ? { [CARD_DEVICE_ID_FIELD]: this.deviceId } : undefined,
         });
         await this.keyLoader.savePrivateKeyLocal(myKeyPair.privateKey);
+        try {
+            // the pre-keys signed with the previous private key can't be verified anymore
+            await this.ratchetManager.publishPreKeys();
+        } catch (error) {
+            // the card is published already, so the pre-keys are published again when the ratchet
+            // channel is created or joined
+        }
         return {
             card,
             keyPair: myKeyPair,
         };
     }
 
+    /**
+     * @hidden
+     */
+    private async getOwnCard() {
+        const cards = await this.searchOwnCards();
+        if (cards.length === 0) throw new RegisterRequiredError();
+        if (cards.length > 1) throw new MultipleCardsError(this.identity);
+        return cards[0];
+    }
+
+    /**
+     * @hidden
+     *
+     * Searches for the Virgil Cards of the current user. In multi-device mode returns only the
+     * Virgil Cards of the current device.
+     */
+    private async searchOwnCards() {
+        const cards = await this.cardManager.searchCards(this.identity);
+        if (!this.deviceId) {
+            return cards;
+        }
+        return cards.filter(card => getCardDeviceId(card) === this.deviceId);
+    }
+
+    /**
+     * @hidden
+     */
+    private isCardPrivateKey(card: ICard, privateKey: IPrivateKey) {
+        return this.isOwnPublicKeyIncluded(card.publicKey, [
+            this.virgilCrypto.extractPublicKey(privateKey),
+        ]);
+    }
+
     /**
      * @hidden
      */
@@ -706,6 +1187,7 @@ export abstract class AbstractEThree {
      */
     private async onPrivateKeyDeleted() {
         await this.groupManager.cleanup();
+        await this.ratchetManager.cleanup();
     }
 
     /**
@@ -713,7 +1195,7 @@ export abstract class AbstractEThree {
      */
     protected getPublicKeysForEncryption(
         ownPrivateKey: IPrivateKey,
-        recipients?: ICard | FindUsersResult | IPublicKey | LookupResult,
+        recipients?: ICard | FindUsersResult | FindUserDevicesResult | IPublicKey | LookupResult,
     ): IPublicKey[] | null {
         let publicKeys: IPublicKey[];
         if (recipients == null) {
@@ -722,6 +1204,8 @@ export abstract class AbstractEThree {
             publicKeys = [recipients.publicKey];
         } else if (isFindUsersResult(recipients)) {
             publicKeys = getObjectValues(recipients).map((card: ICard) => card.publicKey);
+        } else if (isFindUserDevicesResult(recipients)) {
+            publicKeys = getCardsArray(recipients).map(card => card.publicKey);
         } else if (this.isPublicKey(recipients)) {
             warn(
                 'Warning! Calling `encrypt` with the result of `lookupPublicKeys` method has been deprecated. ' +
@@ -0,0 +1,111 @@
+import { getShardPath } from './ShardedCloudGroupTicketStorage';
+import { GroupTicketTransport, ICard, ICrypto, IPublicKey } from './types';
+
+/**
+ * @hidden
+ *
+ * Stores a JSON document of the group, e.g. the signed group roles, with
+ * {@link GroupTicketTransport} next to the group tickets. Every participant hosting the group
+ * stores its own copy shared with the participants. The documents of the large group are sharded
+ * the same way as its tickets, see {@link getShardPath}.
+ */
+export class CloudGroupDocumentStorage<T> {
+    private _root: string;
+    private _key: string;
+    private _transport: GroupTicketTransport;
+    private _virgilCrypto: ICrypto;
+    private _identity: string;
+
+    constructor(options: {
+        root: string;
+        key: string;
+        transport: GroupTicketTransport;
+        virgilCrypto: ICrypto;
+        identity: string;
+    }) {
+        this._root = options.root;
+        this._key = options.key;
+        this._transport = options.transport;
+        this._virgilCrypto = options.virgilCrypto;
+        this._identity = options.identity;
+    }
+
+    async store(sessionId: string, document: T, cards: ICard[], large = false) {
+        if (!large) {
+            await this.storeAt(sessionId, document, cards);
+            return;
+        }
+        const shards = new Map<string, ICard[]>([
+            [this.getShardPath(sessionId, this._identity), []],
+        ]);
+        for (const card of cards) {
+            const path = this.getShardPath(sessionId, card.identity);
+            shards.set(path, (shards.get(path) || []).concat(card));
+        }
+        for (const [path, shardCards] of shards) {
+            await this.storeAt(path, document, shardCards);
+        }
+    }
+
+    /**
+     * Retrieves the document shared with the current user by the given identity. Both the regular
+     * and the sharded storage are checked if it's unknown whether the group is large.
+     */
+    async retrieve(
+        sessionId: string,
+        identity: string,
+        publicKey: IPublicKey,
+        large?: boolean,
+    ): Promise<T | null> {
+        const paths: string[] = [];
+        if (large !== true) paths.push(sessionId);
+        if (large !== false) paths.push(this.getShardPath(sessionId, this._identity));
+        for (const path of paths) {
+            const document = await this.retrieveAt(path, identity, publicKey);
+            if (document) return document;
+        }
+        return null;
+    }
+
+    async delete(sessionId: string, participants: string[] = [], large = false) {
+        const paths = large
+            ? new Set(
+                  [this._identity, ...participants].map(identity =>
+                      this.getShardPath(sessionId, identity),
+                  ),
+              )
+            : [sessionId];
+        for (const path of paths) {
+            await this._transport.deleteDocuments(this._root, path);
+        }
+    }
+
+    private getShardPath(sessionId: string, identity: string) {
+        return getShardPath(this._virgilCrypto, sessionId, identity);
+    }
+
+    private async storeAt(path: string, document: T, cards: ICard[]) {
+        await this._transport.storeDocument(
+            this._root,
+            path,
+            this._key,
+            JSON.stringify(document),
+            cards,
+        );
+    }
+
+    private async retrieveAt(
+        path: string,
+        identity: string,
+        publicKey: IPublicKey,
+    ): Promise<T | null> {
+        const value = await this._transport.retrieveDocument(
+            this._root,
+            path,
+            this._key,
+            identity,
+            publicKey,
+        );
+        return value === null ? null : JSON.parse(value);
+    }
+}
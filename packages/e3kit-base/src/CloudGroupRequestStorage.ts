@@ -0,0 +1,106 @@
+import { CLOUD_GROUP_REQUESTS_ROOT } from './constants';
+import { getShardPath } from './ShardedCloudGroupTicketStorage';
+import { GroupTicketTransport, ICard, ICrypto, IPublicKey } from './types';
+
+/**
+ * @hidden
+ *
+ * Request of the participant to the group initiator. Processed by the initiator on the next
+ * {@link Group.update}.
+ */
+export interface GroupRequest {
+    type: 'leave';
+}
+
+/**
+ * @hidden
+ *
+ * Stores the requests of the participant with {@link GroupTicketTransport}, so the group
+ * initiator can find them. The requests of the regular group are stored at the same path, so
+ * the initiator retrieves the requests of all the participants at once. The requests of the large
+ * group are sharded the same way as its tickets, see {@link getShardPath}, and are retrieved
+ * once per shard.
+ */
+export class CloudGroupRequestStorage {
+    private _transport: GroupTicketTransport;
+    private _virgilCrypto: ICrypto;
+    private _identity: string;
+
+    constructor(options: {
+        transport: GroupTicketTransport;
+        virgilCrypto: ICrypto;
+        identity: string;
+    }) {
+        this._transport = options.transport;
+        this._virgilCrypto = options.virgilCrypto;
+        this._identity = options.identity;
+    }
+
+    async store(sessionId: string, request: GroupRequest, cards: ICard[], large = false) {
+        await this._transport.storeDocument(
+            CLOUD_GROUP_REQUESTS_ROOT,
+            this.getPath(sessionId, this._identity, large),
+            request.type,
+            JSON.stringify(request),
+            cards,
+        );
+    }
+
+    async retrieve(
+        sessionId: string,
+        type: GroupRequest['type'],
+        identity: string,
+        publicKey: IPublicKey,
+        large = false,
+    ): Promise<GroupRequest | null> {
+        const value = await this._transport.retrieveDocument(
+            CLOUD_GROUP_REQUESTS_ROOT,
+            this.getPath(sessionId, identity, large),
+            type,
+            identity,
+            publicKey,
+        );
+        return value === null ? null : JSON.parse(value);
+    }
+
+    /**
+     * Retrieves the requests of the type made by the owners of the cards. Resolves with
+     * the requests by the identity of the participant who made them.
+     */
+    async retrieveAll(
+        sessionId: string,
+        type: GroupRequest['type'],
+        cards: ICard[],
+        large = false,
+    ) {
+        const shards = new Map<string, ICard[]>();
+        for (const card of cards) {
+            const path = this.getPath(sessionId, card.identity, large);
+            shards.set(path, (shards.get(path) || []).concat(card));
+        }
+        const requests = new Map<string, GroupRequest>();
+        for (const [path, shardCards] of shards) {
+            const values = await this._transport.retrieveDocuments(
+                CLOUD_GROUP_REQUESTS_ROOT,
+                path,
+                type,
+                shardCards,
+            );
+            for (const [identity, value] of values) {
+                requests.set(identity, JSON.parse(value));
+            }
+        }
+        return requests;
+    }
+
+    async delete(sessionId: string, large = false) {
+        await this._transport.deleteDocuments(
+            CLOUD_GROUP_REQUESTS_ROOT,
+            this.getPath(sessionId, this._identity, large),
+        );
+    }
+
+    private getPath(sessionId: string, identity: string, large: boolean) {
+        return large ? getShardPath(this._virgilCrypto, sessionId, identity) : sessionId;
+    }
+}
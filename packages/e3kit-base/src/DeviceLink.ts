@@ -0,0 +1,214 @@
+import { CardManager } from 'virgil-sdk';
+
+import { DEVICE_LINK_VERSION } from './constants';
+import { DeviceLinkError, MultipleCardsError, RegisterRequiredError } from './errors';
+import { PrivateKeyLoader } from './PrivateKeyLoader';
+import { ICrypto, IKeyPair, DeviceLinkTransport } from './types';
+
+const SHORT_AUTHENTICATION_STRING_LENGTH = 6;
+
+/**
+ * @hidden
+ */
+export interface PairingCode {
+    version: number;
+    identity: string;
+    publicKey: string;
+}
+
+/**
+ * @hidden
+ */
+export type DeviceLinkMessage =
+    | { version: number; type: 'commitment'; commitment: string }
+    | { version: number; type: 'publicKey'; publicKey: string; nonce: string }
+    | { version: number; type: 'nonce'; nonce: string }
+    | { version: number; type: 'key'; encryptedKey: string };
+
+/**
+ * @hidden
+ */
+export interface DeviceLinkPayload {
+    privateKey: string;
+    nonce: string;
+}
+
+/**
+ * @hidden
+ *
+ * Calculates the commitment to the nonce of the existing device. The existing device sends
+ * the commitment before it receives the nonce of the new device and reveals its own nonce only
+ * after that, so neither side can choose its nonce to get the short authentication string it wants.
+ */
+export function getNonceCommitment(virgilCrypto: ICrypto, nonce: string) {
+    return virgilCrypto
+        .calculateHash({ value: nonce, encoding: 'base64' }, 'SHA256')
+        .toString('base64');
+}
+
+/**
+ * @hidden
+ *
+ * Calculates the short authentication string, which is displayed on both devices and compared
+ * by the user, from the ephemeral public key of the new device and the nonces of both devices.
+ */
+export function getShortAuthenticationString(
+    virgilCrypto: ICrypto,
+    publicKey: string,
+    nonce: string,
+    newDeviceNonce: string,
+) {
+    const hash = virgilCrypto.calculateHash(
+        { value: `${publicKey}.${nonce}.${newDeviceNonce}`, encoding: 'utf8' },
+        'SHA256',
+    );
+    const value = new DataView(hash.buffer, hash.byteOffset, hash.byteLength).getUint32(0);
+    return (value % 10 ** SHORT_AUTHENTICATION_STRING_LENGTH)
+        .toString()
+        .padStart(SHORT_AUTHENTICATION_STRING_LENGTH, '0');
+}
+
+/**
+ * @hidden
+ */
+export function parseDeviceLinkMessage(message: string): DeviceLinkMessage {
+    const parsedMessage = JSON.parse(message);
+    if (parsedMessage.version !== DEVICE_LINK_VERSION) {
+        throw new DeviceLinkError(
+            `Unsupported version of the device link: ${parsedMessage.version}`,
+        );
+    }
+    return parsedMessage;
+}
+
+/**
+ * Device link started with {@link EThree.createDeviceLink} on the device that doesn't have
+ * the private key yet. The private key is received from the device that has it, after
+ * {@link EThree.linkDevice} is called there with the pairing code of this device link.
+ */
+export class DeviceLink {
+    /**
+     * Pairing code which should be transferred to the existing device, e.g. displayed as
+     * a QR code, and passed to {@link EThree.linkDevice} there.
+     */
+    readonly pairingCode: string;
+
+    private _identity: string;
+    private _virgilCrypto: ICrypto;
+    private _privateKeyLoader: PrivateKeyLoader;
+    private _cardManager: CardManager;
+    private _keyPair: IKeyPair;
+    private _publicKey: string;
+    private _nonce?: string;
+
+    /**
+     * @hidden
+     */
+    constructor(options: { privateKeyLoader: PrivateKeyLoader; cardManager: CardManager }) {
+        this._identity = options.privateKeyLoader.identity;
+        this._virgilCrypto = options.privateKeyLoader.options.virgilCrypto;
+        this._privateKeyLoader = options.privateKeyLoader;
+        this._cardManager = options.cardManager;
+        this._keyPair = this._virgilCrypto.generateKeys();
+        this._publicKey = this._virgilCrypto
+            .exportPublicKey(this._keyPair.publicKey)
+            .toString('base64');
+        const pairingCode: PairingCode = {
+            version: DEVICE_LINK_VERSION,
+            identity: this._identity,
+            publicKey: this._publicKey,
+        };
+        this.pairingCode = JSON.stringify(pairingCode);
+    }
+
+    /**
+     * Waits for the existing device to start linking and returns the short authentication
+     * string. The user must make sure it is the same as the one displayed on the existing device.
+     */
+    async getShortAuthenticationString(transport: DeviceLinkTransport) {
+        const commitmentMessage = parseDeviceLinkMessage(await transport.receive());
+        if (commitmentMessage.type !== 'commitment') {
+            throw new DeviceLinkError('Unexpected message received from the existing device.');
+        }
+
+        const newDeviceNonce = this._virgilCrypto.getRandomBytes(32).toString('base64');
+        const publicKeyMessage: DeviceLinkMessage = {
+            version: DEVICE_LINK_VERSION,
+            type: 'publicKey',
+            publicKey: this._publicKey,
+            nonce: newDeviceNonce,
+        };
+        await transport.send(JSON.stringify(publicKeyMessage));
+
+        const nonceMessage = parseDeviceLinkMessage(await transport.receive());
+        if (nonceMessage.type !== 'nonce') {
+            throw new DeviceLinkError('Unexpected message received from the existing device.');
+        }
+        const commitment = getNonceCommitment(this._virgilCrypto, nonceMessage.nonce);
+        if (commitment !== commitmentMessage.commitment) {
+            throw new DeviceLinkError(
+                "The nonce received from the existing device doesn't match its commitment.",
+            );
+        }
+        this._nonce = nonceMessage.nonce;
+        return getShortAuthenticationString(
+            this._virgilCrypto,
+            this._publicKey,
+            nonceMessage.nonce,
+            newDeviceNonce,
+        );
+    }
+
+    /**
+     * Waits for the private key sent by the existing device, verifies that it is signed with
+     * the private key of the user and matches the user's Virgil Card, and saves it locally.
+     */
+    async complete(transport: DeviceLinkTransport) {
+        if (!this._nonce) {
+            throw new DeviceLinkError(
+                'Short authentication string must be compared before completing the device link.',
+            );
+        }
+        const message = parseDeviceLinkMessage(await transport.receive());
+        if (message.type !== 'key') {
+            throw new DeviceLinkError('Unexpected message received from the existing device.');
+        }
+
+        const cards = await this._cardManager.searchCards(this._identity);
+        if (cards.length === 0) throw new RegisterRequiredError();
+        if (cards.length > 1) throw new MultipleCardsError(this._identity);
+        const [card] = cards;
+
+        let payload: DeviceLinkPayload;
+        try {
+            const decryptedData = this._virgilCrypto.decryptAndVerify(
+                { value: message.encryptedKey, encoding: 'base64' },
+                this._keyPair.privateKey,
+                card.publicKey,
+            );
+            payload = JSON.parse(decryptedData.toString('utf8'));
+        } catch (e) {
+            throw new DeviceLinkError(
+                'Failed to verify the private key received from the existing device.',
+            );
+        }
+        if (payload.nonce !== this._nonce) {
+            throw new DeviceLinkError('The private key was sent for a different device link.');
+        }
+
+        const privateKey = this._virgilCrypto.importPrivateKey({
+            value: payload.privateKey,
+            encoding: 'base64',
+        });
+        const publicKey = this._virgilCrypto.extractPublicKey(privateKey);
+        const isCardPublicKey =
+            this._virgilCrypto.exportPublicKey(publicKey).toString('base64') ===
+            this._virgilCrypto.exportPublicKey(card.publicKey).toString('base64');
+        if (!isCardPublicKey) {
+            throw new DeviceLinkError(
+                "The private key received from the existing device doesn't match the Virgil Card.",
+            );
+        }
+        await this._privateKeyLoader.savePrivateKeyLocal(privateKey);
+    }
+}
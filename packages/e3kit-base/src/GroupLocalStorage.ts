@@ -8,8 +8,21 @@ import {
     AbstractIteratorOptions,
     ErrorCallback,
 } from 'abstract-leveldown';
-import { Ticket, RawGroup, GroupInfo, IKeyPair, ICrypto, ICard } from './types';
+import {
+    Ticket,
+    RawGroup,
+    GroupInfo,
+    GroupRoles,
+    SignedGroupRoles,
+    GroupMetadata,
+    GroupOperation,
+    SenderKeyState,
+    IKeyPair,
+    ICrypto,
+    ICard,
+} from './types';
 import VirgilEncryptDown from './virgil-encrypt-down';
+import { addParticipantCardIds } from './utils/card';
 
 export interface RetrieveOptions {
     ticketCount?: number;
@@ -24,13 +37,18 @@ export interface GroupLocalStorageConstructorParams {
 
 export class GroupLocalStorage {
     private _db: LevelUp;
+    private _operationsDb: LevelUp;
+    private _senderKeysDb: LevelUp;
+    private _identityLevel: LevelUp;
     private _encryptionLevel: VirgilEncryptDown<string>;
 
     constructor({ identity, virgilCrypto, leveldown }: GroupLocalStorageConstructorParams) {
         this._encryptionLevel = new VirgilEncryptDown(leveldown, { virgilCrypto });
         const rootLevel = levelup(this._encryptionLevel);
-        const identityLevel = sub(rootLevel, identity);
-        this._db = sub(identityLevel, 'GROUPS', { valueEncoding: 'json' });
+        this._identityLevel = sub(rootLevel, identity);
+        this._db = this.createSublevel('GROUPS');
+        this._operationsDb = this.createSublevel('OPERATIONS');
+        this._senderKeysDb = this.createSublevel('SENDER_KEYS');
     }
 
     async store(rawGroup: RawGroup) {
@@ -75,16 +93,155 @@ export class GroupLocalStorage {
         return { info, tickets };
     }
 
+    /**
+     * Returns all the groups stored on the device, each with its last ticket.
+     */
+    list(): Promise<RawGroup[]> {
+        return new Promise((resolve, reject) => {
+            const infos = new Map<string, GroupInfo>();
+            const lastTickets = new Map<string, Ticket>();
+            let error: Error | undefined = undefined;
+
+            this._db
+                .createReadStream()
+                .on('data', ({ key, value }: { key: string; value: GroupInfo | Ticket }) => {
+                    const [sessionId] = key.split('!');
+                    if (sessionId === key) {
+                        infos.set(sessionId, value as GroupInfo);
+                        return;
+                    }
+                    const ticket = value as Ticket;
+                    const lastTicket = lastTickets.get(sessionId);
+                    if (
+                        !lastTicket ||
+                        lastTicket.groupSessionMessage.epochNumber <
+                            ticket.groupSessionMessage.epochNumber
+                    ) {
+                        lastTickets.set(sessionId, ticket);
+                    }
+                })
+                .on('error', err => (error = err))
+                .on('end', () => {
+                    if (error) return reject(error);
+                    const rawGroups: RawGroup[] = [];
+                    for (const [sessionId, info] of infos) {
+                        const lastTicket = lastTickets.get(sessionId);
+                        if (lastTicket) rawGroups.push({ info, tickets: [lastTicket] });
+                    }
+                    resolve(rawGroups);
+                });
+        });
+    }
+
     async delete(sessionId: string) {
         const prefix = sessionId;
         await this._db.clear({
             gt: prefix,
             lte: prefix + '\xff',
         });
+        await this._operationsDb.clear({
+            gt: prefix + '!',
+            lte: prefix + '!\xff',
+        });
+        await this._senderKeysDb.clear({
+            gt: prefix + '!',
+            lte: prefix + '!\xff',
+        });
     }
 
     async reset() {
         await this._db.clear();
+        await this._operationsDb.clear();
+        await this._senderKeysDb.clear();
+    }
+
+    /**
+     * Deletes the tickets of the given epochs of the group.
+     */
+    async deleteTickets(sessionId: string, epochNumbers: number[]) {
+        const info = await this.retrieveGroupInfo(sessionId);
+        if (!info) return;
+        const epochTimestamps: { [epochNumber: number]: number } = { ...info.epochTimestamps };
+        epochNumbers.forEach(epochNumber => delete epochTimestamps[epochNumber]);
+        const deleteTickets: AbstractBatch<string, Ticket>[] = epochNumbers.map(epochNumber => ({
+            type: 'del',
+            key: this.getTicketKey(sessionId, epochNumber),
+        }));
+        await this._db.batch([
+            { type: 'put', key: sessionId, value: { ...info, epochTimestamps } },
+            ...deleteTickets,
+        ]);
+        for (const epochNumber of epochNumbers) {
+            const prefix = `${sessionId}!${epochNumber}!`;
+            await this._senderKeysDb.clear({ gt: prefix, lte: prefix + '\xff' });
+        }
+    }
+
+    async storeSenderKey(state: SenderKeyState) {
+        await this._senderKeysDb.batch([
+            {
+                type: 'put',
+                key: this.getSenderKeyKey(state.sessionId, state.epochNumber, state.identity),
+                value: state,
+            },
+        ]);
+    }
+
+    async retrieveSenderKey(
+        sessionId: string,
+        epochNumber: number,
+        identity: string,
+    ): Promise<SenderKeyState | null> {
+        try {
+            return await this._senderKeysDb.get(
+                this.getSenderKeyKey(sessionId, epochNumber, identity),
+            );
+        } catch (err) {
+            if (err.notFound) {
+                return null;
+            }
+            throw err;
+        }
+    }
+
+    async storeOperations(operations: GroupOperation[]) {
+        await this._operationsDb.batch(
+            operations.map(
+                (operation): AbstractBatch<string, GroupOperation> => ({
+                    type: 'put',
+                    key: this.getOperationKey(operation),
+                    value: operation,
+                }),
+            ),
+        );
+    }
+
+    /**
+     * Returns the queued operations of the group, or of all the groups if the session id is not
+     * given, in the order they were queued.
+     */
+    retrieveOperations(sessionId?: string): Promise<GroupOperation[]> {
+        return new Promise((resolve, reject) => {
+            const operations: GroupOperation[] = [];
+            let error: Error | undefined = undefined;
+
+            const options: AbstractIteratorOptions = sessionId
+                ? { gt: sessionId + '!', lte: sessionId + '!\xff' }
+                : {};
+            this._operationsDb
+                .createReadStream(options)
+                .on('data', data => operations.push(data.value))
+                .on('error', err => (error = err))
+                .on('end', () =>
+                    error
+                        ? reject(error)
+                        : resolve(operations.sort((a, b) => (a.id < b.id ? -1 : 1))),
+                );
+        });
+    }
+
+    async deleteOperation(operation: GroupOperation) {
+        await this._operationsDb.batch([{ type: 'del', key: this.getOperationKey(operation) }]);
     }
 
     async addParticipants(sessionId: string, participants: string[]) {
@@ -99,10 +256,61 @@ export class GroupLocalStorage {
         await this._db.batch([{ type: 'put', key, value: newTicket }]);
     }
 
+    async retrieveInfo(sessionId: string) {
+        return this.retrieveGroupInfo(sessionId);
+    }
+
+    async addParticipantCards(sessionId: string, cards: ICard[]) {
+        const info = await this.retrieveGroupInfo(sessionId);
+        if (!info) return;
+        const newInfo: GroupInfo = {
+            ...info,
+            participantCardIds: addParticipantCardIds(info.participantCardIds, cards),
+        };
+        await this._db.batch([{ type: 'put', key: sessionId, value: newInfo }]);
+    }
+
+    async setRoles(sessionId: string, roles: GroupRoles, signedRoles: SignedGroupRoles) {
+        const info = await this.retrieveGroupInfo(sessionId);
+        if (!info) return;
+        const newInfo: GroupInfo = {
+            ...info,
+            initiator: roles.initiator,
+            admins: roles.admins,
+            signedRoles,
+        };
+        if (roles.senderKeys) {
+            newInfo.senderKeys = true;
+        }
+        await this._db.batch([{ type: 'put', key: sessionId, value: newInfo }]);
+    }
+
+    async setMetadata(sessionId: string, metadata: GroupMetadata) {
+        const info = await this.retrieveGroupInfo(sessionId);
+        if (!info) return;
+        const newInfo: GroupInfo = { ...info, metadata };
+        await this._db.batch([{ type: 'put', key: sessionId, value: newInfo }]);
+    }
+
+    async setReadOnly(sessionId: string) {
+        const info = await this.retrieveGroupInfo(sessionId);
+        if (!info) return;
+        const newInfo: GroupInfo = { ...info, readOnly: true };
+        await this._db.batch([{ type: 'put', key: sessionId, value: newInfo }]);
+    }
+
     setEncryptionKeyPair(keyPair: IKeyPair) {
         this._encryptionLevel.setKeyPair(keyPair);
     }
 
+    /**
+     * Creates the sublevel of the current user in the same database as the groups. The values of
+     * the sublevel are encrypted with the same key pair, see {@link setEncryptionKeyPair}.
+     */
+    createSublevel(name: string): LevelUp {
+        return sub(this._identityLevel, name, { valueEncoding: 'json' });
+    }
+
     private async retrieveGroupInfo(sessionId: string): Promise<GroupInfo | null> {
         try {
             return await this._db.get(sessionId);
@@ -149,6 +357,14 @@ export class GroupLocalStorage {
         }
     }
 
+    private getSenderKeyKey(sessionId: string, epochNumber: number, identity: string) {
+        return `${sessionId}!${epochNumber}!${identity}`;
+    }
+
+    private getOperationKey(operation: GroupOperation) {
+        return `${operation.sessionId}!${operation.id}`;
+    }
+
     private getTicketKey(sessionId: string, epochNumber: number) {
         // The structure of the ticket key:
         // `<session_id>!<number_of_digits_in_epoch_number_encoded_as_single_char>!<epoch_number>`
@@ -1,80 +1,296 @@
 import {
-    CloudGroupTicketStorage,
     KeyknoxManager,
     KeyknoxCrypto,
     KeyknoxClient,
     GroupTicket,
+    GroupTicketAlreadyExistsError,
 } from '@virgilsecurity/keyknox';
 import { CardManager, VirgilAgent } from 'virgil-sdk';
 
-import { ICard, Ticket } from './types';
-import { CLOUD_GROUP_SESSIONS_ROOT, MAX_EPOCHS_IN_GROUP_SESSION } from './constants';
+import {
+    ICard,
+    IPublicKey,
+    Ticket,
+    GroupInfo,
+    GroupRoles,
+    SignedGroupRoles,
+    GroupHistoryEntry,
+    GroupSummary,
+    GroupId,
+    GroupMetadata,
+    GroupOperation,
+    GroupRetentionPolicy,
+    GroupTicketTransportFactory,
+    GroupFileProcessor,
+    GroupEvent,
+    GroupEventListener,
+    GroupEventType,
+    IKeyPair,
+    RawGroup,
+    SenderKeyState,
+    Data,
+} from './types';
+import {
+    CLOUD_GROUP_HISTORY_ROOT,
+    CLOUD_GROUP_ROLES_ROOT,
+    MAX_EPOCHS_IN_GROUP_SESSION,
+    MAX_IDENTITIES_TO_SEARCH,
+} from './constants';
+import { CloudGroupDocumentStorage } from './CloudGroupDocumentStorage';
+import { KeyknoxGroupTicketTransport } from './KeyknoxGroupTicketTransport';
+import { CloudGroupRequestStorage } from './CloudGroupRequestStorage';
+import { ShardedCloudGroupTicketStorage } from './ShardedCloudGroupTicketStorage';
 import { PrivateKeyLoader } from './PrivateKeyLoader';
 import { GroupError, GroupErrorCode, MissingPrivateKeyError } from './errors';
 import { Group } from './groups/Group';
 import { GroupLocalStorage, RetrieveOptions } from './GroupLocalStorage';
 import { isSafeInteger } from './utils/number';
+import { addParticipantCardIds, isRotatedCard } from './utils/card';
+import { getDefaultGroupRoles, signGroupRoles, verifyGroupRoles } from './utils/roles';
+import { getGroupEvents } from './utils/group';
+import {
+    createChainKey,
+    decryptSenderKeyMessage,
+    encryptSenderKeyMessage,
+    getSenderKeyPath,
+} from './utils/senderKey';
+import {
+    SignedGroupHistoryEntry,
+    getCardChainPublicKeys,
+    signGroupHistoryEntry,
+    verifyGroupHistoryEntry,
+} from './utils/history';
+import { chunkArray } from './array';
 
 export interface GroupManagerConstructorParams {
     identity: string;
     privateKeyLoader: PrivateKeyLoader;
     cardManager: CardManager;
     groupLocalStorage: GroupLocalStorage;
+    keepRemovedGroups?: boolean;
+    retentionPolicy?: GroupRetentionPolicy;
+    transportFactory?: GroupTicketTransportFactory;
+    fileProcessor?: GroupFileProcessor;
 }
 
+const isGroupTicketError = (error: Error) =>
+    error.name === 'GroupTicketDoesntExistError' || error.name === 'GroupTicketNoAccessError';
+
+/**
+ * Change of the group to be queued along with the cards it's made for.
+ */
+type QueuedChange = {
+    operation: Pick<GroupOperation, 'type' | 'sessionId' | 'epochNumber' | 'added' | 'removed'>;
+    cards?: ICard[];
+};
+
+/**
+ * Whether the queued operation failed with the error that retrying can't fix.
+ */
+const isPermanentOperationError = (error: Error) =>
+    isGroupTicketError(error) || error.name === 'GroupTicketAlreadyExistsError';
+
+let operationCounter = 0;
+
+/**
+ * Returns the id of the queued operation. The ids are ordered the same way as the operations
+ * were queued.
+ */
+const createOperationId = () => {
+    operationCounter = (operationCounter + 1) % 1e6;
+    return `${String(Date.now()).padStart(15, '0')}-${String(operationCounter).padStart(6, '0')}`;
+};
+
+/**
+ * Merges the tickets retrieved from the cloud storages of different group hosts. Tickets of
+ * the same epoch hosted by different users are shared with different participants.
+ */
+const mergeCloudTickets = (cloudTickets: GroupTicket[]) => {
+    const ticketsByEpoch = new Map<number, Ticket>();
+    for (const { groupSessionMessageInfo, identities } of cloudTickets) {
+        const existingTicket = ticketsByEpoch.get(groupSessionMessageInfo.epochNumber);
+        ticketsByEpoch.set(groupSessionMessageInfo.epochNumber, {
+            groupSessionMessage: groupSessionMessageInfo,
+            participants: existingTicket
+                ? [...new Set([...existingTicket.participants, ...identities])]
+                : identities,
+        });
+    }
+    return [...ticketsByEpoch.values()];
+};
+
+const toGroupSummary = ({ info, tickets: [lastTicket] }: RawGroup): GroupSummary => ({
+    sessionId: lastTicket.groupSessionMessage.sessionId,
+    groupId: info.groupId,
+    metadata: info.metadata,
+    initiator: info.initiator,
+    participants: lastTicket.participants,
+    epochNumber: lastTicket.groupSessionMessage.epochNumber,
+    readOnly: Boolean(info.readOnly),
+});
+
 export class GroupManager {
     private _selfIdentity: string;
     private _localGroupStorage: GroupLocalStorage;
     private _privateKeyLoader: PrivateKeyLoader;
     private _cardManager: CardManager;
+    private _keepRemovedGroups: boolean;
+    private _retentionPolicy?: GroupRetentionPolicy;
+    private _transportFactory?: GroupTicketTransportFactory;
+    private _fileProcessor?: GroupFileProcessor;
+    private _listeners = new Map<string, Set<unknown>>();
 
     constructor({
         identity,
         privateKeyLoader,
         cardManager,
         groupLocalStorage,
+        keepRemovedGroups,
+        retentionPolicy,
+        transportFactory,
+        fileProcessor,
     }: GroupManagerConstructorParams) {
         this._selfIdentity = identity;
         this._privateKeyLoader = privateKeyLoader;
         this._cardManager = cardManager;
         this._localGroupStorage = groupLocalStorage;
+        this._keepRemovedGroups = Boolean(keepRemovedGroups);
+        this._retentionPolicy = retentionPolicy;
+        this._transportFactory = transportFactory;
+        this._fileProcessor = fileProcessor;
     }
 
-    async store(ticket: Ticket, cards: ICard[]) {
-        const cloudTicketStorage = await this.getCloudTicketStorage();
-        await cloudTicketStorage.store(ticket.groupSessionMessage, cards);
-        const group = new Group({
-            initiator: this.selfIdentity,
+    async store(
+        ticket: Ticket,
+        cards: ICard[],
+        options: {
+            groupId?: GroupId;
+            large?: boolean;
+            metadata?: GroupMetadata;
+            senderKeys?: boolean;
+        } = {},
+    ) {
+        const localGroupStorage = await this.getLocalGroupStorage();
+        const existingInfo = await localGroupStorage.retrieveInfo(
+            ticket.groupSessionMessage.sessionId,
+        );
+        const info: GroupInfo = {
+            ...existingInfo,
+            initiator: existingInfo ? existingInfo.initiator : this.selfIdentity,
+            groupId: existingInfo ? existingInfo.groupId : options.groupId,
+            metadata: existingInfo ? existingInfo.metadata : options.metadata,
+            participantCardIds: addParticipantCardIds({}, cards),
+            large: existingInfo ? Boolean(existingInfo.large) : Boolean(options.large),
+            senderKeys: existingInfo
+                ? Boolean(existingInfo.senderKeys)
+                : Boolean(options.senderKeys),
+            epochTimestamps: {
+                ...(existingInfo && existingInfo.epochTimestamps),
+                [ticket.groupSessionMessage.epochNumber]: Date.now(),
+            },
+        };
+        const { sessionId, epochNumber } = ticket.groupSessionMessage;
+        if (existingInfo && (await localGroupStorage.retrieve(sessionId, { epochNumber }))) {
+            throw new GroupTicketAlreadyExistsError();
+        }
+        const previousGroup = existingInfo
+            ? await localGroupStorage.retrieve(sessionId, { ticketCount: 1 })
+            : null;
+        const previousParticipants = previousGroup ? previousGroup.tickets[0].participants : [];
+        const added = ticket.participants.filter(
+            identity => previousParticipants.indexOf(identity) === -1,
+        );
+        const removed = previousParticipants.filter(
+            identity => ticket.participants.indexOf(identity) === -1,
+        );
+        const changes: QueuedChange[] = [
+            { operation: { type: 'storeTicket', sessionId, epochNumber, added, removed }, cards },
+        ];
+        if (removed.length > 0) {
+            // the removed participants still have access to the tickets of the previous epochs,
+            // so the removal is recorded along with the new ticket to be finished if interrupted
+            changes.push({
+                operation: { type: 'removeAccess', sessionId, epochNumber, added: [], removed },
+            });
+        }
+        await localGroupStorage.store({ info, tickets: [ticket] });
+        try {
+            await this.enqueue(...changes);
+        } catch (error) {
+            // the group with the same id was created by someone else
+            if (!existingInfo && error.name === 'GroupTicketAlreadyExistsError') {
+                await localGroupStorage.delete(sessionId);
+            }
+            throw error;
+        }
+        if (!existingInfo && info.senderKeys) {
+            // the participants learn the mode of the group from the roles signed by the initiator
+            await this.storeRoles(
+                sessionId,
+                { initiator: info.initiator, admins: [], senderKeys: true },
+                cards,
+            );
+        }
+        if (this._retentionPolicy) {
+            await this.prune(sessionId, this._retentionPolicy);
+        }
+        return new Group({
+            initiator: info.initiator,
+            admins: info.admins,
+            groupId: info.groupId,
+            metadata: info.metadata,
+            large: info.large,
+            senderKeys: info.senderKeys,
             tickets: [ticket],
             privateKeyLoader: this._privateKeyLoader,
             cardManager: this._cardManager,
             groupManager: this,
+            fileProcessor: this._fileProcessor,
         });
-        const localGroupStorage = await this.getLocalGroupStorage();
-        localGroupStorage.store({
-            info: { initiator: this.selfIdentity },
-            tickets: [ticket],
-        });
-        return group;
     }
 
-    async pull(sessionId: string, initiatorCard: ICard) {
+    async pull(sessionId: string, initiatorCard: ICard, groupId?: GroupId) {
         const localGroupStorage = await this.getLocalGroupStorage();
+        const info = await localGroupStorage.retrieveInfo(sessionId);
+        const previous = info ? await this.retrieveSummary(sessionId) : null;
+        const { roles, signedRoles, hostCards } = await this.pullRoles(
+            sessionId,
+            initiatorCard,
+            info || undefined,
+        );
+        let large = Boolean(info && info.large);
+        // the initiator of the large group reads the shards of all the participants known so far
+        const rawGroup = large
+            ? await localGroupStorage.retrieve(sessionId, { ticketCount: 1 })
+            : null;
+        const participants = rawGroup ? rawGroup.tickets[0].participants : [];
         let cloudTickets: GroupTicket[];
         try {
-            const cloudTicketStorage = await this.getCloudTicketStorage();
-            cloudTickets = await cloudTicketStorage.retrieve(
-                sessionId,
-                initiatorCard.identity,
-                initiatorCard.publicKey,
-            );
+            try {
+                cloudTickets = await this.pullTickets(
+                    sessionId,
+                    initiatorCard,
+                    hostCards,
+                    large,
+                    participants,
+                );
+            } catch (err) {
+                // whether the group is large is unknown until its tickets are found
+                if (info || !isGroupTicketError(err)) throw err;
+                large = true;
+                cloudTickets = await this.pullTickets(sessionId, initiatorCard, hostCards, large);
+            }
         } catch (err) {
-            if (
-                err.name === 'GroupTicketDoesntExistError' ||
-                err.name === 'GroupTicketNoAccessError'
-            ) {
+            if (info && this._keepRemovedGroups && err.name === 'GroupTicketDoesntExistError') {
+                // the tickets of the past epochs are kept to decrypt the messages received
+                // before the current user was removed
+                await localGroupStorage.setReadOnly(sessionId);
+            } else if (isGroupTicketError(err)) {
                 await localGroupStorage.delete(sessionId);
             }
+            if (previous && isGroupTicketError(err)) {
+                await this.emitChanges(previous);
+            }
             switch (err.name) {
                 case 'GroupTicketDoesntExistError':
                     throw new GroupError(
@@ -91,19 +307,52 @@ export class GroupManager {
             }
         }
 
-        const initiator = initiatorCard.identity;
-        const tickets = cloudTickets.map(ct => ({
-            groupSessionMessage: ct.groupSessionMessageInfo,
-            participants: ct.identities,
-        }));
+        if (!info) {
+            // the user might have left the group before being added to it again
+            await this.deleteLeaveRequest(sessionId, large);
+        }
+
+        const tickets = mergeCloudTickets(cloudTickets);
+        const epochTimestamps: GroupInfo['epochTimestamps'] = {
+            ...(info && info.epochTimestamps),
+        };
+        for (const { groupSessionMessage } of tickets) {
+            if (!epochTimestamps[groupSessionMessage.epochNumber]) {
+                epochTimestamps[groupSessionMessage.epochNumber] = Date.now();
+            }
+        }
+        const newInfo: GroupInfo = {
+            ...info,
+            epochTimestamps,
+            initiator: roles.initiator,
+            admins: roles.admins,
+            groupId: groupId || (info ? info.groupId : undefined),
+            signedRoles,
+            large,
+            senderKeys: Boolean(roles.senderKeys),
+        };
+        // the current user was added to the group again
+        delete newInfo.readOnly;
         const group = new Group({
-            initiator,
+            initiator: newInfo.initiator,
+            admins: newInfo.admins,
+            groupId: newInfo.groupId,
+            metadata: newInfo.metadata,
+            large,
+            senderKeys: newInfo.senderKeys,
             tickets,
             privateKeyLoader: this._privateKeyLoader,
             cardManager: this._cardManager,
             groupManager: this,
+            fileProcessor: this._fileProcessor,
         });
-        localGroupStorage.store({ info: { initiator }, tickets });
+        await localGroupStorage.store({ info: newInfo, tickets });
+        if (this._retentionPolicy) {
+            await this.prune(sessionId, this._retentionPolicy);
+        }
+        if (previous) {
+            await this.emitChanges(previous);
+        }
         return group;
     }
 
@@ -119,6 +368,12 @@ export class GroupManager {
             if (!rawGroup) return null;
             return new Group({
                 initiator: rawGroup.info.initiator,
+                admins: rawGroup.info.admins,
+                groupId: rawGroup.info.groupId,
+                metadata: rawGroup.info.metadata,
+                large: rawGroup.info.large,
+                senderKeys: rawGroup.info.senderKeys,
+                readOnly: rawGroup.info.readOnly,
                 tickets: rawGroup.tickets,
                 privateKeyLoader: this._privateKeyLoader,
                 cardManager: this._cardManager,
@@ -135,15 +390,172 @@ export class GroupManager {
         }
     }
 
+    async list(): Promise<GroupSummary[]> {
+        const localGroupStorage = await this.getLocalGroupStorage();
+        const rawGroups = await localGroupStorage.list();
+        return rawGroups.map(toGroupSummary);
+    }
+
+    /**
+     * Pulls all the groups stored on the device and resolves with the changes made by other
+     * participants since the groups were pulled last time. The groups the current user was
+     * removed from are skipped on the next sync.
+     */
+    async sync() {
+        const previousSummaries = await this.list();
+        for (const { sessionId, readOnly } of previousSummaries) {
+            if (readOnly) continue;
+            const group = await this.retrieve(sessionId);
+            if (!group) continue;
+            try {
+                await group.update();
+            } catch (error) {
+                if (
+                    !(error instanceof GroupError) ||
+                    (error.errorCode !== GroupErrorCode.NoAccess &&
+                        error.errorCode !== GroupErrorCode.RemoteGroupNotFound)
+                ) {
+                    throw error;
+                }
+            }
+        }
+        const summaries = new Map(
+            (await this.list()).map((summary): [string, GroupSummary] => [
+                summary.sessionId,
+                summary,
+            ]),
+        );
+        let events: GroupEvent[] = [];
+        for (const previous of previousSummaries) {
+            events = events.concat(
+                getGroupEvents(previous, summaries.get(previous.sessionId) || null),
+            );
+        }
+        return events;
+    }
+
+    addListener<T extends GroupEventType>(
+        sessionId: string,
+        type: T,
+        listener: GroupEventListener<T>,
+    ) {
+        const key = `${sessionId}!${type}`;
+        const listeners = this._listeners.get(key) || new Set();
+        listeners.add(listener);
+        this._listeners.set(key, listeners);
+    }
+
+    removeListener<T extends GroupEventType>(
+        sessionId: string,
+        type: T,
+        listener: GroupEventListener<T>,
+    ) {
+        const key = `${sessionId}!${type}`;
+        const listeners = this._listeners.get(key);
+        if (!listeners) return;
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+            this._listeners.delete(key);
+        }
+    }
+
+    /**
+     * Encrypts the data with the next message key of the sender key chain of the current user in
+     * the epoch. The chain is started on the first message of the epoch and shared with
+     * the participants of the epoch only. Every change of the participants starts a new epoch,
+     * so the chain is never shared with the participants added after it was started.
+     */
+    async encryptWithSenderKey(
+        sessionId: string,
+        epochNumber: number,
+        participants: string[],
+        data: Data,
+    ) {
+        const { virgilCrypto } = this._privateKeyLoader.options;
+        const localGroupStorage = await this.getLocalGroupStorage();
+        let state = await localGroupStorage.retrieveSenderKey(
+            sessionId,
+            epochNumber,
+            this.selfIdentity,
+        );
+        if (!state) {
+            state = {
+                sessionId,
+                epochNumber,
+                identity: this.selfIdentity,
+                chainKey: createChainKey(virgilCrypto),
+                iteration: 0,
+                skippedMessageKeys: {},
+                recipients: null,
+            };
+            // the chain is stored before being shared, so it's shared again if interrupted
+            await localGroupStorage.storeSenderKey(state);
+        }
+        if (!state.recipients) {
+            const recipients = participants.filter(identity => identity !== this.selfIdentity);
+            const transport = await this.getSenderKeyTransport();
+            try {
+                // no messages are encrypted until the chain is shared, so it's the first key
+                await transport.store(
+                    {
+                        sessionId: getSenderKeyPath(sessionId, epochNumber),
+                        epochNumber,
+                        data: state.chainKey,
+                    },
+                    await this.searchCards(recipients),
+                );
+            } catch (error) {
+                // the chain was shared before the sharing was interrupted
+                if (error.name !== 'GroupTicketAlreadyExistsError') throw error;
+            }
+            state = { ...state, recipients };
+            await localGroupStorage.storeSenderKey(state);
+        }
+        const { state: nextState, message } = encryptSenderKeyMessage(virgilCrypto, state, data);
+        // the chain is advanced before the message is sent, so the message key is never reused
+        await localGroupStorage.storeSenderKey(nextState);
+        return message;
+    }
+
+    /**
+     * Decrypts the message encrypted with the sender key chain of the sender in the epoch.
+     * The message key is deleted once the message is decrypted.
+     */
+    async decryptWithSenderKey(
+        sessionId: string,
+        epochNumber: number,
+        senderCard: ICard,
+        message: { iteration: number; ciphertext: Uint8Array },
+    ) {
+        const { virgilCrypto } = this._privateKeyLoader.options;
+        const localGroupStorage = await this.getLocalGroupStorage();
+        const state =
+            (await localGroupStorage.retrieveSenderKey(
+                sessionId,
+                epochNumber,
+                senderCard.identity,
+            )) || (await this.pullSenderKey(sessionId, epochNumber, senderCard));
+        const { state: nextState, data } = decryptSenderKeyMessage(virgilCrypto, state, message);
+        await localGroupStorage.storeSenderKey(nextState);
+        return data;
+    }
+
     async addAccess(sessionId: string, allowedCards: ICard[]) {
-        const cloudTicketStorage = await this.getCloudTicketStorage();
         const localGroupStorage = await this.getLocalGroupStorage();
+        const identities = [...new Set(allowedCards.map(card => card.identity))];
         try {
-            await cloudTicketStorage.addRecipients(sessionId, allowedCards);
-            await localGroupStorage.addParticipants(
-                sessionId,
-                allowedCards.map(card => card.identity),
-            );
+            await localGroupStorage.addParticipants(sessionId, identities);
+            await localGroupStorage.addParticipantCards(sessionId, allowedCards);
+            await this.enqueue({
+                operation: {
+                    type: 'addAccess',
+                    sessionId,
+                    epochNumber: await this.getCurrentEpochNumber(sessionId),
+                    added: identities,
+                    removed: [],
+                },
+                cards: allowedCards,
+            });
         } catch (error) {
             if (error.name === 'GroupTicketNoAccessError') {
                 throw new GroupError(
@@ -155,26 +567,47 @@ export class GroupManager {
         }
     }
 
-    async removeAccess(sessionId: string, forbiddenIdentities: string[]) {
-        const cloudTicketStorage = await this.getCloudTicketStorage();
-        await Promise.all(
-            forbiddenIdentities.map(identity =>
-                cloudTicketStorage.removeRecipient(sessionId, identity),
-            ),
-        );
-    }
-
     async delete(sessionId: string) {
-        const cloudTicketStorage = await this.getCloudTicketStorage();
-        await cloudTicketStorage.delete(sessionId);
         const localGroupStorage = await this.getLocalGroupStorage();
+        const rawGroup = await localGroupStorage.retrieve(sessionId, {
+            ticketCount: MAX_EPOCHS_IN_GROUP_SESSION,
+        });
+        const large = Boolean(rawGroup && rawGroup.info.large);
+        // the shards of the large group are known from the participants of all the epochs
+        const participants = rawGroup
+            ? [...new Set(([] as string[]).concat(...rawGroup.tickets.map(t => t.participants)))]
+            : [];
+        const cloudTicketStorage = await this.getCloudTicketStorage(large);
+        await cloudTicketStorage.delete(sessionId, participants);
+        const cloudRolesStorage = await this.getCloudRolesStorage();
+        await cloudRolesStorage.delete(sessionId, participants, large);
+        const cloudHistoryStorage = await this.getCloudHistoryStorage();
+        await cloudHistoryStorage.delete(sessionId, participants, large);
+        if (rawGroup && rawGroup.info.senderKeys) {
+            const senderKeyTransport = await this.getSenderKeyTransport();
+            for (const { groupSessionMessage } of rawGroup.tickets) {
+                await senderKeyTransport.delete(
+                    getSenderKeyPath(sessionId, groupSessionMessage.epochNumber),
+                );
+            }
+        }
         await localGroupStorage.delete(sessionId);
     }
 
     async reAddAccess(sessionId: string, allowedCard: ICard) {
-        const cloudTicketStorage = await this.getCloudTicketStorage();
         try {
-            await cloudTicketStorage.reAddRecipient(sessionId, allowedCard);
+            const localGroupStorage = await this.getLocalGroupStorage();
+            await localGroupStorage.addParticipantCards(sessionId, [allowedCard]);
+            await this.enqueue({
+                operation: {
+                    type: 'reAddAccess',
+                    sessionId,
+                    epochNumber: await this.getCurrentEpochNumber(sessionId),
+                    added: [allowedCard.identity],
+                    removed: [],
+                },
+                cards: [allowedCard],
+            });
         } catch (error) {
             if (error.name === 'GroupTicketNoAccessError') {
                 throw new GroupError(
@@ -186,6 +619,251 @@ export class GroupManager {
         }
     }
 
+    /**
+     * Re-adds the participants whose Virgil Cards replaced the cards the group tickets were
+     * encrypted for, so they don't lose access to the group after rotating their keys. The group
+     * is hosted by the current user first, so the admins can re-add the participants too.
+     * Returns the identities of the re-added participants.
+     */
+    async reAddRotatedParticipants(sessionId: string, participantCards: ICard[]) {
+        const localGroupStorage = await this.getLocalGroupStorage();
+        const info = await localGroupStorage.retrieveInfo(sessionId);
+        const participantCardIds = (info && info.participantCardIds) || {};
+        const rotatedCards = participantCards.filter(
+            card =>
+                card.identity !== this.selfIdentity &&
+                isRotatedCard(card, participantCardIds[card.identity]),
+        );
+        if (rotatedCards.length > 0) {
+            await this.host(sessionId);
+        }
+        for (const card of rotatedCards) {
+            await this.reAddAccess(sessionId, card);
+        }
+        // start tracking the cards of the participants added before the cards were tracked
+        const untrackedCards = participantCards.filter(card => !participantCardIds[card.identity]);
+        if (untrackedCards.length > 0) {
+            await localGroupStorage.addParticipantCards(sessionId, untrackedCards);
+        }
+        return rotatedCards.map(card => card.identity);
+    }
+
+    /**
+     * Copies the group tickets and roles known locally to the cloud storage of the current user,
+     * so the admins can change the participants of the group created by someone else.
+     */
+    async host(sessionId: string) {
+        const localGroupStorage = await this.getLocalGroupStorage();
+        const rawGroup = await localGroupStorage.retrieve(sessionId, {
+            ticketCount: MAX_EPOCHS_IN_GROUP_SESSION,
+        });
+        if (!rawGroup) {
+            throw new GroupError(
+                GroupErrorCode.LocalGroupNotFound,
+                'Group with given id was not found in local storage',
+            );
+        }
+        const large = Boolean(rawGroup.info.large);
+        const cloudTicketStorage = await this.getCloudTicketStorage(large);
+        const hostedEpochs = await cloudTicketStorage.getStoredEpochNumbers(sessionId);
+        for (const ticket of rawGroup.tickets) {
+            if (hostedEpochs.indexOf(ticket.groupSessionMessage.epochNumber) !== -1) continue;
+            const participantCards = await this.searchCards(
+                ticket.participants.filter(identity => identity !== this.selfIdentity),
+            );
+            await cloudTicketStorage.store(ticket.groupSessionMessage, participantCards);
+        }
+
+        const { signedRoles } = rawGroup.info;
+        if (!signedRoles) return;
+        const keyPair = await this._privateKeyLoader.loadLocalKeyPair();
+        if (!keyPair) {
+            throw new MissingPrivateKeyError();
+        }
+        const cloudRolesStorage = await this.getCloudRolesStorage();
+        const hostedRoles = await cloudRolesStorage.retrieve(
+            sessionId,
+            this.selfIdentity,
+            keyPair.publicKey,
+            large,
+        );
+        if (!hostedRoles || hostedRoles.signature !== signedRoles.signature) {
+            const lastTicket = rawGroup.tickets[rawGroup.tickets.length - 1];
+            const participantCards = await this.searchCards(
+                lastTicket.participants.filter(identity => identity !== this.selfIdentity),
+            );
+            await this.shareRoles(sessionId, signedRoles, participantCards, large);
+        }
+    }
+
+    /**
+     * Signs the new roles of the group with the private key of the current user and shares them
+     * with the participants.
+     */
+    async storeRoles(
+        sessionId: string,
+        roles: Pick<GroupRoles, 'initiator' | 'admins' | 'senderKeys'>,
+        participantCards: ICard[],
+    ) {
+        const privateKey = await this._privateKeyLoader.loadLocalPrivateKey();
+        if (!privateKey) {
+            throw new MissingPrivateKeyError();
+        }
+        const localGroupStorage = await this.getLocalGroupStorage();
+        const info = await localGroupStorage.retrieveInfo(sessionId);
+        const currentRoles: GroupRoles =
+            info && info.signedRoles
+                ? JSON.parse(info.signedRoles.roles)
+                : getDefaultGroupRoles(this.selfIdentity);
+        const newRoles: GroupRoles = {
+            ...currentRoles,
+            ...roles,
+            version: currentRoles.version + 1,
+        };
+        const signedRoles = signGroupRoles(
+            this._privateKeyLoader.options.virgilCrypto,
+            newRoles,
+            this.selfIdentity,
+            privateKey,
+        );
+        await this.shareRoles(
+            sessionId,
+            signedRoles,
+            participantCards,
+            Boolean(info && info.large),
+        );
+        await localGroupStorage.setRoles(sessionId, newRoles, signedRoles);
+    }
+
+    async setMetadata(sessionId: string, metadata: GroupMetadata) {
+        const localGroupStorage = await this.getLocalGroupStorage();
+        await localGroupStorage.setMetadata(sessionId, metadata);
+    }
+
+    /**
+     * Asks the group initiator and admins to remove the current user from the group on the next
+     * {@link Group.update} and deletes the local copy of the group.
+     */
+    async leave(sessionId: string, managerCards: ICard[]) {
+        const large = await this.isLarge(sessionId);
+        const cloudRequestStorage = await this.getCloudRequestStorage();
+        await cloudRequestStorage.store(sessionId, { type: 'leave' }, managerCards, large);
+        const localGroupStorage = await this.getLocalGroupStorage();
+        await localGroupStorage.delete(sessionId);
+    }
+
+    /**
+     * Returns the identities of the participants who asked to be removed from the group with
+     * {@link Group.leave}.
+     */
+    async retrieveLeaveRequests(sessionId: string, participantCards: ICard[]) {
+        const large = await this.isLarge(sessionId);
+        const cloudRequestStorage = await this.getCloudRequestStorage();
+        const requests = await cloudRequestStorage.retrieveAll(
+            sessionId,
+            'leave',
+            participantCards.filter(card => card.identity !== this.selfIdentity),
+            large,
+        );
+        return [...requests.keys()];
+    }
+
+    /**
+     * Collects the history of the group participants from the cloud storages of the given group
+     * hosts. Every entry must be signed by the participant who made the change.
+     */
+    async retrieveHistory(sessionId: string, hosts: string[]) {
+        const large = await this.isLarge(sessionId);
+        const cloudHistoryStorage = await this.getCloudHistoryStorage();
+        const signedEntries = new Map<string, SignedGroupHistoryEntry>();
+        for (const card of await this.searchCards(hosts)) {
+            const history = await cloudHistoryStorage.retrieve(
+                sessionId,
+                card.identity,
+                card.publicKey,
+                large,
+            );
+            for (const signedEntry of history || []) {
+                signedEntries.set(signedEntry.signature, signedEntry);
+            }
+        }
+        const { virgilCrypto } = this._privateKeyLoader.options;
+        const actorPublicKeys = new Map<string, IPublicKey[]>();
+        const entries: GroupHistoryEntry[] = [];
+        for (const signedEntry of signedEntries.values()) {
+            const { actor } = JSON.parse(signedEntry.entry) as { actor: string };
+            let publicKeys = actorPublicKeys.get(actor);
+            if (!publicKeys) {
+                publicKeys = getCardChainPublicKeys(await this._cardManager.searchCards(actor));
+                actorPublicKeys.set(actor, publicKeys);
+            }
+            const entry = verifyGroupHistoryEntry(virgilCrypto, signedEntry, publicKeys);
+            if (!entry || entry.actor !== actor) {
+                throw new GroupError(
+                    GroupErrorCode.DataVerificationFailed,
+                    `Group history entry made by '${actor}' could not be verified`,
+                );
+            }
+            entries.push(entry);
+        }
+        return entries.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }
+
+    /**
+     * Deletes the tickets of the past epochs of the group stored on the device according to
+     * the policy, the retention policy of the groups by default. Returns the pruned epochs.
+     */
+    async prune(sessionId: string, policy = this._retentionPolicy || {}) {
+        const { maxEpochs, maxAge, archive } = policy;
+        if (typeof maxEpochs !== 'undefined' && (!isSafeInteger(maxEpochs) || maxEpochs < 1)) {
+            throw new TypeError('`maxEpochs` must be a positive integer');
+        }
+        if (typeof maxAge !== 'undefined' && (typeof maxAge !== 'number' || maxAge < 0)) {
+            throw new TypeError('`maxAge` must be a non-negative number');
+        }
+        const localGroupStorage = await this.getLocalGroupStorage();
+        const rawGroup = await localGroupStorage.retrieve(sessionId, {
+            ticketCount: Number.MAX_SAFE_INTEGER,
+        });
+        if (!rawGroup) return [];
+        const epochTimestamps = rawGroup.info.epochTimestamps || {};
+        const lastIndex = rawGroup.tickets.length - 1;
+        const prunedTickets = rawGroup.tickets.filter((ticket, index) => {
+            // the latest epoch is required to encrypt the messages
+            if (index === lastIndex) return false;
+            if (typeof maxEpochs !== 'undefined' && lastIndex - index >= maxEpochs) return true;
+            const timestamp = epochTimestamps[ticket.groupSessionMessage.epochNumber];
+            return typeof maxAge !== 'undefined' && !!timestamp && Date.now() - timestamp > maxAge;
+        });
+        if (prunedTickets.length === 0) return [];
+        if (archive) {
+            await archive(sessionId, prunedTickets);
+        }
+        const epochNumbers = prunedTickets.map(ticket => ticket.groupSessionMessage.epochNumber);
+        await localGroupStorage.deleteTickets(sessionId, epochNumbers);
+        return epochNumbers;
+    }
+
+    /**
+     * Returns the changes of the group, or of all the groups if the session id is not given,
+     * that are not made in Virgil Cloud yet.
+     */
+    async retrieveOperations(sessionId?: string) {
+        const localGroupStorage = await this.getLocalGroupStorage();
+        return localGroupStorage.retrieveOperations(sessionId);
+    }
+
+    /**
+     * Retries the queued changes of the group, or of all the groups if the session id is not
+     * given. Rejects with the error of the first change that fails again.
+     */
+    async retryOperations(sessionId?: string) {
+        const operations = await this.retrieveOperations(sessionId);
+        for (const id of new Set(operations.map(operation => operation.sessionId))) {
+            await this.runOperations(id);
+        }
+    }
+
     async cleanup() {
         const localGroupStorage = await this.getLocalGroupStorage();
         await localGroupStorage.reset();
@@ -195,23 +873,411 @@ export class GroupManager {
         return this._selfIdentity;
     }
 
-    private async getLocalGroupStorage() {
+    /**
+     * Looks up the latest group roles in the cloud storages of the initiator and the admins.
+     * The roles are accepted only if they are signed by the initiator known so far, so the new
+     * initiator is trusted only after the previous one transferred the ownership.
+     */
+    private async pullRoles(sessionId: string, initiatorCard: ICard, info?: GroupInfo) {
+        const cloudRolesStorage = await this.getCloudRolesStorage();
+        const localSignedRoles = info && info.signedRoles;
+        let roles = localSignedRoles
+            ? (JSON.parse(localSignedRoles.roles) as GroupRoles)
+            : getDefaultGroupRoles(initiatorCard.identity);
+        let signedRoles = localSignedRoles;
+        let hostCards = [initiatorCard];
+        const checkedHosts = new Set<string>();
+        const candidates: SignedGroupRoles[] = [];
+        for (;;) {
+            const newHostCards = hostCards.filter(card => !checkedHosts.has(card.identity));
+            if (newHostCards.length === 0) break;
+            for (const card of newHostCards) {
+                checkedHosts.add(card.identity);
+                const candidate = await cloudRolesStorage.retrieve(
+                    sessionId,
+                    card.identity,
+                    card.publicKey,
+                    info && info.large,
+                );
+                if (candidate) candidates.push(candidate);
+            }
+            candidates.sort(
+                (a, b) =>
+                    (JSON.parse(a.roles) as GroupRoles).version -
+                    (JSON.parse(b.roles) as GroupRoles).version,
+            );
+            for (const candidate of candidates) {
+                const candidateRoles = await this.verifyRoles(candidate, roles.initiator);
+                if (candidateRoles && candidateRoles.version > roles.version) {
+                    roles = candidateRoles;
+                    signedRoles = candidate;
+                }
+            }
+            hostCards = [
+                initiatorCard,
+                ...(await this.searchCards([roles.initiator, ...roles.admins])),
+            ];
+        }
+        return { roles, signedRoles, hostCards };
+    }
+
+    private async verifyRoles(signedRoles: SignedGroupRoles, initiator: string) {
+        if (signedRoles.signer !== initiator) {
+            return null;
+        }
+        const { virgilCrypto } = this._privateKeyLoader.options;
+        const signerCards = await this._cardManager.searchCards(signedRoles.signer);
+        for (const card of signerCards) {
+            const roles = verifyGroupRoles(virgilCrypto, signedRoles, card.publicKey);
+            if (roles) return roles;
+        }
+        return null;
+    }
+
+    /**
+     * Retrieves the group tickets from the cloud storages of the group hosts. The tickets hosted
+     * by the initiator the group is loaded with must be accessible, the other hosts might not
+     * share any tickets with the current user.
+     */
+    private async pullTickets(
+        sessionId: string,
+        initiatorCard: ICard,
+        hostCards: ICard[],
+        large: boolean,
+        participants: string[] = [],
+    ) {
+        const cloudTicketStorage = await this.getCloudTicketStorage(large);
+        const getParticipants = (card: ICard) =>
+            card.identity === this.selfIdentity ? participants : [];
+        let cloudTickets: GroupTicket[] = [];
+        let initiatorError: Error | undefined;
+        try {
+            cloudTickets = await cloudTicketStorage.retrieve(
+                sessionId,
+                initiatorCard.identity,
+                initiatorCard.publicKey,
+                getParticipants(initiatorCard),
+            );
+        } catch (err) {
+            initiatorError = err;
+        }
+        const checkedHosts = new Set([initiatorCard.identity]);
+        for (const card of hostCards) {
+            if (checkedHosts.has(card.identity)) continue;
+            checkedHosts.add(card.identity);
+            try {
+                const hostTickets = await cloudTicketStorage.retrieve(
+                    sessionId,
+                    card.identity,
+                    card.publicKey,
+                    getParticipants(card),
+                );
+                cloudTickets = cloudTickets.concat(hostTickets);
+            } catch (err) {
+                if (!isGroupTicketError(err)) throw err;
+            }
+        }
+        if (initiatorError && (cloudTickets.length === 0 || !isGroupTicketError(initiatorError))) {
+            throw initiatorError;
+        }
+        return cloudTickets;
+    }
+
+    /**
+     * Records the changes of the group in the local queue at once and makes the queued changes
+     * of the group in order. The cards the change is made for are searched again when the change
+     * is retried.
+     */
+    private async enqueue(...changes: QueuedChange[]) {
+        const localGroupStorage = await this.getLocalGroupStorage();
+        const cardsByOperation: { [id: string]: ICard[] | undefined } = {};
+        const operations = changes.map(({ operation, cards }) => {
+            const queuedOperation: GroupOperation = {
+                ...operation,
+                id: createOperationId(),
+                createdAt: Date.now(),
+                attempts: 0,
+            };
+            cardsByOperation[queuedOperation.id] = cards;
+            return queuedOperation;
+        });
+        await localGroupStorage.storeOperations(operations);
+        for (const sessionId of new Set(operations.map(operation => operation.sessionId))) {
+            await this.runOperations(sessionId, cardsByOperation);
+        }
+    }
+
+    private async runOperations(
+        sessionId: string,
+        cardsByOperation: { [id: string]: ICard[] | undefined } = {},
+    ) {
+        const localGroupStorage = await this.getLocalGroupStorage();
+        const operations = await localGroupStorage.retrieveOperations(sessionId);
+        for (const operation of operations) {
+            try {
+                await this.runOperation(operation, cardsByOperation[operation.id]);
+            } catch (error) {
+                if (isPermanentOperationError(error)) {
+                    // the change can't be made anymore, e.g. the current user lost access
+                    // to the group
+                    await localGroupStorage.deleteOperation(operation);
+                } else {
+                    await localGroupStorage.storeOperations([
+                        {
+                            ...operation,
+                            attempts: operation.attempts + 1,
+                            lastError: error.message,
+                        },
+                    ]);
+                }
+                throw error;
+            }
+            await localGroupStorage.deleteOperation(operation);
+        }
+    }
+
+    /**
+     * Makes the change of the group in Virgil Cloud. Every change can be made again if
+     * the previous attempt was interrupted.
+     */
+    private async runOperation(operation: GroupOperation, cards?: ICard[]) {
+        const { sessionId } = operation;
+        const localGroupStorage = await this.getLocalGroupStorage();
+        const info = await localGroupStorage.retrieveInfo(sessionId);
+        if (!info) return;
+        const large = Boolean(info.large);
+        const cloudTicketStorage = await this.getCloudTicketStorage(large);
+        switch (operation.type) {
+            case 'storeTicket': {
+                const rawGroup = await localGroupStorage.retrieve(sessionId, {
+                    epochNumber: operation.epochNumber,
+                });
+                if (!rawGroup) return;
+                const [ticket] = rawGroup.tickets;
+                const participantCards =
+                    cards ||
+                    (await this.searchCards(
+                        ticket.participants.filter(identity => identity !== this.selfIdentity),
+                    ));
+                await cloudTicketStorage.store(ticket.groupSessionMessage, participantCards);
+                await this.appendHistory(sessionId, operation, participantCards, large);
+                break;
+            }
+            case 'addAccess': {
+                const allowedCards = cards || (await this.searchCards(operation.added));
+                await cloudTicketStorage.addRecipients(sessionId, allowedCards);
+                if (info.signedRoles) {
+                    await this.shareRoles(sessionId, info.signedRoles, allowedCards, large);
+                }
+                const rawGroup = await localGroupStorage.retrieve(sessionId, { ticketCount: 1 });
+                const participants = rawGroup ? rawGroup.tickets[0].participants : [];
+                const participantCards = await this.searchCards(
+                    participants.filter(identity => identity !== this.selfIdentity),
+                );
+                await this.appendHistory(sessionId, operation, participantCards, large);
+                break;
+            }
+            case 'removeAccess': {
+                // every identity is removed on its own, so the failure to remove one of them
+                // doesn't affect the others, and only the identities that still have access
+                // are left in the operation to be removed on the next attempt
+                let lastError: Error | undefined;
+                for (const identity of [...operation.removed]) {
+                    try {
+                        await cloudTicketStorage.removeRecipient(sessionId, identity);
+                    } catch (error) {
+                        // the tickets aren't shared with the identity anymore
+                        if (!isGroupTicketError(error)) {
+                            lastError = error;
+                            continue;
+                        }
+                    }
+                    operation.removed = operation.removed.filter(removed => removed !== identity);
+                    await localGroupStorage.storeOperations([operation]);
+                }
+                if (lastError) throw lastError;
+                break;
+            }
+            case 'reAddAccess': {
+                const allowedCards = cards || (await this.searchCards(operation.added));
+                for (const card of allowedCards) {
+                    await cloudTicketStorage.reAddRecipient(sessionId, card);
+                }
+                break;
+            }
+        }
+    }
+
+    private async getCurrentEpochNumber(sessionId: string) {
+        const localGroupStorage = await this.getLocalGroupStorage();
+        const rawGroup = await localGroupStorage.retrieve(sessionId, { ticketCount: 1 });
+        return rawGroup ? rawGroup.tickets[0].groupSessionMessage.epochNumber : 0;
+    }
+
+    /**
+     * Signs the change of the group participants and appends it to the history hosted by
+     * the current user.
+     */
+    private async appendHistory(
+        sessionId: string,
+        change: Pick<GroupHistoryEntry, 'epochNumber' | 'added' | 'removed'>,
+        participantCards: ICard[],
+        large: boolean,
+    ) {
         const keyPair = await this._privateKeyLoader.loadLocalKeyPair();
-        if (keyPair) {
-            this._localGroupStorage.setEncryptionKeyPair(keyPair);
+        if (!keyPair) {
+            throw new MissingPrivateKeyError();
         }
-        return this._localGroupStorage;
+        const cloudHistoryStorage = await this.getCloudHistoryStorage();
+        const history = await cloudHistoryStorage.retrieve(
+            sessionId,
+            this.selfIdentity,
+            keyPair.publicKey,
+            large,
+        );
+        const isRecorded = (history || []).some(({ entry }) => {
+            const { epochNumber, added, removed } = JSON.parse(entry) as GroupHistoryEntry;
+            return (
+                epochNumber === change.epochNumber &&
+                added.join() === change.added.join() &&
+                removed.join() === change.removed.join()
+            );
+        });
+        // the change was recorded by the interrupted attempt
+        if (isRecorded) return;
+        const signedEntry = signGroupHistoryEntry(
+            this._privateKeyLoader.options.virgilCrypto,
+            {
+                epochNumber: change.epochNumber,
+                added: change.added,
+                removed: change.removed,
+                actor: this.selfIdentity,
+                timestamp: new Date(),
+            },
+            keyPair.privateKey,
+        );
+        await cloudHistoryStorage.store(
+            sessionId,
+            (history || []).concat(signedEntry),
+            participantCards,
+            large,
+        );
     }
 
-    private async getCloudTicketStorage() {
+    private async shareRoles(
+        sessionId: string,
+        signedRoles: SignedGroupRoles,
+        cards: ICard[],
+        large: boolean,
+    ) {
+        const cloudRolesStorage = await this.getCloudRolesStorage();
+        await cloudRolesStorage.store(sessionId, signedRoles, cards, large);
+    }
+
+    private async isLarge(sessionId: string) {
+        const localGroupStorage = await this.getLocalGroupStorage();
+        const info = await localGroupStorage.retrieveInfo(sessionId);
+        return Boolean(info && info.large);
+    }
+
+    private async deleteLeaveRequest(sessionId: string, large: boolean) {
         const keyPair = await this._privateKeyLoader.loadLocalKeyPair();
         if (!keyPair) {
             throw new MissingPrivateKeyError();
         }
+        const cloudRequestStorage = await this.getCloudRequestStorage();
+        const request = await cloudRequestStorage.retrieve(
+            sessionId,
+            'leave',
+            this.selfIdentity,
+            keyPair.publicKey,
+            large,
+        );
+        if (request) {
+            await cloudRequestStorage.delete(sessionId, large);
+        }
+    }
 
+    /**
+     * Retrieves the first key of the sender key chain of the participant in the epoch.
+     */
+    private async pullSenderKey(
+        sessionId: string,
+        epochNumber: number,
+        senderCard: ICard,
+    ): Promise<SenderKeyState> {
+        const transport = await this.getSenderKeyTransport();
+        let tickets: GroupTicket[] = [];
+        try {
+            tickets = await transport.retrieve(
+                getSenderKeyPath(sessionId, epochNumber),
+                senderCard.identity,
+                senderCard.publicKey,
+            );
+        } catch (error) {
+            if (!isGroupTicketError(error)) throw error;
+        }
+        const ticket = tickets.find(
+            ({ groupSessionMessageInfo }) => groupSessionMessageInfo.epochNumber === epochNumber,
+        );
+        if (!ticket) {
+            throw new GroupError(
+                GroupErrorCode.MessageKeyNotFound,
+                'The sender key of the message is not shared with the current user',
+            );
+        }
+        return {
+            sessionId,
+            epochNumber,
+            identity: senderCard.identity,
+            chainKey: ticket.groupSessionMessageInfo.data,
+            iteration: 0,
+            skippedMessageKeys: {},
+            recipients: null,
+        };
+    }
+
+    private async retrieveSummary(sessionId: string) {
+        const localGroupStorage = await this.getLocalGroupStorage();
+        const rawGroup = await localGroupStorage.retrieve(sessionId, { ticketCount: 1 });
+        return rawGroup ? toGroupSummary(rawGroup) : null;
+    }
+
+    /**
+     * Notifies the listeners about the changes of the group since the previous state.
+     */
+    private async emitChanges(previous: GroupSummary) {
+        const events = getGroupEvents(previous, await this.retrieveSummary(previous.sessionId));
+        for (const event of events) {
+            const listeners = this._listeners.get(`${event.sessionId}!${event.type}`);
+            if (!listeners) continue;
+            // the listeners might be removed while being called
+            for (const listener of [...listeners]) {
+                (listener as GroupEventListener)(event);
+            }
+        }
+    }
+
+    private async searchCards(identities: string[]) {
+        const cards: ICard[] = [];
+        for (const chunk of chunkArray([...new Set(identities)], MAX_IDENTITIES_TO_SEARCH)) {
+            cards.push(...(await this._cardManager.searchCards(chunk)));
+        }
+        return cards;
+    }
+
+    private async getLocalGroupStorage() {
+        const keyPair = await this._privateKeyLoader.loadLocalKeyPair();
+        if (keyPair) {
+            this._localGroupStorage.setEncryptionKeyPair(keyPair);
+        }
+        return this._localGroupStorage;
+    }
+
+    private getKeyknoxManager() {
         const { virgilCrypto, accessTokenProvider, apiUrl } = this._privateKeyLoader.options;
 
-        const keyknoxManager = new KeyknoxManager(
+        return new KeyknoxManager(
             new KeyknoxCrypto(virgilCrypto),
             new KeyknoxClient(
                 accessTokenProvider,
@@ -224,12 +1290,87 @@ export class GroupManager {
                 ),
             ),
         );
+    }
+
+    private createTransport(keyPair: IKeyPair) {
+        if (this._transportFactory) {
+            return this._transportFactory({
+                identity: this.selfIdentity,
+                virgilCrypto: this._privateKeyLoader.options.virgilCrypto,
+                ...keyPair,
+            });
+        }
 
-        return new CloudGroupTicketStorage({
-            root: CLOUD_GROUP_SESSIONS_ROOT,
+        return new KeyknoxGroupTicketTransport({
             identity: this.selfIdentity,
-            keyknoxManager,
+            keyknoxManager: this.getKeyknoxManager(),
             ...keyPair,
         });
     }
+
+    private async getSenderKeyTransport() {
+        const keyPair = await this._privateKeyLoader.loadLocalKeyPair();
+        if (!keyPair) {
+            throw new MissingPrivateKeyError();
+        }
+
+        return this.createTransport(keyPair);
+    }
+
+    private async getCloudTicketStorage(large = false) {
+        const keyPair = await this._privateKeyLoader.loadLocalKeyPair();
+        if (!keyPair) {
+            throw new MissingPrivateKeyError();
+        }
+
+        return new ShardedCloudGroupTicketStorage({
+            identity: this.selfIdentity,
+            transport: this.createTransport(keyPair),
+            virgilCrypto: this._privateKeyLoader.options.virgilCrypto,
+            large,
+        });
+    }
+
+    private async getCloudRolesStorage() {
+        const keyPair = await this._privateKeyLoader.loadLocalKeyPair();
+        if (!keyPair) {
+            throw new MissingPrivateKeyError();
+        }
+
+        return new CloudGroupDocumentStorage<SignedGroupRoles>({
+            root: CLOUD_GROUP_ROLES_ROOT,
+            key: 'roles',
+            identity: this.selfIdentity,
+            transport: this.createTransport(keyPair),
+            virgilCrypto: this._privateKeyLoader.options.virgilCrypto,
+        });
+    }
+
+    private async getCloudHistoryStorage() {
+        const keyPair = await this._privateKeyLoader.loadLocalKeyPair();
+        if (!keyPair) {
+            throw new MissingPrivateKeyError();
+        }
+
+        return new CloudGroupDocumentStorage<SignedGroupHistoryEntry[]>({
+            root: CLOUD_GROUP_HISTORY_ROOT,
+            key: 'history',
+            identity: this.selfIdentity,
+            transport: this.createTransport(keyPair),
+            virgilCrypto: this._privateKeyLoader.options.virgilCrypto,
+        });
+    }
+
+    private async getCloudRequestStorage() {
+        const keyPair = await this._privateKeyLoader.loadLocalKeyPair();
+        if (!keyPair) {
+            throw new MissingPrivateKeyError();
+        }
+
+        return new CloudGroupRequestStorage({
+            identity: this.selfIdentity,
+            transport: this.createTransport(keyPair),
+            virgilCrypto: this._privateKeyLoader.options.virgilCrypto,
+        });
+    }
 }
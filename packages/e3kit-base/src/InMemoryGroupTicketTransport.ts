@@ -0,0 +1,142 @@
+import {
+    GroupTicketAlreadyExistsError,
+    GroupTicketDoesntExistError,
+} from '@virgilsecurity/keyknox';
+
+import { CLOUD_GROUP_SESSIONS_ROOT } from './constants';
+import {
+    GroupTicket,
+    GroupTicketTransport,
+    GroupTicketTransportFactory,
+    ICard,
+    IGroupSessionMessageInfo,
+} from './types';
+
+interface Entry {
+    value: string;
+    recipients: Set<string>;
+}
+
+/**
+ * Entries of the transport by the owner, root and path.
+ */
+type Entries = Map<string, Map<string, Entry>>;
+
+/**
+ * Stores the group tickets and documents in memory. Intended to be used in tests as a stand-in
+ * for the cloud storage, so the groups work without network access. The entries are not
+ * encrypted and are lost when the process exits.
+ *
+ * Participants of the group must use the transports created by the same factory, see
+ * {@link InMemoryGroupTicketTransport.createFactory}.
+ */
+export class InMemoryGroupTicketTransport implements GroupTicketTransport {
+    private _identity: string;
+    private _entries: Entries;
+
+    constructor(options: { identity: string; entries?: Entries }) {
+        this._identity = options.identity;
+        this._entries = options.entries || new Map();
+    }
+
+    /**
+     * Creates the factory of the transports sharing the same entries. Pass it as
+     * {@link EThreeInitializeOptions.groupTicketTransport} to every {@link EThree} instance.
+     */
+    static createFactory(): GroupTicketTransportFactory {
+        const entries: Entries = new Map();
+        return ({ identity }) => new InMemoryGroupTicketTransport({ identity, entries });
+    }
+
+    async store(groupSessionMessageInfo: IGroupSessionMessageInfo, cards: ICard[]) {
+        const { sessionId, epochNumber, data } = groupSessionMessageInfo;
+        const entries = this.getEntries(CLOUD_GROUP_SESSIONS_ROOT, sessionId);
+        if (entries.has(String(epochNumber))) {
+            throw new GroupTicketAlreadyExistsError();
+        }
+        entries.set(String(epochNumber), {
+            value: data,
+            recipients: new Set([this._identity, ...cards.map(card => card.identity)]),
+        });
+    }
+
+    async retrieve(sessionId: string, identity = this._identity) {
+        const tickets: GroupTicket[] = [];
+        const entries = this.getEntries(CLOUD_GROUP_SESSIONS_ROOT, sessionId, identity);
+        for (const [key, { value, recipients }] of entries) {
+            if (!recipients.has(this._identity)) continue;
+            tickets.push({
+                groupSessionMessageInfo: { sessionId, epochNumber: Number(key), data: value },
+                identities: [...recipients],
+            });
+        }
+        if (tickets.length === 0) {
+            throw new GroupTicketDoesntExistError();
+        }
+        return tickets;
+    }
+
+    async addRecipients(sessionId: string, cards: ICard[]) {
+        for (const entry of this.getEntries(CLOUD_GROUP_SESSIONS_ROOT, sessionId).values()) {
+            cards.forEach(card => entry.recipients.add(card.identity));
+        }
+    }
+
+    async reAddRecipient(sessionId: string, card: ICard) {
+        await this.addRecipients(sessionId, [card]);
+    }
+
+    async removeRecipient(sessionId: string, identity: string, epochNumber?: number) {
+        for (const [key, entry] of this.getEntries(CLOUD_GROUP_SESSIONS_ROOT, sessionId)) {
+            if (epochNumber === undefined || key === String(epochNumber)) {
+                entry.recipients.delete(identity);
+            }
+        }
+    }
+
+    async delete(sessionId: string) {
+        await this.deleteDocuments(CLOUD_GROUP_SESSIONS_ROOT, sessionId);
+    }
+
+    async storeDocument(root: string, path: string, key: string, value: string, cards: ICard[]) {
+        this.getEntries(root, path).set(key, {
+            value,
+            recipients: new Set([this._identity, ...cards.map(card => card.identity)]),
+        });
+    }
+
+    async retrieveDocument(root: string, path: string, key: string, identity: string) {
+        const entry = this.getEntries(root, path, identity).get(key);
+        if (!entry || !entry.recipients.has(this._identity)) {
+            return null;
+        }
+        return entry.value;
+    }
+
+    async retrieveDocuments(root: string, path: string, key: string, cards: ICard[]) {
+        const documents = new Map<string, string>();
+        for (const { identity } of cards) {
+            const value = await this.retrieveDocument(root, path, key, identity);
+            if (value !== null) documents.set(identity, value);
+        }
+        return documents;
+    }
+
+    async deleteDocuments(root: string, path: string) {
+        this._entries.delete(this.getEntriesKey(root, path, this._identity));
+    }
+
+    private getEntries(root: string, path: string, identity = this._identity) {
+        const entriesKey = this.getEntriesKey(root, path, identity);
+        let entries = this._entries.get(entriesKey);
+        if (!entries) {
+            entries = new Map();
+            this._entries.set(entriesKey, entries);
+        }
+        return entries;
+    }
+
+    private getEntriesKey(root: string, path: string, identity: string) {
+        return JSON.stringify([identity, root, path]);
+    }
+}
@@ -0,0 +1,51 @@
+import { WrongKeyknoxPasswordError, PrivateKeyNoBackupError } from './errors';
+import { KeyBackupProvider } from './types';
+
+interface KeyBackup {
+    privateKeyData: string;
+    password: string;
+}
+
+/**
+ * Stores the private key backups in memory. Intended to be used in tests as a stand-in for
+ * the remote storage, the backups are not encrypted and are lost when the process exits.
+ */
+export class InMemoryKeyBackupProvider implements KeyBackupProvider {
+    private backups = new Map<string, KeyBackup>();
+
+    async store(identity: string, privateKeyData: string, password: string) {
+        if (this.backups.has(identity)) {
+            throw new Error(`Backup copy of private key for ${identity} already exists`);
+        }
+        this.backups.set(identity, { privateKeyData, password });
+    }
+
+    async retrieve(identity: string, password: string) {
+        return this.getBackup(identity, password).privateKeyData;
+    }
+
+    async delete(identity: string, password: string) {
+        this.getBackup(identity, password);
+        this.backups.delete(identity);
+    }
+
+    async reset(identity: string) {
+        this.backups.delete(identity);
+    }
+
+    async changePassword(identity: string, oldPassword: string, newPassword: string) {
+        const backup = this.getBackup(identity, oldPassword);
+        this.backups.set(identity, { ...backup, password: newPassword });
+    }
+
+    private getBackup(identity: string, password: string) {
+        const backup = this.backups.get(identity);
+        if (!backup) {
+            throw new PrivateKeyNoBackupError();
+        }
+        if (backup.password !== password) {
+            throw new WrongKeyknoxPasswordError();
+        }
+        return backup;
+    }
+}
@@ -0,0 +1,83 @@
+import {
+    RatchetInvitation,
+    RatchetPreKey,
+    RatchetPreKeyServer,
+    RatchetPreKeyServerFactory,
+} from './types';
+
+interface Entries {
+    /**
+     * Pre-keys by the identity, in the order they were published.
+     */
+    preKeys: Map<string, RatchetPreKey[]>;
+    /**
+     * Invitations by the sender and the recipient.
+     */
+    invitations: Map<string, RatchetInvitation>;
+}
+
+/**
+ * Stores the ratchet pre-keys and invitations in memory. Intended to be used in tests as
+ * a stand-in for the pre-key server, so the ratchet channels work without network access.
+ * The entries are lost when the process exits.
+ *
+ * The users must use the servers created by the same factory, see
+ * {@link InMemoryRatchetPreKeyServer.createFactory}.
+ */
+export class InMemoryRatchetPreKeyServer implements RatchetPreKeyServer {
+    private _identity: string;
+    private _entries: Entries;
+
+    constructor(options: { identity: string; entries?: Entries }) {
+        this._identity = options.identity;
+        this._entries = options.entries || { preKeys: new Map(), invitations: new Map() };
+    }
+
+    /**
+     * Creates the factory of the servers sharing the same entries. Pass it as
+     * {@link EThreeInitializeOptions.ratchetPreKeyServer} to every {@link EThree} instance.
+     */
+    static createFactory(): RatchetPreKeyServerFactory {
+        const entries: Entries = { preKeys: new Map(), invitations: new Map() };
+        return ({ identity }) => new InMemoryRatchetPreKeyServer({ identity, entries });
+    }
+
+    async publishPreKeys(preKeys: RatchetPreKey[]) {
+        this._entries.preKeys.set(this._identity, this.getPreKeys(this._identity).concat(preKeys));
+    }
+
+    async retrievePreKeys() {
+        return this.getPreKeys(this._identity);
+    }
+
+    async deletePreKeys() {
+        this._entries.preKeys.delete(this._identity);
+    }
+
+    async takePreKey(identity: string) {
+        const [preKey, ...preKeys] = this.getPreKeys(identity);
+        if (!preKey) return null;
+        this._entries.preKeys.set(identity, preKeys);
+        return preKey;
+    }
+
+    async storeInvitation(recipient: string, invitation: RatchetInvitation) {
+        this._entries.invitations.set(this.getInvitationKey(this._identity, recipient), invitation);
+    }
+
+    async retrieveInvitation(sender: string) {
+        return this._entries.invitations.get(this.getInvitationKey(sender, this._identity)) || null;
+    }
+
+    async deleteInvitation(sender: string) {
+        this._entries.invitations.delete(this.getInvitationKey(sender, this._identity));
+    }
+
+    private getPreKeys(identity: string) {
+        return this._entries.preKeys.get(identity) || [];
+    }
+
+    private getInvitationKey(sender: string, recipient: string) {
+        return JSON.stringify([sender, recipient]);
+    }
+}
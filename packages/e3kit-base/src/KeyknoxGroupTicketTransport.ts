@@ -0,0 +1,155 @@
+import { CloudGroupTicketStorage, KeyknoxManager } from '@virgilsecurity/keyknox';
+
+import { CLOUD_GROUP_SESSIONS_ROOT } from './constants';
+import {
+    GroupTicketTransport,
+    ICard,
+    IGroupSessionMessageInfo,
+    IPrivateKey,
+    IPublicKey,
+} from './types';
+
+/**
+ * @hidden
+ *
+ * Stores the group tickets and documents in Virgil Keyknox Storage. Every entry is encrypted for
+ * its recipients and signed by the current user. Used by default.
+ */
+export class KeyknoxGroupTicketTransport implements GroupTicketTransport {
+    private _cloudTicketStorage: CloudGroupTicketStorage;
+    private _keyknoxManager: KeyknoxManager;
+    private _identity: string;
+    private _privateKey: IPrivateKey;
+    private _publicKey: IPublicKey;
+
+    constructor(options: {
+        keyknoxManager: KeyknoxManager;
+        identity: string;
+        privateKey: IPrivateKey;
+        publicKey: IPublicKey;
+    }) {
+        this._cloudTicketStorage = new CloudGroupTicketStorage({
+            root: CLOUD_GROUP_SESSIONS_ROOT,
+            keyknoxManager: options.keyknoxManager,
+            identity: options.identity,
+            privateKey: options.privateKey,
+            publicKey: options.publicKey,
+        });
+        this._keyknoxManager = options.keyknoxManager;
+        this._identity = options.identity;
+        this._privateKey = options.privateKey;
+        this._publicKey = options.publicKey;
+    }
+
+    async store(groupSessionMessageInfo: IGroupSessionMessageInfo, cards: ICard[]) {
+        await this._cloudTicketStorage.store(groupSessionMessageInfo, cards);
+    }
+
+    async retrieve(sessionId: string, identity?: string, publicKey?: IPublicKey) {
+        if (identity && publicKey) {
+            return this._cloudTicketStorage.retrieve(sessionId, identity, publicKey);
+        }
+        return this._cloudTicketStorage.retrieve(sessionId);
+    }
+
+    async addRecipients(sessionId: string, cards: ICard[]) {
+        await this._cloudTicketStorage.addRecipients(sessionId, cards);
+    }
+
+    async reAddRecipient(sessionId: string, card: ICard) {
+        await this._cloudTicketStorage.reAddRecipient(sessionId, card);
+    }
+
+    async removeRecipient(sessionId: string, identity: string, epochNumber?: number) {
+        await this._cloudTicketStorage.removeRecipient(sessionId, identity, epochNumber);
+    }
+
+    async delete(sessionId: string) {
+        await this._cloudTicketStorage.delete(sessionId);
+    }
+
+    async storeDocument(root: string, path: string, key: string, value: string, cards: ICard[]) {
+        const keys = await this._keyknoxManager.v2GetKeys({
+            root,
+            path,
+            identity: this._identity,
+        });
+        let keyknoxHash: string | undefined;
+        if (keys.indexOf(key) !== -1) {
+            const stored = await this._keyknoxManager.v2Pull({
+                root,
+                path,
+                key,
+                identity: this._identity,
+                privateKey: this._privateKey,
+                publicKeys: this._publicKey,
+            });
+            keyknoxHash = stored.keyknoxHash;
+        }
+        await this._keyknoxManager.v2Push({
+            root,
+            path,
+            key,
+            identities: [this._identity, ...cards.map(card => card.identity)],
+            publicKeys: [this._publicKey, ...cards.map(card => card.publicKey)],
+            privateKey: this._privateKey,
+            value: Buffer.from(value, 'utf8').toString('base64'),
+            keyknoxHash,
+        });
+    }
+
+    async retrieveDocument(
+        root: string,
+        path: string,
+        key: string,
+        identity: string,
+        publicKey: IPublicKey,
+    ) {
+        const keys = await this._keyknoxManager.v2GetKeys({ root, path, identity });
+        if (keys.indexOf(key) === -1) {
+            return null;
+        }
+        try {
+            const { value } = await this._keyknoxManager.v2Pull({
+                root,
+                path,
+                key,
+                identity,
+                privateKey: this._privateKey,
+                publicKeys: publicKey,
+            });
+            return Buffer.from(value, 'base64').toString('utf8');
+        } catch (error) {
+            // the document is not shared with the current user
+            if (
+                error.name === 'FoundationError' &&
+                /recipient defined with id is not found/gi.test(error.message)
+            ) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Virgil Keyknox Storage lists the entries of one owner at a time, so the documents of every
+     * owner are retrieved separately.
+     */
+    async retrieveDocuments(root: string, path: string, key: string, cards: ICard[]) {
+        const values = await Promise.all(
+            cards.map(card =>
+                this.retrieveDocument(root, path, key, card.identity, card.publicKey),
+            ),
+        );
+        const documents = new Map<string, string>();
+        cards.forEach((card, i) => {
+            const value = values[i];
+            if (value !== null) documents.set(card.identity, value);
+        });
+        return documents;
+    }
+
+    async deleteDocuments(root: string, path: string) {
+        await this._keyknoxManager.v2Reset({ root, path });
+    }
+}
@@ -0,0 +1,106 @@
+import {
+    CloudKeyStorage,
+    KeyknoxManager,
+    KeyknoxCrypto,
+    CloudEntryDoesntExistError,
+    KeyknoxClient,
+} from '@virgilsecurity/keyknox';
+import { VirgilAgent } from 'virgil-sdk';
+
+import { generateBrainPair } from './brainkey';
+import { WrongKeyknoxPasswordError, PrivateKeyNoBackupError } from './errors';
+import { ICrypto, IBrainKeyCrypto, IAccessTokenProvider, KeyBackupProvider } from './types';
+
+export interface KeyknoxKeyBackupProviderOptions {
+    virgilCrypto: ICrypto;
+    brainKeyCrypto: IBrainKeyCrypto;
+    accessTokenProvider: IAccessTokenProvider;
+    apiUrl?: string;
+}
+
+/**
+ * Stores the private key backups in Virgil Keyknox Storage. The backups are encrypted with
+ * the key pair derived from the password with Virgil Pythia service.
+ */
+export class KeyknoxKeyBackupProvider implements KeyBackupProvider {
+    private keyknoxClient = new KeyknoxClient(
+        this.options.accessTokenProvider,
+        this.options.apiUrl,
+        undefined,
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        new VirgilAgent(
+            process.env.__VIRGIL_PRODUCT_NAME__!,
+            process.env.__VIRGIL_PRODUCT_VERSION__!,
+        ),
+    );
+    private keyknoxCrypto = new KeyknoxCrypto(this.options.virgilCrypto);
+
+    constructor(private options: KeyknoxKeyBackupProviderOptions) {}
+
+    async store(identity: string, privateKeyData: string, password: string) {
+        const storage = await this.getStorage(password);
+        await storage.storeEntry(identity, privateKeyData);
+    }
+
+    async retrieve(identity: string, password: string) {
+        const storage = await this.getStorage(password);
+        try {
+            return storage.retrieveEntry(identity).data;
+        } catch (e) {
+            return this.handleNoBackupError(e);
+        }
+    }
+
+    async delete(identity: string, password: string) {
+        const storage = await this.getStorage(password);
+        await storage.deleteEntry(identity).catch(this.handleNoBackupError);
+    }
+
+    async reset() {
+        await this.keyknoxClient.v1Reset();
+    }
+
+    async changePassword(_identity: string, oldPassword: string, newPassword: string) {
+        const storage = await this.getStorage(oldPassword);
+        const keyPair = await this.generateBrainPair(newPassword);
+        await storage.updateRecipients({
+            newPrivateKey: keyPair.privateKey,
+            newPublicKeys: [keyPair.publicKey],
+        });
+    }
+
+    private handleNoBackupError = (e: Error): never => {
+        if (e instanceof CloudEntryDoesntExistError) {
+            throw new PrivateKeyNoBackupError();
+        }
+        throw e;
+    };
+
+    private async generateBrainPair(pwd: string) {
+        return generateBrainPair(pwd, {
+            virgilCrypto: this.options.virgilCrypto,
+            pythiaCrypto: this.options.brainKeyCrypto,
+            accessTokenProvider: this.options.accessTokenProvider,
+            apiUrl: this.options.apiUrl,
+        });
+    }
+
+    private async getStorage(pwd: string) {
+        const keyPair = await this.generateBrainPair(pwd);
+
+        const storage = new CloudKeyStorage(
+            new KeyknoxManager(this.keyknoxCrypto, this.keyknoxClient),
+            keyPair.privateKey,
+            keyPair.publicKey,
+        );
+        try {
+            await storage.retrieveCloudEntries();
+        } catch (e) {
+            if (e.name === 'FoundationError' || e.name === 'RNVirgilCryptoError') {
+                throw new WrongKeyknoxPasswordError();
+            }
+            throw e;
+        }
+        return storage;
+    }
+}
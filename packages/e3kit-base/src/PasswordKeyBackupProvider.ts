@@ -0,0 +1,147 @@
+import { PrivateKeyNoBackupError } from './errors';
+import {
+    DEFAULT_SCRYPT_PARAMS,
+    encryptWithPassword,
+    decryptWithPassword,
+} from './passwordEncryption';
+import { ScryptParams } from './scrypt';
+import { ICrypto, IKeyEntryStorage, KeyBackupProvider, PasswordKeyDerivation } from './types';
+
+const BACKUP_VERSION = 1;
+
+const getBackupName = (identity: string) => `${identity}.backup`;
+
+/**
+ * Private key backup encrypted with the key derived from the password. Serialized to JSON, so
+ * it can be moved between storages and restored on any platform.
+ */
+export interface PasswordKeyBackup {
+    version: number;
+    kdf: PasswordKeyDerivation;
+    encryptedPrivateKey: string;
+}
+
+export interface PasswordKeyBackupProviderOptions {
+    virgilCrypto: ICrypto;
+    /**
+     * Storage of the backups. Every backup is stored as a JSON string under the `<identity>.backup`
+     * name, so it doesn't overwrite the private key of the identity if the storage is shared.
+     */
+    keyEntryStorage: IKeyEntryStorage;
+    /**
+     * Parameters of scrypt key derivation function used for new backups. Backups store the
+     * parameters they were created with. Default is `{ N: 2 ** 15, r: 8, p: 1 }`.
+     */
+    scryptParams?: ScryptParams;
+}
+
+/**
+ * Stores the private key backups encrypted with the key derived from the password locally with
+ * scrypt, without access to Virgil Pythia service. The backups can be exported as portable
+ * blobs with {@link PasswordKeyBackupProvider.exportBackup} and imported on another device with
+ * {@link PasswordKeyBackupProvider.importBackup}.
+ */
+export class PasswordKeyBackupProvider implements KeyBackupProvider {
+    private virgilCrypto: ICrypto;
+    private storage: IKeyEntryStorage;
+    private scryptParams: ScryptParams;
+
+    constructor(options: PasswordKeyBackupProviderOptions) {
+        this.virgilCrypto = options.virgilCrypto;
+        this.storage = options.keyEntryStorage;
+        this.scryptParams = options.scryptParams || DEFAULT_SCRYPT_PARAMS;
+    }
+
+    async store(identity: string, privateKeyData: string, password: string) {
+        const backup = await this.encryptBackup(privateKeyData, password);
+        await this.storage.save({ name: getBackupName(identity), value: JSON.stringify(backup) });
+    }
+
+    async retrieve(identity: string, password: string) {
+        const backup = await this.loadBackup(identity);
+        return this.decryptBackup(backup, password);
+    }
+
+    async delete(identity: string, password: string) {
+        const backup = await this.loadBackup(identity);
+        await this.decryptBackup(backup, password);
+        await this.storage.remove(getBackupName(identity));
+    }
+
+    async reset(identity: string) {
+        await this.storage.remove(getBackupName(identity));
+    }
+
+    async changePassword(identity: string, oldPassword: string, newPassword: string) {
+        const backup = await this.loadBackup(identity);
+        const privateKeyData = await this.decryptBackup(backup, oldPassword);
+        const newBackup = await this.encryptBackup(privateKeyData, newPassword);
+        // the backup is replaced in place, so the private key isn't lost if the process is
+        // interrupted
+        await this.storage.update({
+            name: getBackupName(identity),
+            value: JSON.stringify(newBackup),
+        });
+    }
+
+    /**
+     * Returns the backup of the private key as a JSON string.
+     */
+    async exportBackup(identity: string) {
+        return JSON.stringify(await this.loadBackup(identity));
+    }
+
+    /**
+     * Saves the backup exported with {@link PasswordKeyBackupProvider.exportBackup}, so the
+     * private key can be restored with `EThree.restorePrivateKey`.
+     */
+    async importBackup(identity: string, backup: string) {
+        const parsedBackup = this.parseBackup(backup);
+        const name = getBackupName(identity);
+        const value = JSON.stringify(parsedBackup);
+        if (await this.storage.exists(name)) {
+            await this.storage.update({ name, value });
+        } else {
+            await this.storage.save({ name, value });
+        }
+    }
+
+    private async loadBackup(identity: string) {
+        const entry = await this.storage.load(getBackupName(identity));
+        if (!entry) {
+            throw new PrivateKeyNoBackupError();
+        }
+        return this.parseBackup(entry.value);
+    }
+
+    private parseBackup(value: string): PasswordKeyBackup {
+        const backup = JSON.parse(value);
+        if (backup.version !== BACKUP_VERSION) {
+            throw new TypeError(`Unsupported version of the private key backup: ${backup.version}`);
+        }
+        return backup;
+    }
+
+    private async encryptBackup(
+        privateKeyData: string,
+        password: string,
+    ): Promise<PasswordKeyBackup> {
+        const { kdf, encryptedData } = await encryptWithPassword(
+            this.virgilCrypto,
+            { value: privateKeyData, encoding: 'base64' },
+            password,
+            this.scryptParams,
+        );
+        return { version: BACKUP_VERSION, kdf, encryptedPrivateKey: encryptedData };
+    }
+
+    private async decryptBackup(backup: PasswordKeyBackup, password: string) {
+        const privateKeyData = await decryptWithPassword(
+            this.virgilCrypto,
+            backup.kdf,
+            backup.encryptedPrivateKey,
+            password,
+        );
+        return privateKeyData.toString('base64');
+    }
+}
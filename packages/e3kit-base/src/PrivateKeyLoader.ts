@@ -1,14 +1,4 @@
-import {
-    CloudKeyStorage,
-    KeyknoxManager,
-    KeyknoxCrypto,
-    CloudEntryDoesntExistError,
-    KeyknoxClient,
-} from '@virgilsecurity/keyknox';
-import { VirgilAgent } from 'virgil-sdk';
-
-import { generateBrainPair } from './brainkey';
-import { WrongKeyknoxPasswordError, PrivateKeyNoBackupError } from './errors';
+import { KeyknoxKeyBackupProvider } from './KeyknoxKeyBackupProvider';
 import {
     IPrivateKey,
     ICrypto,
@@ -16,6 +6,7 @@ import {
     IAccessTokenProvider,
     IKeyEntryStorage,
     IKeyPair,
+    KeyBackupProvider,
 } from './types';
 
 /**
@@ -26,6 +17,7 @@ export interface PrivateKeyLoaderOptions {
     brainKeyCrypto: IBrainKeyCrypto;
     accessTokenProvider: IAccessTokenProvider;
     keyEntryStorage: IKeyEntryStorage;
+    keyBackupProvider?: KeyBackupProvider;
     apiUrl?: string;
 }
 
@@ -34,28 +26,26 @@ export interface PrivateKeyLoaderOptions {
  */
 export class PrivateKeyLoader {
     private localStorage: IKeyEntryStorage;
-    private keyknoxClient = new KeyknoxClient(
-        this.options.accessTokenProvider,
-        this.options.apiUrl,
-        undefined,
-        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-        new VirgilAgent(
-            process.env.__VIRGIL_PRODUCT_NAME__!,
-            process.env.__VIRGIL_PRODUCT_VERSION__!,
-        ),
-    );
-    private keyknoxCrypto = new KeyknoxCrypto(this.options.virgilCrypto);
+    private backupProvider: KeyBackupProvider;
     private cachedPrivateKey: IPrivateKey | null = null;
 
     constructor(public identity: string, public options: PrivateKeyLoaderOptions) {
         this.localStorage = options.keyEntryStorage;
+        this.backupProvider =
+            options.keyBackupProvider ||
+            new KeyknoxKeyBackupProvider({
+                virgilCrypto: options.virgilCrypto,
+                brainKeyCrypto: options.brainKeyCrypto,
+                accessTokenProvider: options.accessTokenProvider,
+                apiUrl: options.apiUrl,
+            });
     }
 
     async savePrivateKeyRemote(privateKey: IPrivateKey, password: string) {
-        const storage = await this.getStorage(password);
-        return await storage.storeEntry(
+        return await this.backupProvider.store(
             this.identity,
             this.options.virgilCrypto.exportPrivateKey(privateKey).toString('base64'),
+            password,
         );
     }
 
@@ -87,77 +77,27 @@ export class PrivateKeyLoader {
     }
 
     async resetPrivateKeyBackup(password: string) {
-        const storage = await this.getStorage(password);
-        await storage.deleteEntry(this.identity).catch(this.handleResetError);
+        await this.backupProvider.delete(this.identity, password);
     }
 
     async resetAll() {
-        await this.keyknoxClient.v1Reset();
+        await this.backupProvider.reset(this.identity);
     }
 
     async restorePrivateKey(password: string): Promise<IPrivateKey> {
-        const storage = await this.getStorage(password);
-        try {
-            const rawKey = storage.retrieveEntry(this.identity);
-            await this.localStorage.save({ name: this.identity, value: rawKey.data });
-            return this.importAndCachePrivateKey(rawKey.data);
-        } catch (e) {
-            if (e instanceof CloudEntryDoesntExistError) {
-                throw new PrivateKeyNoBackupError();
-            }
-            throw e;
-        }
+        const rawKeyData = await this.backupProvider.retrieve(this.identity, password);
+        await this.localStorage.save({ name: this.identity, value: rawKeyData });
+        return this.importAndCachePrivateKey(rawKeyData);
     }
 
     async changePassword(oldPwd: string, newPwd: string) {
-        const storage = await this.getStorage(oldPwd);
-        const keyPair = await this.generateBrainPair(newPwd);
-        const update = await storage.updateRecipients({
-            newPrivateKey: keyPair.privateKey,
-            newPublicKeys: [keyPair.publicKey],
-        });
-        return update;
+        await this.backupProvider.changePassword(this.identity, oldPwd, newPwd);
     }
 
     hasPrivateKey() {
         return this.localStorage.exists(this.identity);
     }
 
-    private handleResetError = (e: Error) => {
-        if (e instanceof CloudEntryDoesntExistError) {
-            throw new PrivateKeyNoBackupError();
-        }
-        throw e;
-    };
-
-    private async generateBrainPair(pwd: string) {
-        return generateBrainPair(pwd, {
-            virgilCrypto: this.options.virgilCrypto,
-            pythiaCrypto: this.options.brainKeyCrypto,
-            accessTokenProvider: this.options.accessTokenProvider,
-            apiUrl: this.options.apiUrl,
-        });
-    }
-
-    private async getStorage(pwd: string) {
-        const keyPair = await this.generateBrainPair(pwd);
-
-        const storage = new CloudKeyStorage(
-            new KeyknoxManager(this.keyknoxCrypto, this.keyknoxClient),
-            keyPair.privateKey,
-            keyPair.publicKey,
-        );
-        try {
-            await storage.retrieveCloudEntries();
-        } catch (e) {
-            if (e.name === 'FoundationError' || e.name === 'RNVirgilCryptoError') {
-                throw new WrongKeyknoxPasswordError();
-            }
-            throw e;
-        }
-        return storage;
-    }
-
     private importAndCachePrivateKey(rawKeyData: string) {
         this.cachedPrivateKey = this.options.virgilCrypto.importPrivateKey({
             value: rawKeyData,
@@ -0,0 +1,65 @@
+import { LevelUp } from 'levelup';
+
+import { GroupLocalStorage } from './GroupLocalStorage';
+import { IKeyPair, RatchetPreKeyEntry, RatchetSessionState } from './types';
+
+/**
+ * Stores the ratchet channels and the pre-keys of the current user. The entries are kept in
+ * the database of the groups, since the database can't be opened twice, and are encrypted
+ * the same way.
+ */
+export class RatchetLocalStorage {
+    private _groupLocalStorage: GroupLocalStorage;
+    private _sessionsDb: LevelUp;
+    private _preKeysDb: LevelUp;
+
+    constructor({ groupLocalStorage }: { groupLocalStorage: GroupLocalStorage }) {
+        this._groupLocalStorage = groupLocalStorage;
+        this._sessionsDb = groupLocalStorage.createSublevel('RATCHET_SESSIONS');
+        this._preKeysDb = groupLocalStorage.createSublevel('RATCHET_PRE_KEYS');
+    }
+
+    async storeSession(state: RatchetSessionState) {
+        await this._sessionsDb.batch([{ type: 'put', key: state.participant, value: state }]);
+    }
+
+    async retrieveSession(participant: string): Promise<RatchetSessionState | null> {
+        return this.get(this._sessionsDb, participant);
+    }
+
+    async deleteSession(participant: string) {
+        await this._sessionsDb.del(participant);
+    }
+
+    async storePreKey(preKey: RatchetPreKeyEntry) {
+        await this._preKeysDb.batch([{ type: 'put', key: preKey.id, value: preKey }]);
+    }
+
+    async retrievePreKey(id: string): Promise<RatchetPreKeyEntry | null> {
+        return this.get(this._preKeysDb, id);
+    }
+
+    async deletePreKey(id: string) {
+        await this._preKeysDb.del(id);
+    }
+
+    async reset() {
+        await this._sessionsDb.clear();
+        await this._preKeysDb.clear();
+    }
+
+    setEncryptionKeyPair(keyPair: IKeyPair) {
+        this._groupLocalStorage.setEncryptionKeyPair(keyPair);
+    }
+
+    private async get(db: LevelUp, key: string) {
+        try {
+            return await db.get(key);
+        } catch (err) {
+            if (err.notFound) {
+                return null;
+            }
+            throw err;
+        }
+    }
+}
@@ -0,0 +1,324 @@
+import {
+    ICard,
+    Data,
+    RatchetPreKey,
+    RatchetPreKeyEntry,
+    RatchetPreKeyServerFactory,
+    IPublicKey,
+} from './types';
+import { RATCHET_PRE_KEY_COUNT } from './constants';
+import { PrivateKeyLoader } from './PrivateKeyLoader';
+import { MissingPrivateKeyError, RatchetError, RatchetErrorCode } from './errors';
+import { RatchetLocalStorage } from './RatchetLocalStorage';
+import { RatchetChannel } from './ratchet/RatchetChannel';
+import {
+    createInitiatorState,
+    createResponderState,
+    decryptRatchetMessage,
+    encryptRatchetMessage,
+} from './utils/ratchet';
+
+export interface RatchetManagerConstructorParams {
+    identity: string;
+    privateKeyLoader: PrivateKeyLoader;
+    ratchetLocalStorage: RatchetLocalStorage;
+    preKeyServerFactory?: RatchetPreKeyServerFactory;
+}
+
+/**
+ * Payload of the invitation to the ratchet channel.
+ */
+interface RatchetInvitationPayload {
+    rootKey: string;
+    /**
+     * First message of the channel in base64, the identity of the sender encrypted with
+     * the ratchet.
+     */
+    message: string;
+}
+
+export class RatchetManager {
+    private _selfIdentity: string;
+    private _privateKeyLoader: PrivateKeyLoader;
+    private _localStorage: RatchetLocalStorage;
+    private _preKeyServerFactory?: RatchetPreKeyServerFactory;
+    private _queues = new Map<string, Promise<unknown>>();
+
+    constructor({
+        identity,
+        privateKeyLoader,
+        ratchetLocalStorage,
+        preKeyServerFactory,
+    }: RatchetManagerConstructorParams) {
+        this._selfIdentity = identity;
+        this._privateKeyLoader = privateKeyLoader;
+        this._localStorage = ratchetLocalStorage;
+        this._preKeyServerFactory = preKeyServerFactory;
+    }
+
+    /**
+     * Publishes the new one-time pre-keys of the current user in place of the ones taken by
+     * the other users. The published pre-keys are replaced if any of them can't be used, e.g. it's
+     * signed with the previous private key or its private key was lost along with the local
+     * storage. Does nothing if the pre-key server isn't set. Called on registration, so the other
+     * users can create the channels with the user right away, and before the channels are created
+     * or joined, so the pre-keys are published again if the registration failed to publish them.
+     */
+    async publishPreKeys() {
+        if (!this._preKeyServerFactory) return;
+        const { virgilCrypto } = this._privateKeyLoader.options;
+        const keyPair = await this.loadKeyPair();
+        const preKeyServer = this.getPreKeyServer();
+        let published = await preKeyServer.retrievePreKeys();
+        const usable = await Promise.all(
+            published.map(
+                async preKey =>
+                    this.verifyPreKey(preKey, keyPair.publicKey) &&
+                    (await this._localStorage.retrievePreKey(preKey.id)) !== null,
+            ),
+        );
+        if (usable.indexOf(false) !== -1) {
+            await preKeyServer.deletePreKeys();
+            for (const { id } of published) {
+                await this._localStorage.deletePreKey(id);
+            }
+            published = [];
+        }
+        const preKeys: RatchetPreKeyEntry[] = [];
+        for (let i = published.length; i < RATCHET_PRE_KEY_COUNT; i += 1) {
+            const preKeyPair = virgilCrypto.generateKeys();
+            preKeys.push({
+                id: virgilCrypto.getRandomBytes(16).toString('hex'),
+                privateKey: virgilCrypto.exportPrivateKey(preKeyPair.privateKey).toString('base64'),
+                publicKey: virgilCrypto.exportPublicKey(preKeyPair.publicKey).toString('base64'),
+            });
+        }
+        if (preKeys.length === 0) return;
+        // the private keys are stored first, so the invitations are never sent to the lost pre-keys
+        for (const preKey of preKeys) {
+            await this._localStorage.storePreKey(preKey);
+        }
+        await preKeyServer.publishPreKeys(
+            preKeys.map(({ id, publicKey }) => ({
+                id,
+                publicKey,
+                signature: virgilCrypto
+                    .calculateSignature(
+                        { value: publicKey, encoding: 'base64' },
+                        keyPair.privateKey,
+                    )
+                    .toString('base64'),
+            })),
+        );
+    }
+
+    async create(card: ICard) {
+        const { virgilCrypto } = this._privateKeyLoader.options;
+        const keyPair = await this.loadKeyPair();
+        await this.publishPreKeys();
+        if (await this._localStorage.retrieveSession(card.identity)) {
+            throw new RatchetError(
+                RatchetErrorCode.ChannelAlreadyExists,
+                `Ratchet channel with ${card.identity} already exists`,
+            );
+        }
+        const preKeyServer = this.getPreKeyServer();
+        const preKey = await preKeyServer.takePreKey(card.identity);
+        if (!preKey) {
+            throw new RatchetError(
+                RatchetErrorCode.PreKeyNotFound,
+                `${card.identity} has no published ratchet pre-keys left`,
+            );
+        }
+        if (!this.verifyPreKey(preKey, card.publicKey)) {
+            throw new RatchetError(
+                RatchetErrorCode.DataVerificationFailed,
+                `Verification of the ratchet pre-key of ${card.identity} failed`,
+            );
+        }
+        const rootKey = virgilCrypto.getRandomBytes(32).toString('base64');
+        const { state, message } = encryptRatchetMessage(
+            virgilCrypto,
+            createInitiatorState(card.identity, rootKey, preKey.publicKey),
+            { value: this._selfIdentity, encoding: 'utf8' },
+        );
+        const payload: RatchetInvitationPayload = { rootKey, message: message.toString('base64') };
+        await preKeyServer.storeInvitation(card.identity, {
+            preKeyId: preKey.id,
+            data: virgilCrypto
+                .signThenEncrypt(
+                    JSON.stringify(payload),
+                    keyPair.privateKey,
+                    virgilCrypto.importPublicKey({ value: preKey.publicKey, encoding: 'base64' }),
+                )
+                .toString('base64'),
+        });
+        await this._localStorage.storeSession(state);
+        return this.createChannel(card.identity);
+    }
+
+    async join(card: ICard) {
+        const { virgilCrypto } = this._privateKeyLoader.options;
+        await this.loadKeyPair();
+        await this.publishPreKeys();
+        if (await this._localStorage.retrieveSession(card.identity)) {
+            throw new RatchetError(
+                RatchetErrorCode.ChannelAlreadyExists,
+                `Ratchet channel with ${card.identity} already exists`,
+            );
+        }
+        const preKeyServer = this.getPreKeyServer();
+        const invitation = await preKeyServer.retrieveInvitation(card.identity);
+        if (!invitation) {
+            throw new RatchetError(
+                RatchetErrorCode.InvitationNotFound,
+                `${card.identity} didn't create the ratchet channel with the current user`,
+            );
+        }
+        const preKey = await this._localStorage.retrievePreKey(invitation.preKeyId);
+        if (!preKey) {
+            throw new RatchetError(
+                RatchetErrorCode.PreKeyNotFound,
+                'The ratchet pre-key the invitation was encrypted for is not stored on the device',
+            );
+        }
+        const payload: RatchetInvitationPayload = JSON.parse(
+            virgilCrypto
+                .decryptThenVerify(
+                    { value: invitation.data, encoding: 'base64' },
+                    virgilCrypto.importPrivateKey({ value: preKey.privateKey, encoding: 'base64' }),
+                    card.publicKey,
+                )
+                .toString('utf8'),
+        );
+        const { state, data } = decryptRatchetMessage(
+            virgilCrypto,
+            createResponderState(
+                card.identity,
+                payload.rootKey,
+                preKey.privateKey,
+                preKey.publicKey,
+            ),
+            Buffer.from(payload.message, 'base64'),
+        );
+        if (data.toString('utf8') !== card.identity) {
+            throw new RatchetError(
+                RatchetErrorCode.DataVerificationFailed,
+                `The invitation to the ratchet channel wasn't sent by ${card.identity}`,
+            );
+        }
+        await this._localStorage.storeSession(state);
+        await preKeyServer.deleteInvitation(card.identity);
+        // the pre-key was taken for this invitation only, so its private key isn't needed anymore
+        await this._localStorage.deletePreKey(preKey.id);
+        return this.createChannel(card.identity);
+    }
+
+    async retrieve(participant: string) {
+        await this.loadKeyPair();
+        const state = await this._localStorage.retrieveSession(participant);
+        return state ? this.createChannel(participant) : null;
+    }
+
+    async delete(participant: string) {
+        await this.loadKeyPair();
+        await this._localStorage.deleteSession(participant);
+    }
+
+    async encrypt(participant: string, data: Data) {
+        const { virgilCrypto } = this._privateKeyLoader.options;
+        return this.runExclusively(participant, async () => {
+            const { state, message } = encryptRatchetMessage(
+                virgilCrypto,
+                await this.retrieveSession(participant),
+                data,
+            );
+            // the chain is advanced before the message is sent, so the message key is never reused
+            await this._localStorage.storeSession(state);
+            return message;
+        });
+    }
+
+    async decrypt(participant: string, message: Uint8Array) {
+        const { virgilCrypto } = this._privateKeyLoader.options;
+        return this.runExclusively(participant, async () => {
+            const { state, data } = decryptRatchetMessage(
+                virgilCrypto,
+                await this.retrieveSession(participant),
+                message,
+            );
+            await this._localStorage.storeSession(state);
+            return data;
+        });
+    }
+
+    async cleanup() {
+        await this._localStorage.reset();
+    }
+
+    private async retrieveSession(participant: string) {
+        await this.loadKeyPair();
+        const state = await this._localStorage.retrieveSession(participant);
+        if (!state) {
+            throw new RatchetError(
+                RatchetErrorCode.ChannelNotFound,
+                `Ratchet channel with ${participant} was not found on the device`,
+            );
+        }
+        return state;
+    }
+
+    /**
+     * Runs the operations on the channel one by one, so the same message key is never derived
+     * twice from the state read concurrently.
+     */
+    private runExclusively<T>(participant: string, operation: () => Promise<T>) {
+        const previous = this._queues.get(participant) || Promise.resolve();
+        const result = previous.then(operation, operation);
+        const queue: Promise<void> = result
+            .catch(() => undefined)
+            .then(() => {
+                // the entry is kept if another operation was queued in the meantime
+                if (this._queues.get(participant) === queue) {
+                    this._queues.delete(participant);
+                }
+            });
+        this._queues.set(participant, queue);
+        return result;
+    }
+
+    private verifyPreKey(preKey: RatchetPreKey, publicKey: IPublicKey) {
+        const { virgilCrypto } = this._privateKeyLoader.options;
+        return virgilCrypto.verifySignature(
+            { value: preKey.publicKey, encoding: 'base64' },
+            { value: preKey.signature, encoding: 'base64' },
+            publicKey,
+        );
+    }
+
+    private createChannel(participant: string) {
+        return new RatchetChannel({ participant, ratchetManager: this });
+    }
+
+    private getPreKeyServer() {
+        if (!this._preKeyServerFactory) {
+            throw new RatchetError(
+                RatchetErrorCode.PreKeyServerNotSet,
+                'Ratchet channels require the "ratchetPreKeyServer" option of "EThree.initialize"',
+            );
+        }
+        return this._preKeyServerFactory({
+            identity: this._selfIdentity,
+            virgilCrypto: this._privateKeyLoader.options.virgilCrypto,
+        });
+    }
+
+    private async loadKeyPair() {
+        const keyPair = await this._privateKeyLoader.loadLocalKeyPair();
+        if (!keyPair) {
+            throw new MissingPrivateKeyError();
+        }
+        this._localStorage.setEncryptionKeyPair(keyPair);
+        return keyPair;
+    }
+}
@@ -0,0 +1,176 @@
+import { LARGE_GROUP_SHARD_COUNT } from './constants';
+import {
+    GroupTicket,
+    GroupTicketTransport,
+    ICard,
+    ICrypto,
+    IGroupSessionMessageInfo,
+    IPublicKey,
+} from './types';
+
+/**
+ * @hidden
+ *
+ * Returns the path of the entries of the large group shared with the identity.
+ * Participants are spread across the shards by the hash of their identity, so everyone can
+ * find their shard without knowing the other participants.
+ */
+export function getShardPath(virgilCrypto: ICrypto, sessionId: string, identity: string) {
+    const hash = virgilCrypto.calculateHash({ value: identity, encoding: 'utf8' }, 'SHA256');
+    const value = new DataView(hash.buffer, hash.byteOffset, hash.byteLength).getUint32(0);
+    return `${sessionId}.${value % LARGE_GROUP_SHARD_COUNT}`;
+}
+
+/**
+ * @hidden
+ *
+ * Stores the group tickets with {@link GroupTicketTransport}. An entry of Virgil Keyknox Storage
+ * can be shared with a limited number of recipients, so every ticket of the large group is stored in several
+ * entries, one per shard of the participants. The tickets of the regular group are stored
+ * in a single entry.
+ */
+export class ShardedCloudGroupTicketStorage {
+    private _transport: GroupTicketTransport;
+    private _virgilCrypto: ICrypto;
+    private _identity: string;
+    private _large: boolean;
+
+    constructor(options: {
+        transport: GroupTicketTransport;
+        virgilCrypto: ICrypto;
+        identity: string;
+        large?: boolean;
+    }) {
+        this._transport = options.transport;
+        this._virgilCrypto = options.virgilCrypto;
+        this._identity = options.identity;
+        this._large = Boolean(options.large);
+    }
+
+    /**
+     * Returns the epoch numbers of the tickets stored by the current user.
+     */
+    async getStoredEpochNumbers(sessionId: string) {
+        const tickets = await this.retrieveOwnTickets(this.getPath(sessionId, this._identity));
+        return tickets.map(({ groupSessionMessageInfo }) => groupSessionMessageInfo.epochNumber);
+    }
+
+    async store(groupSessionMessage: IGroupSessionMessageInfo, cards: ICard[]) {
+        const shards = this.groupCardsByShard(groupSessionMessage.sessionId, cards);
+        for (const [path, shardCards] of shards) {
+            try {
+                await this._transport.store(
+                    { ...groupSessionMessage, sessionId: path },
+                    shardCards,
+                );
+            } catch (error) {
+                if (error.name !== 'GroupTicketAlreadyExistsError') throw error;
+                // the same ticket might have been stored by the interrupted attempt
+                const tickets = await this._transport.retrieve(path);
+                const isStored = tickets.some(
+                    ({ groupSessionMessageInfo }) =>
+                        groupSessionMessageInfo.epochNumber === groupSessionMessage.epochNumber &&
+                        groupSessionMessageInfo.data === groupSessionMessage.data,
+                );
+                if (!isStored) throw error;
+            }
+        }
+    }
+
+    /**
+     * Retrieves the tickets shared with the current user by the owner of the storage. The owner
+     * reads the shards of all the given participants to learn who the tickets are shared with.
+     */
+    async retrieve(
+        sessionId: string,
+        identity: string,
+        publicKey: IPublicKey,
+        participants: string[] = [],
+    ): Promise<GroupTicket[]> {
+        const ownPath = this.getPath(sessionId, this._identity);
+        const paths = new Set([
+            ownPath,
+            ...participants.map(participant => this.getPath(sessionId, participant)),
+        ]);
+        let tickets: GroupTicket[] = [];
+        for (const path of paths) {
+            try {
+                const shardTickets = await this._transport.retrieve(path, identity, publicKey);
+                tickets = tickets.concat(shardTickets);
+            } catch (error) {
+                if (path === ownPath || error.name !== 'GroupTicketDoesntExistError') {
+                    throw error;
+                }
+            }
+        }
+        return tickets.map(ticket => ({
+            identities: ticket.identities,
+            groupSessionMessageInfo: { ...ticket.groupSessionMessageInfo, sessionId },
+        }));
+    }
+
+    async addRecipients(sessionId: string, cards: ICard[]) {
+        if (!this._large) {
+            await this._transport.addRecipients(sessionId, cards);
+            return;
+        }
+        const ownPath = this.getPath(sessionId, this._identity);
+        const shards = this.groupCardsByShard(sessionId, cards);
+        for (const [path, shardCards] of shards) {
+            if (shardCards.length === 0) continue;
+            const shardTickets = await this.retrieveOwnTickets(path);
+            if (shardTickets.length > 0) {
+                await this._transport.addRecipients(path, shardCards);
+                continue;
+            }
+            // nobody was added to the shard yet, copy the tickets from the shard of the owner
+            const tickets = await this._transport.retrieve(ownPath);
+            for (const { groupSessionMessageInfo } of tickets) {
+                await this._transport.store(
+                    { ...groupSessionMessageInfo, sessionId: path },
+                    shardCards,
+                );
+            }
+        }
+    }
+
+    async reAddRecipient(sessionId: string, card: ICard) {
+        await this._transport.reAddRecipient(this.getPath(sessionId, card.identity), card);
+    }
+
+    async removeRecipient(sessionId: string, identity: string) {
+        await this._transport.removeRecipient(this.getPath(sessionId, identity), identity);
+    }
+
+    async delete(sessionId: string, participants: string[] = []) {
+        const paths = new Set(
+            [this._identity, ...participants].map(identity => this.getPath(sessionId, identity)),
+        );
+        for (const path of paths) {
+            await this._transport.delete(path);
+        }
+    }
+
+    private async retrieveOwnTickets(path: string) {
+        try {
+            return await this._transport.retrieve(path);
+        } catch (error) {
+            if (error.name !== 'GroupTicketDoesntExistError') throw error;
+            return [];
+        }
+    }
+
+    private getPath(sessionId: string, identity: string) {
+        return this._large ? getShardPath(this._virgilCrypto, sessionId, identity) : sessionId;
+    }
+
+    private groupCardsByShard(sessionId: string, cards: ICard[]) {
+        // the tickets are always stored in the shard of the owner, so the owner can read them
+        const shards = new Map<string, ICard[]>([[this.getPath(sessionId, this._identity), []]]);
+        for (const card of cards) {
+            const path = this.getPath(sessionId, card.identity);
+            shards.set(path, (shards.get(path) || []).concat(card));
+        }
+        return shards;
+    }
+}
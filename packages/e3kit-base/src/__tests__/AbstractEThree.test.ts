@@ -8,7 +8,18 @@ import { AbstractLevelDOWN } from 'abstract-leveldown';
 
 import { PrivateKeyLoader } from '../PrivateKeyLoader';
 import { AbstractEThree } from '../AbstractEThree';
-import { UsersNotFoundError, UsersFoundWithMultipleCardsError } from '../errors';
+import { RatchetManager } from '../RatchetManager';
+import {
+    UsersNotFoundError,
+    UsersFoundWithMultipleCardsError,
+    IdentityAlreadyExistsError,
+} from '../errors';
+
+const createDeviceCard = (identity: string, deviceId: string) =>
+    (({
+        identity,
+        signatures: [{ signer: 'self', signature: '', extraFields: { deviceId } }],
+    } as unknown) as ICard);
 
 use(chaiAsPromised);
 
@@ -20,7 +31,7 @@ let keyEntryStorageStub: sinon.SinonStubbedInstance<KeyEntryStorage>;
 let groupStorageLeveldownStub: sinon.SinonStubbedInstance<AbstractLevelDOWN>;
 
 class MyEThree extends AbstractEThree {
-    constructor(identity: string) {
+    constructor(identity: string, deviceId?: string) {
         super({
             identity,
             virgilCrypto: virgilCryptoStub,
@@ -30,6 +41,7 @@ class MyEThree extends AbstractEThree {
             // the following aren't actually used in the code and tests
             accessTokenProvider: accessTokenProviderStub,
             keyEntryStorage: keyEntryStorageStub,
+            deviceId,
         });
     }
 
@@ -110,5 +122,94 @@ describe('AbstractEthree', () => {
                 UsersFoundWithMultipleCardsError,
             );
         });
+
+        it('returns all cards of an identity with "allDevices" option', async () => {
+            const cards = [
+                createDeviceCard('with_many_cards', 'device_1'),
+                createDeviceCard('with_many_cards', 'device_2'),
+            ];
+            cardManagerStub.searchCards.resolves([
+                ...cards,
+                { identity: 'with_one_card' } as ICard,
+            ]);
+            const ethree = new MyEThree('my_identity');
+            const result = await ethree.findUsers(['with_many_cards', 'with_one_card'], {
+                allDevices: true,
+            });
+            expect(result['with_many_cards']).to.deep.eq(cards);
+            expect(result['with_one_card']).to.have.length(1);
+        });
+    });
+
+    describe('register', () => {
+        it('publishes the card of the device in multi-device mode', async () => {
+            cardManagerStub.searchCards.resolves([createDeviceCard('my_identity', 'device_1')]);
+            keyLoaderStub.loadLocalPrivateKey.resolves(null);
+            virgilCryptoStub.generateKeys.returns({} as any);
+            const ethree = new MyEThree('my_identity', 'device_2');
+            await ethree.register();
+            expect(cardManagerStub.publishCard.firstCall.args[0].extraFields).to.deep.eq({
+                deviceId: 'device_2',
+            });
+            expect(keyLoaderStub.savePrivateKeyLocal.calledOnce).to.be.true;
+        });
+
+        it("doesn't throw if the ratchet pre-keys were not published", async () => {
+            cardManagerStub.searchCards.resolves([]);
+            keyLoaderStub.loadLocalPrivateKey.resolves(null);
+            virgilCryptoStub.generateKeys.returns({} as any);
+            sinon.stub(RatchetManager.prototype, 'publishPreKeys').rejects(new Error('Offline'));
+            const ethree = new MyEThree('my_identity');
+            await ethree.register();
+            expect(cardManagerStub.publishCard.calledOnce).to.be.true;
+            expect(keyLoaderStub.savePrivateKeyLocal.calledOnce).to.be.true;
+        });
+
+        it('throws if the device is already registered in multi-device mode', () => {
+            cardManagerStub.searchCards.resolves([createDeviceCard('my_identity', 'device_1')]);
+            keyLoaderStub.loadLocalPrivateKey.resolves(null);
+            const ethree = new MyEThree('my_identity', 'device_1');
+            return expect(ethree.register()).eventually.rejectedWith(IdentityAlreadyExistsError);
+        });
+    });
+
+    describe('verify', () => {
+        const previousCard = ({
+            identity: 'sender',
+            publicKey: 'previous_public_key',
+            createdAt: new Date(2020, 0, 1),
+        } as unknown) as ICard;
+        const card = ({
+            identity: 'sender',
+            publicKey: 'public_key',
+            createdAt: new Date(2020, 1, 1),
+            previousCard,
+        } as unknown) as ICard;
+
+        it('verifies with the public key of the card', async () => {
+            virgilCryptoStub.verifySignature.returns(true);
+            const ethree = new MyEThree('my_identity');
+            expect(await ethree.verify('data', 'c2lnbmF0dXJl', card)).to.be.true;
+            expect(virgilCryptoStub.verifySignature.firstCall.args).to.deep.eq([
+                'data',
+                { value: 'c2lnbmF0dXJl', encoding: 'base64' },
+                'public_key',
+            ]);
+        });
+
+        it('verifies with the public key of the card active at the moment of signing', async () => {
+            virgilCryptoStub.verifySignature.returns(false);
+            const ethree = new MyEThree('my_identity');
+            const result = await ethree.verify('data', 'c2lnbmF0dXJl', card, new Date(2020, 0, 15));
+            expect(result).to.be.false;
+            expect(virgilCryptoStub.verifySignature.firstCall.args[2]).to.eq('previous_public_key');
+        });
+
+        it('throws if the card is not provided', () => {
+            const ethree = new MyEThree('my_identity');
+            return expect(
+                ethree.verify('data', 'c2lnbmF0dXJl', undefined as any),
+            ).eventually.rejectedWith(TypeError);
+        });
     });
 });
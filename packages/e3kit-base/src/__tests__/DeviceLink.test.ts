@@ -0,0 +1,162 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { createHash, randomBytes } from 'crypto';
+import sinon from 'sinon';
+import { VirgilCrypto } from 'virgil-crypto';
+
+import { DEVICE_LINK_VERSION } from '../constants';
+import {
+    DeviceLink,
+    DeviceLinkMessage,
+    getNonceCommitment,
+    getShortAuthenticationString,
+    parseDeviceLinkMessage,
+} from '../DeviceLink';
+import { DeviceLinkError } from '../errors';
+import { DeviceLinkTransport, ICrypto } from '../types';
+
+use(chaiAsPromised);
+
+const toBuffer = (data: any): Buffer => {
+    if (typeof data === 'string') return Buffer.from(data, 'utf8');
+    if (data instanceof Uint8Array) return Buffer.from(data);
+    return Buffer.from(data.value, data.encoding);
+};
+
+class InMemoryTransport implements DeviceLinkTransport {
+    peer?: InMemoryTransport;
+    private messages: string[] = [];
+    private waiting?: (message: string) => void;
+
+    static createPair() {
+        const first = new InMemoryTransport();
+        const second = new InMemoryTransport();
+        first.peer = second;
+        second.peer = first;
+        return [first, second];
+    }
+
+    async send(message: string) {
+        if (this.peer) {
+            this.peer.deliver(message);
+        }
+    }
+
+    receive() {
+        const message = this.messages.shift();
+        if (message !== undefined) {
+            return Promise.resolve(message);
+        }
+        return new Promise<string>(resolve => {
+            this.waiting = resolve;
+        });
+    }
+
+    private deliver(message: string) {
+        if (this.waiting) {
+            const waiting = this.waiting;
+            this.waiting = undefined;
+            waiting(message);
+        } else {
+            this.messages.push(message);
+        }
+    }
+}
+
+describe('DeviceLink', () => {
+    let virgilCrypto: ICrypto;
+    let deviceLink: DeviceLink;
+    let newDeviceTransport: InMemoryTransport;
+    let existingDeviceTransport: InMemoryTransport;
+
+    const send = (message: DeviceLinkMessage) =>
+        existingDeviceTransport.send(JSON.stringify(message));
+
+    const receive = async () => parseDeviceLinkMessage(await existingDeviceTransport.receive());
+
+    beforeEach(() => {
+        const virgilCryptoStub = sinon.createStubInstance(VirgilCrypto);
+        virgilCryptoStub.generateKeys.callsFake((): any => {
+            const id = randomBytes(8).toString('hex');
+            return { privateKey: { id }, publicKey: { id } };
+        });
+        virgilCryptoStub.exportPublicKey.callsFake((key: any) => Buffer.from(key.id));
+        virgilCryptoStub.calculateHash.callsFake((data: any) =>
+            createHash('sha256')
+                .update(toBuffer(data))
+                .digest(),
+        );
+        virgilCryptoStub.getRandomBytes.callsFake((size: number) => randomBytes(size));
+        virgilCrypto = (virgilCryptoStub as unknown) as ICrypto;
+
+        deviceLink = new DeviceLink({
+            privateKeyLoader: { identity: 'alice', options: { virgilCrypto } } as any,
+            cardManager: {} as any,
+        });
+        [newDeviceTransport, existingDeviceTransport] = InMemoryTransport.createPair();
+    });
+
+    it('displays the same short authentication string on both devices', async () => {
+        const { publicKey } = JSON.parse(deviceLink.pairingCode);
+        const nonce = randomBytes(32).toString('base64');
+        const shortAuthenticationString = deviceLink.getShortAuthenticationString(
+            newDeviceTransport,
+        );
+
+        await send({
+            version: DEVICE_LINK_VERSION,
+            type: 'commitment',
+            commitment: getNonceCommitment(virgilCrypto, nonce),
+        });
+        const publicKeyMessage = await receive();
+        if (publicKeyMessage.type !== 'publicKey') {
+            throw new Error('Public key message expected');
+        }
+        expect(publicKeyMessage.publicKey).to.equal(publicKey);
+        await send({ version: DEVICE_LINK_VERSION, type: 'nonce', nonce });
+
+        expect(await shortAuthenticationString).to.equal(
+            getShortAuthenticationString(virgilCrypto, publicKey, nonce, publicKeyMessage.nonce),
+        );
+    });
+
+    it("rejects the nonce which doesn't match the commitment", async () => {
+        const nonce = randomBytes(32).toString('base64');
+        const tamperedNonce = randomBytes(32).toString('base64');
+        const shortAuthenticationString = deviceLink.getShortAuthenticationString(
+            newDeviceTransport,
+        );
+
+        await send({
+            version: DEVICE_LINK_VERSION,
+            type: 'commitment',
+            commitment: getNonceCommitment(virgilCrypto, nonce),
+        });
+        await receive();
+        await send({ version: DEVICE_LINK_VERSION, type: 'nonce', nonce: tamperedNonce });
+
+        await expect(shortAuthenticationString).to.be.rejectedWith(DeviceLinkError);
+    });
+
+    it('calculates different short authentication strings for different nonces', () => {
+        const publicKey = Buffer.from('public_key').toString('base64');
+        const nonce = Buffer.from('nonce').toString('base64');
+        const newDeviceNonce = Buffer.from('new_device_nonce').toString('base64');
+        const tamperedNonce = Buffer.from('tampered_nonce').toString('base64');
+
+        const shortAuthenticationString = getShortAuthenticationString(
+            virgilCrypto,
+            publicKey,
+            nonce,
+            newDeviceNonce,
+        );
+        expect(shortAuthenticationString).to.have.length(6);
+        expect(
+            getShortAuthenticationString(virgilCrypto, publicKey, tamperedNonce, newDeviceNonce),
+        ).not.to.equal(shortAuthenticationString);
+        expect(
+            getShortAuthenticationString(virgilCrypto, publicKey, nonce, tamperedNonce),
+        ).not.to.equal(shortAuthenticationString);
+    });
+});
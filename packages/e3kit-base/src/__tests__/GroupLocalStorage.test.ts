@@ -5,7 +5,15 @@ import sinon from 'sinon';
 import memdown from 'memdown';
 import { VirgilCrypto } from 'virgil-crypto';
 
-import { GroupInfo, Ticket, IKeyPair, ICrypto } from '../types';
+import {
+    GroupInfo,
+    GroupOperation,
+    Ticket,
+    IKeyPair,
+    ICrypto,
+    ICard,
+    SenderKeyState,
+} from '../types';
 import { GroupLocalStorage } from '../GroupLocalStorage';
 import { AbstractLevelDOWN } from 'abstract-leveldown';
 
@@ -376,6 +384,48 @@ describe('GroupLocalStorage', () => {
         });
     });
 
+    describe('list', () => {
+        it('returns all groups with their last tickets', async () => {
+            const identity = 'test';
+            const storage = createGroupLocalStorage(identity);
+            const sessionIds = [getRandomString('session'), getRandomString('session')];
+            const groups = sessionIds.map(sessionId => ({
+                info: createGroupInfo(identity),
+                tickets: createTickets(sessionId, 12),
+            }));
+            await Promise.all(groups.map(g => storage.store(g)));
+
+            const listed = await storage.list();
+            expect(listed.length).to.eq(2);
+            for (const group of groups) {
+                const sessionId = group.tickets[0].groupSessionMessage.sessionId;
+                const rawGroup = listed.find(
+                    g => g.tickets[0].groupSessionMessage.sessionId === sessionId,
+                );
+                expect(rawGroup).to.deep.eq({ info: group.info, tickets: [group.tickets[11]] });
+            }
+        });
+
+        it('does not list groups stored under other identities', async () => {
+            const commonStorageBackend = memdown();
+            const storage1 = createGroupLocalStorage(
+                getRandomString('identity'),
+                commonStorageBackend,
+            );
+            const storage2 = createGroupLocalStorage(
+                getRandomString('identity'),
+                commonStorageBackend,
+            );
+            await storage1.store({
+                info: createGroupInfo(),
+                tickets: createTickets(getRandomString('session'), 1),
+            });
+
+            expect(await storage1.list()).to.have.length(1);
+            expect(await storage2.list()).to.be.empty;
+        });
+    });
+
     describe('delete', () => {
         it('removes the session and its tickets', async () => {
             const identity = 'test';
@@ -426,6 +476,226 @@ describe('GroupLocalStorage', () => {
         });
     });
 
+    describe('addParticipantCards', () => {
+        it('replaces the ids of the previous cards of the participants', async () => {
+            const identity = 'test';
+            const storage = createGroupLocalStorage(identity);
+            const sessionId = getRandomString('session');
+            await storage.store({
+                info: { initiator: identity, participantCardIds: { alice: ['card1'] } },
+                tickets: createTickets(sessionId, 1),
+            });
+
+            await storage.addParticipantCards(sessionId, [
+                { id: 'card2', identity: 'alice', previousCardId: 'card1' } as ICard,
+                { id: 'card3', identity: 'bob' } as ICard,
+            ]);
+
+            const info = await storage.retrieveInfo(sessionId);
+            expect(info!.participantCardIds).to.deep.eq({ alice: ['card2'], bob: ['card3'] });
+        });
+
+        it('does nothing if session does not exist', async () => {
+            const storage = createGroupLocalStorage('test');
+            const sessionId = getRandomString('session');
+            await storage.addParticipantCards(sessionId, [
+                { id: 'card', identity: 'alice' } as ICard,
+            ]);
+            expect(await storage.retrieveInfo(sessionId)).to.be.null;
+        });
+    });
+
+    describe('setRoles', () => {
+        it('replaces the initiator and the admins of the group', async () => {
+            const identity = 'test';
+            const storage = createGroupLocalStorage(identity);
+            const sessionId = getRandomString('session');
+            await storage.store({
+                info: { initiator: identity, participantCardIds: { alice: ['card1'] } },
+                tickets: createTickets(sessionId, 1),
+            });
+
+            const roles = { version: 1, initiator: 'alice', admins: [identity] };
+            const signedRoles = {
+                roles: JSON.stringify(roles),
+                signer: identity,
+                signature: 'signature',
+            };
+            await storage.setRoles(sessionId, roles, signedRoles);
+
+            const info = await storage.retrieveInfo(sessionId);
+            expect(info).to.deep.eq({
+                initiator: 'alice',
+                admins: [identity],
+                signedRoles,
+                participantCardIds: { alice: ['card1'] },
+            });
+        });
+    });
+
+    describe('setMetadata', () => {
+        it('replaces the metadata of the group', async () => {
+            const identity = 'test';
+            const storage = createGroupLocalStorage(identity);
+            const sessionId = getRandomString('session');
+            await storage.store({
+                info: { initiator: identity, groupId: 'group', metadata: { name: 'old' } },
+                tickets: createTickets(sessionId, 1),
+            });
+
+            await storage.setMetadata(sessionId, { name: 'new' });
+
+            const info = await storage.retrieveInfo(sessionId);
+            expect(info).to.deep.eq({
+                initiator: identity,
+                groupId: 'group',
+                metadata: { name: 'new' },
+            });
+        });
+    });
+
+    describe('deleteTickets', () => {
+        it('deletes the tickets and the timestamps of the given epochs', async () => {
+            const identity = 'test';
+            const storage = createGroupLocalStorage(identity);
+            const sessionId = getRandomString('session');
+            await storage.store({
+                info: { initiator: identity, epochTimestamps: { 0: 1, 1: 2, 2: 3 } },
+                tickets: createTickets(sessionId, 3),
+            });
+
+            await storage.deleteTickets(sessionId, [0, 1]);
+
+            const retrieved = await storage.retrieve(sessionId, { ticketCount: 10 });
+            expect(retrieved!.tickets.map(t => t.groupSessionMessage.epochNumber)).to.deep.eq([2]);
+            expect(retrieved!.info.epochTimestamps).to.deep.eq({ 2: 3 });
+        });
+    });
+
+    describe('sender keys', () => {
+        const createSenderKeyState = (
+            sessionId: string,
+            epochNumber: number,
+            identity: string,
+        ): SenderKeyState => ({
+            sessionId,
+            epochNumber,
+            identity,
+            chainKey: getRandomString('chainKey'),
+            iteration: 0,
+            skippedMessageKeys: {},
+            recipients: null,
+        });
+
+        it('stores the chains by the epoch and the participant', async () => {
+            const storage = createGroupLocalStorage('test');
+            const sessionId = getRandomString('session');
+            const state1 = createSenderKeyState(sessionId, 0, 'alice');
+            const state2 = createSenderKeyState(sessionId, 1, 'alice');
+            await storage.storeSenderKey(state1);
+            await storage.storeSenderKey(state2);
+
+            expect(await storage.retrieveSenderKey(sessionId, 0, 'alice')).to.deep.eq(state1);
+            expect(await storage.retrieveSenderKey(sessionId, 1, 'alice')).to.deep.eq(state2);
+            expect(await storage.retrieveSenderKey(sessionId, 0, 'bob')).to.be.null;
+        });
+
+        it('deletes the chains of the deleted epochs', async () => {
+            const identity = 'test';
+            const storage = createGroupLocalStorage(identity);
+            const sessionId = getRandomString('session');
+            await storage.store({
+                info: { initiator: identity },
+                tickets: createTickets(sessionId, 2),
+            });
+            await storage.storeSenderKey(createSenderKeyState(sessionId, 0, 'alice'));
+            await storage.storeSenderKey(createSenderKeyState(sessionId, 1, 'alice'));
+
+            await storage.deleteTickets(sessionId, [0]);
+
+            expect(await storage.retrieveSenderKey(sessionId, 0, 'alice')).to.be.null;
+            expect(await storage.retrieveSenderKey(sessionId, 1, 'alice')).not.to.be.null;
+        });
+
+        it('deletes the chains of the deleted group', async () => {
+            const identity = 'test';
+            const storage = createGroupLocalStorage(identity);
+            const sessionId = getRandomString('session');
+            await storage.store({
+                info: { initiator: identity },
+                tickets: createTickets(sessionId, 1),
+            });
+            await storage.storeSenderKey(createSenderKeyState(sessionId, 0, 'alice'));
+
+            await storage.delete(sessionId);
+
+            expect(await storage.retrieveSenderKey(sessionId, 0, 'alice')).to.be.null;
+        });
+    });
+
+    describe('operations', () => {
+        const createOperation = (sessionId: string, id: string): GroupOperation => ({
+            id,
+            sessionId,
+            type: 'removeAccess',
+            epochNumber: 1,
+            added: [],
+            removed: [getRandomString('participant')],
+            createdAt: Date.now(),
+            attempts: 0,
+        });
+
+        it('returns the operations in the order they were queued', async () => {
+            const storage = createGroupLocalStorage('test');
+            const sessionId1 = getRandomString('session');
+            const sessionId2 = getRandomString('session');
+            const operations = [
+                createOperation(sessionId1, '2'),
+                createOperation(sessionId2, '1'),
+                createOperation(sessionId1, '3'),
+            ];
+            await storage.storeOperations(operations);
+
+            expect(await storage.retrieveOperations(sessionId1)).to.deep.eq([
+                operations[0],
+                operations[2],
+            ]);
+            expect(await storage.retrieveOperations()).to.deep.eq([
+                operations[1],
+                operations[0],
+                operations[2],
+            ]);
+        });
+
+        it('updates and deletes the operation', async () => {
+            const storage = createGroupLocalStorage('test');
+            const sessionId = getRandomString('session');
+            const operation = createOperation(sessionId, '1');
+            await storage.storeOperations([operation]);
+
+            const failedOperation = { ...operation, attempts: 1, lastError: 'Network Error' };
+            await storage.storeOperations([failedOperation]);
+            expect(await storage.retrieveOperations(sessionId)).to.deep.eq([failedOperation]);
+
+            await storage.deleteOperation(operation);
+            expect(await storage.retrieveOperations(sessionId)).to.be.empty;
+        });
+
+        it('deletes the operations of the deleted group', async () => {
+            const storage = createGroupLocalStorage('test');
+            const sessionId = getRandomString('session');
+            await storage.store({
+                info: createGroupInfo(),
+                tickets: createTickets(sessionId, 1),
+            });
+            await storage.storeOperations([createOperation(sessionId, '1')]);
+
+            await storage.delete(sessionId);
+
+            expect(await storage.retrieveOperations()).to.be.empty;
+        });
+    });
+
     describe('reset', () => {
         it('deletes all sessions', async () => {
             const identity = 'test';
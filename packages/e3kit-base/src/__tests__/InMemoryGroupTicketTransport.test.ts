@@ -0,0 +1,117 @@
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import sinon from 'sinon';
+import { VirgilCrypto } from 'virgil-crypto';
+
+import { ICard, ICrypto, IPrivateKey, IPublicKey, GroupTicketTransport } from '../types';
+import { InMemoryGroupTicketTransport } from '../InMemoryGroupTicketTransport';
+
+use(chaiAsPromised);
+
+describe('InMemoryGroupTicketTransport', () => {
+    const createFactory = InMemoryGroupTicketTransport.createFactory;
+    const publicKey = {} as IPublicKey;
+
+    const createTransport = (factory: ReturnType<typeof createFactory>, identity: string) =>
+        factory({
+            identity,
+            virgilCrypto: (sinon.createStubInstance(VirgilCrypto) as unknown) as ICrypto,
+            privateKey: {} as IPrivateKey,
+            publicKey,
+        });
+
+    const createCard = (identity: string) => ({ identity, publicKey } as ICard);
+
+    const createTicket = (epochNumber: number) => ({
+        sessionId: 'session',
+        epochNumber,
+        data: `ticket ${epochNumber}`,
+    });
+
+    let alice: GroupTicketTransport;
+    let bob: GroupTicketTransport;
+    let charles: GroupTicketTransport;
+
+    beforeEach(() => {
+        const factory = createFactory();
+        alice = createTransport(factory, 'alice');
+        bob = createTransport(factory, 'bob');
+        charles = createTransport(factory, 'charles');
+    });
+
+    it('shares the tickets with the recipients only', async () => {
+        await alice.store(createTicket(0), [createCard('bob')]);
+        await alice.store(createTicket(1), []);
+
+        const aliceTickets = await alice.retrieve('session');
+        expect(aliceTickets).to.have.length(2);
+        const bobTickets = await bob.retrieve('session', 'alice');
+        expect(bobTickets).to.have.length(1);
+        expect(bobTickets[0].groupSessionMessageInfo).to.eql(createTicket(0));
+        expect(bobTickets[0].identities).to.have.members(['alice', 'bob']);
+    });
+
+    it('throws if the ticket of the epoch already exists', async () => {
+        await alice.store(createTicket(0), []);
+        const error = await alice.store(createTicket(0), []).catch(error => error);
+        expect(error.name).to.equal('GroupTicketAlreadyExistsError');
+    });
+
+    it('throws if there are no tickets shared with the current user', async () => {
+        await alice.store(createTicket(0), []);
+        const error = await bob.retrieve('session', 'alice').catch(error => error);
+        expect(error.name).to.equal('GroupTicketDoesntExistError');
+    });
+
+    it('adds and removes the recipients', async () => {
+        await alice.store(createTicket(0), []);
+        await alice.store(createTicket(1), []);
+        await alice.addRecipients('session', [createCard('bob')]);
+        expect(await bob.retrieve('session', 'alice')).to.have.length(2);
+
+        await alice.removeRecipient('session', 'bob', 1);
+        expect(await bob.retrieve('session', 'alice')).to.have.length(1);
+        await alice.removeRecipient('session', 'bob');
+        await alice.removeRecipient('session', 'bob');
+        await expect(bob.retrieve('session', 'alice')).to.be.rejected;
+
+        await alice.reAddRecipient('session', createCard('bob'));
+        expect(await bob.retrieve('session', 'alice')).to.have.length(2);
+    });
+
+    it('deletes the tickets of the current user only', async () => {
+        await alice.store(createTicket(0), [createCard('bob')]);
+        await bob.store(createTicket(0), [createCard('alice')]);
+        await alice.delete('session');
+
+        await expect(alice.retrieve('session')).to.be.rejected;
+        expect(await alice.retrieve('session', 'bob')).to.have.length(1);
+    });
+
+    it('stores the documents', async () => {
+        await alice.storeDocument('root', 'path', 'key', 'value', [createCard('bob')]);
+        expect(await bob.retrieveDocument('root', 'path', 'key', 'alice', publicKey)).to.equal(
+            'value',
+        );
+
+        await alice.storeDocument('root', 'path', 'key', 'new value', []);
+        expect(await alice.retrieveDocument('root', 'path', 'key', 'alice', publicKey)).to.equal(
+            'new value',
+        );
+        expect(await bob.retrieveDocument('root', 'path', 'key', 'alice', publicKey)).to.be.null;
+
+        await alice.deleteDocuments('root', 'path');
+        expect(await alice.retrieveDocument('root', 'path', 'key', 'alice', publicKey)).to.be.null;
+    });
+
+    it('retrieves the documents of several owners', async () => {
+        await alice.storeDocument('root', 'path', 'key', 'alice value', [createCard('charles')]);
+        await bob.storeDocument('root', 'path', 'key', 'bob value', []);
+
+        const documents = await charles.retrieveDocuments('root', 'path', 'key', [
+            createCard('alice'),
+            createCard('bob'),
+        ]);
+        expect([...documents]).to.eql([['alice', 'alice value']]);
+    });
+});
@@ -0,0 +1,81 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { VirgilCrypto } from 'virgil-crypto';
+
+import { ICrypto, RatchetPreKeyServer } from '../types';
+import { InMemoryRatchetPreKeyServer } from '../InMemoryRatchetPreKeyServer';
+
+describe('InMemoryRatchetPreKeyServer', () => {
+    const createFactory = InMemoryRatchetPreKeyServer.createFactory;
+
+    const createServer = (factory: ReturnType<typeof createFactory>, identity: string) =>
+        factory({
+            identity,
+            virgilCrypto: (sinon.createStubInstance(VirgilCrypto) as unknown) as ICrypto,
+        });
+
+    const createPreKey = (id: string) => ({ id, publicKey: `key ${id}`, signature: `sig ${id}` });
+
+    let alice: RatchetPreKeyServer;
+    let bob: RatchetPreKeyServer;
+
+    beforeEach(() => {
+        const factory = createFactory();
+        alice = createServer(factory, 'alice');
+        bob = createServer(factory, 'bob');
+    });
+
+    it('adds the pre-keys of the current user', async () => {
+        await bob.publishPreKeys([createPreKey('1')]);
+        await bob.publishPreKeys([createPreKey('2'), createPreKey('3')]);
+
+        expect(await bob.retrievePreKeys()).to.eql([
+            createPreKey('1'),
+            createPreKey('2'),
+            createPreKey('3'),
+        ]);
+        expect(await alice.retrievePreKeys()).to.eql([]);
+    });
+
+    it('takes every pre-key once', async () => {
+        await bob.publishPreKeys([createPreKey('1'), createPreKey('2')]);
+
+        expect(await alice.takePreKey('bob')).to.eql(createPreKey('1'));
+        expect(await alice.takePreKey('bob')).to.eql(createPreKey('2'));
+        expect(await alice.takePreKey('bob')).to.be.null;
+        expect(await bob.retrievePreKeys()).to.eql([]);
+    });
+
+    it('deletes the pre-keys of the current user', async () => {
+        await alice.publishPreKeys([createPreKey('1')]);
+        await bob.publishPreKeys([createPreKey('2')]);
+
+        await bob.deletePreKeys();
+
+        expect(await bob.retrievePreKeys()).to.eql([]);
+        expect(await alice.retrievePreKeys()).to.eql([createPreKey('1')]);
+    });
+
+    it('leaves the invitations for the recipient only', async () => {
+        const invitation = { preKeyId: '1', data: 'invitation' };
+        await alice.storeInvitation('bob', invitation);
+
+        expect(await bob.retrieveInvitation('alice')).to.eql(invitation);
+        expect(await alice.retrieveInvitation('bob')).to.be.null;
+    });
+
+    it('deletes the invitation of the sender', async () => {
+        await alice.storeInvitation('bob', { preKeyId: '1', data: 'invitation' });
+
+        await bob.deleteInvitation('alice');
+
+        expect(await bob.retrieveInvitation('alice')).to.be.null;
+    });
+
+    it('does not share the entries between the factories', async () => {
+        await bob.publishPreKeys([createPreKey('1')]);
+
+        const charles = createServer(createFactory(), 'charles');
+        expect(await charles.takePreKey('bob')).to.be.null;
+    });
+});
@@ -0,0 +1,115 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { createHash, randomBytes } from 'crypto';
+import sinon from 'sinon';
+import { VirgilCrypto } from 'virgil-crypto';
+import { KeyEntryStorage } from 'virgil-sdk';
+
+import { WrongPasswordError } from '../errors';
+import { PasswordKeyBackupProvider } from '../PasswordKeyBackupProvider';
+
+use(chaiAsPromised);
+
+const toBuffer = (data: any): Buffer => {
+    if (typeof data === 'string') return Buffer.from(data, 'utf8');
+    if (data instanceof Uint8Array) return Buffer.from(data);
+    return Buffer.from(data.value, data.encoding);
+};
+
+/**
+ * Crypto where the data encrypted for the key can be decrypted with the key of the same id only.
+ */
+const createVirgilCryptoStub = () => {
+    const virgilCryptoStub = sinon.createStubInstance(VirgilCrypto);
+    virgilCryptoStub.getRandomBytes.callsFake((length: number) => randomBytes(length));
+    virgilCryptoStub.calculateHash.callsFake((data: any) =>
+        createHash('sha256')
+            .update(toBuffer(data))
+            .digest(),
+    );
+    virgilCryptoStub.generateKeysFromKeyMaterial.callsFake((keyMaterial: any) => {
+        const id = toBuffer(keyMaterial).toString('hex');
+        return { privateKey: { id }, publicKey: { id } } as any;
+    });
+    virgilCryptoStub.encrypt.callsFake((data: any, publicKey: any) =>
+        Buffer.from(JSON.stringify({ id: publicKey.id, data: toBuffer(data).toString('base64') })),
+    );
+    virgilCryptoStub.decrypt.callsFake((data: any, privateKey: any) => {
+        const encrypted = JSON.parse(toBuffer(data).toString('utf8'));
+        if (encrypted.id !== privateKey.id) {
+            const error = new Error('recipient defined with id is not found');
+            error.name = 'FoundationError';
+            throw error;
+        }
+        return Buffer.from(encrypted.data, 'base64');
+    });
+    return virgilCryptoStub;
+};
+
+const createKeyEntryStorageStub = () => {
+    const entries = new Map<string, string>();
+    const keyEntryStorageStub = sinon.createStubInstance(KeyEntryStorage);
+    keyEntryStorageStub.save.callsFake(async ({ name, value }) => {
+        entries.set(name, value);
+        return { name, value } as any;
+    });
+    keyEntryStorageStub.update.callsFake(async ({ name, value }) => {
+        entries.set(name, value as string);
+        return { name, value } as any;
+    });
+    keyEntryStorageStub.load.callsFake(async name => {
+        const value = entries.get(name);
+        return value === undefined ? null : ({ name, value } as any);
+    });
+    keyEntryStorageStub.exists.callsFake(async name => entries.has(name));
+    keyEntryStorageStub.remove.callsFake(async name => entries.delete(name));
+    return keyEntryStorageStub;
+};
+
+describe('PasswordKeyBackupProvider', () => {
+    const identity = 'alice';
+    const privateKeyData = randomBytes(32).toString('base64');
+    let keyEntryStorageStub: ReturnType<typeof createKeyEntryStorageStub>;
+    let provider: PasswordKeyBackupProvider;
+
+    beforeEach(() => {
+        keyEntryStorageStub = createKeyEntryStorageStub();
+        provider = new PasswordKeyBackupProvider({
+            virgilCrypto: createVirgilCryptoStub(),
+            keyEntryStorage: keyEntryStorageStub,
+            scryptParams: { N: 16, r: 1, p: 1 },
+        });
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    it('throws `WrongPasswordError` if the password is wrong', async () => {
+        await provider.store(identity, privateKeyData, 'pwd');
+        await expect(provider.retrieve(identity, 'wrong_pwd')).to.be.rejectedWith(
+            WrongPasswordError,
+        );
+        expect(await provider.retrieve(identity, 'pwd')).to.equal(privateKeyData);
+    });
+
+    it('changes the password without deleting the backup', async () => {
+        await provider.store(identity, privateKeyData, 'old_pwd');
+        await provider.changePassword(identity, 'old_pwd', 'new_pwd');
+
+        expect(keyEntryStorageStub.remove.called).to.be.false;
+        await expect(provider.retrieve(identity, 'old_pwd')).to.be.rejectedWith(WrongPasswordError);
+        expect(await provider.retrieve(identity, 'new_pwd')).to.equal(privateKeyData);
+    });
+
+    it('keeps the backup if the new one fails to be stored', async () => {
+        await provider.store(identity, privateKeyData, 'old_pwd');
+        keyEntryStorageStub.update.rejects(new Error('Storage error'));
+
+        await expect(provider.changePassword(identity, 'old_pwd', 'new_pwd')).to.be.rejectedWith(
+            'Storage error',
+        );
+        expect(await provider.retrieve(identity, 'old_pwd')).to.equal(privateKeyData);
+    });
+});
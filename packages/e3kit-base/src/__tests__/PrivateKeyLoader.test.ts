@@ -0,0 +1,96 @@
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import sinon from 'sinon';
+import { KeyEntryStorage } from 'virgil-sdk';
+import { VirgilCrypto } from 'virgil-crypto';
+
+import { PrivateKeyLoader } from '../PrivateKeyLoader';
+import { InMemoryKeyBackupProvider } from '../InMemoryKeyBackupProvider';
+import { PrivateKeyNoBackupError, WrongKeyknoxPasswordError } from '../errors';
+import { IPrivateKey } from '../types';
+
+use(chaiAsPromised);
+
+describe('PrivateKeyLoader', () => {
+    const identity = 'my_identity';
+    const privateKeyData = Buffer.from('private_key');
+    const privateKey = { identifier: 'private_key' } as IPrivateKey;
+
+    let virgilCryptoStub: sinon.SinonStubbedInstance<VirgilCrypto>;
+    let keyEntryStorageStub: sinon.SinonStubbedInstance<KeyEntryStorage>;
+    let keyBackupProvider: InMemoryKeyBackupProvider;
+    let keyLoader: PrivateKeyLoader;
+
+    beforeEach(() => {
+        virgilCryptoStub = sinon.createStubInstance(VirgilCrypto);
+        virgilCryptoStub.exportPrivateKey.returns(privateKeyData);
+        virgilCryptoStub.importPrivateKey.returns(privateKey as any);
+        keyEntryStorageStub = sinon.createStubInstance(KeyEntryStorage);
+        keyBackupProvider = new InMemoryKeyBackupProvider();
+        keyLoader = new PrivateKeyLoader(identity, {
+            virgilCrypto: virgilCryptoStub,
+            keyEntryStorage: keyEntryStorageStub,
+            keyBackupProvider,
+            // the following aren't used when keyBackupProvider is given
+            brainKeyCrypto: {} as any,
+            accessTokenProvider: {} as any,
+        });
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    it('restores private key from the backup', async () => {
+        await keyLoader.savePrivateKeyRemote(privateKey, 'pwd');
+        const restoredKey = await keyLoader.restorePrivateKey('pwd');
+        expect(restoredKey).to.eq(privateKey);
+        expect(keyEntryStorageStub.save.calledOnce).to.be.true;
+        expect(keyEntryStorageStub.save.firstCall.args[0]).to.deep.eq({
+            name: identity,
+            value: privateKeyData.toString('base64'),
+        });
+        expect(virgilCryptoStub.importPrivateKey.firstCall.args[0]).to.deep.eq({
+            value: privateKeyData.toString('base64'),
+            encoding: 'base64',
+        });
+    });
+
+    it('throws if the password is wrong', async () => {
+        await keyLoader.savePrivateKeyRemote(privateKey, 'pwd');
+        await expect(keyLoader.restorePrivateKey('wrong_pwd')).to.be.rejectedWith(
+            WrongKeyknoxPasswordError,
+        );
+    });
+
+    it('throws if there is no backup', async () => {
+        await expect(keyLoader.restorePrivateKey('pwd')).to.be.rejectedWith(
+            PrivateKeyNoBackupError,
+        );
+        await expect(keyLoader.resetPrivateKeyBackup('pwd')).to.be.rejectedWith(
+            PrivateKeyNoBackupError,
+        );
+    });
+
+    it('changes password of the backup', async () => {
+        await keyLoader.savePrivateKeyRemote(privateKey, 'old_pwd');
+        await keyLoader.changePassword('old_pwd', 'new_pwd');
+        await expect(keyLoader.restorePrivateKey('old_pwd')).to.be.rejectedWith(
+            WrongKeyknoxPasswordError,
+        );
+        expect(await keyLoader.restorePrivateKey('new_pwd')).to.eq(privateKey);
+    });
+
+    it('deletes the backup', async () => {
+        await keyLoader.savePrivateKeyRemote(privateKey, 'pwd');
+        await keyLoader.resetPrivateKeyBackup('pwd');
+        await expect(keyLoader.restorePrivateKey('pwd')).to.be.rejectedWith(
+            PrivateKeyNoBackupError,
+        );
+        await keyLoader.savePrivateKeyRemote(privateKey, 'pwd');
+        await keyLoader.resetAll();
+        await expect(keyLoader.restorePrivateKey('pwd')).to.be.rejectedWith(
+            PrivateKeyNoBackupError,
+        );
+    });
+});
@@ -0,0 +1,93 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { expect } from 'chai';
+import sinon from 'sinon';
+import memdown from 'memdown';
+import { VirgilCrypto } from 'virgil-crypto';
+
+import { ICrypto, RatchetSessionState } from '../types';
+import { GroupLocalStorage } from '../GroupLocalStorage';
+import { RatchetLocalStorage } from '../RatchetLocalStorage';
+
+const createVirgilCryptoStub = () => {
+    const virgilCryptoStub = sinon.createStubInstance(VirgilCrypto);
+    virgilCryptoStub.signThenEncrypt.callsFake((value: any) => {
+        const valueStr = Buffer.isBuffer(value) ? value.toString('utf8') : value;
+        return Buffer.from(`encrypted_${valueStr}`);
+    });
+    virgilCryptoStub.decryptThenVerify.callsFake((value: any) => {
+        const valueStr = Buffer.isBuffer(value) ? value.toString('utf8') : value;
+        return Buffer.from(valueStr.replace(/encrypted_/, ''));
+    });
+    return (virgilCryptoStub as unknown) as ICrypto;
+};
+
+const createStorages = (identity: string) => {
+    const groupLocalStorage = new GroupLocalStorage({
+        identity,
+        leveldown: memdown(),
+        virgilCrypto: createVirgilCryptoStub(),
+    });
+    const ratchetLocalStorage = new RatchetLocalStorage({ groupLocalStorage });
+    ratchetLocalStorage.setEncryptionKeyPair({ privateKey: {}, publicKey: {} });
+    return { groupLocalStorage, ratchetLocalStorage };
+};
+
+const createSessionState = (participant: string): RatchetSessionState => ({
+    participant,
+    rootKey: 'rootKey',
+    privateKey: null,
+    publicKey: null,
+    remotePublicKey: 'remotePublicKey',
+    sendingChain: null,
+    receivingChain: null,
+    previousCounter: 0,
+    skippedMessageKeys: {},
+});
+
+describe('RatchetLocalStorage', () => {
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    it('stores the sessions by the participant', async () => {
+        const { ratchetLocalStorage } = createStorages('alice');
+        await ratchetLocalStorage.storeSession(createSessionState('bob'));
+
+        expect(await ratchetLocalStorage.retrieveSession('bob')).to.eql(createSessionState('bob'));
+        expect(await ratchetLocalStorage.retrieveSession('charles')).to.be.null;
+
+        await ratchetLocalStorage.deleteSession('bob');
+        expect(await ratchetLocalStorage.retrieveSession('bob')).to.be.null;
+    });
+
+    it('stores the pre-keys by the id', async () => {
+        const { ratchetLocalStorage } = createStorages('alice');
+        const preKey = { id: '1', privateKey: 'privateKey', publicKey: 'publicKey' };
+        await ratchetLocalStorage.storePreKey(preKey);
+
+        expect(await ratchetLocalStorage.retrievePreKey('1')).to.eql(preKey);
+        expect(await ratchetLocalStorage.retrievePreKey('2')).to.be.null;
+
+        await ratchetLocalStorage.deletePreKey('1');
+        expect(await ratchetLocalStorage.retrievePreKey('1')).to.be.null;
+    });
+
+    it('does not delete the groups on reset', async () => {
+        const { groupLocalStorage, ratchetLocalStorage } = createStorages('alice');
+        await groupLocalStorage.store({
+            info: { initiator: 'alice' },
+            tickets: [
+                {
+                    groupSessionMessage: { epochNumber: 0, sessionId: 'session', data: 'data' },
+                    participants: ['alice'],
+                },
+            ],
+        });
+        await ratchetLocalStorage.storeSession(createSessionState('bob'));
+
+        await ratchetLocalStorage.reset();
+
+        expect(await ratchetLocalStorage.retrieveSession('bob')).to.be.null;
+        expect(await groupLocalStorage.retrieveInfo('session')).not.to.be.null;
+    });
+});
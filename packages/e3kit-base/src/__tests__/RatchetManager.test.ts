@@ -0,0 +1,176 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { expect } from 'chai';
+import { createHash, randomBytes } from 'crypto';
+import memdown from 'memdown';
+import sinon from 'sinon';
+import { VirgilCrypto } from 'virgil-crypto';
+
+import { RATCHET_PRE_KEY_COUNT } from '../constants';
+import { GroupLocalStorage } from '../GroupLocalStorage';
+import { InMemoryRatchetPreKeyServer } from '../InMemoryRatchetPreKeyServer';
+import { RatchetLocalStorage } from '../RatchetLocalStorage';
+import { RatchetManager } from '../RatchetManager';
+import { ICard, ICrypto, IKeyPair, RatchetPreKeyServerFactory } from '../types';
+
+const toBuffer = (data: any): Buffer => {
+    if (typeof data === 'string') return Buffer.from(data, 'utf8');
+    if (data instanceof Uint8Array) return Buffer.from(data);
+    return Buffer.from(data.value, data.encoding);
+};
+
+/**
+ * Crypto where the data encrypted for the key can be decrypted with the key of the same id only
+ * and the signature made with the private key is verified with the public key of the same id.
+ */
+const createVirgilCryptoStub = () => {
+    const virgilCryptoStub = sinon.createStubInstance(VirgilCrypto);
+    const createKeyPair = (id: string): any => ({ privateKey: { id }, publicKey: { id } });
+    const sign = (data: any, key: any) =>
+        createHash('sha256')
+            .update(key.id)
+            .update(toBuffer(data))
+            .digest();
+    virgilCryptoStub.generateKeys.callsFake(() => createKeyPair(randomBytes(8).toString('hex')));
+    virgilCryptoStub.generateKeysFromKeyMaterial.callsFake((keyMaterial: any) =>
+        createKeyPair(
+            createHash('sha256')
+                .update(toBuffer(keyMaterial))
+                .digest('hex'),
+        ),
+    );
+    virgilCryptoStub.exportPrivateKey.callsFake((key: any) => Buffer.from(key.id));
+    virgilCryptoStub.exportPublicKey.callsFake((key: any) => Buffer.from(key.id));
+    virgilCryptoStub.importPrivateKey.callsFake((data: any): any => ({
+        id: toBuffer(data).toString(),
+    }));
+    virgilCryptoStub.importPublicKey.callsFake((data: any): any => ({
+        id: toBuffer(data).toString(),
+    }));
+    virgilCryptoStub.encrypt.callsFake((data: any, key: any) =>
+        Buffer.concat([Buffer.from(`${key.id}:`), toBuffer(data)]),
+    );
+    virgilCryptoStub.decrypt.callsFake((data: any, key: any) => {
+        const buffer = toBuffer(data);
+        const prefix = Buffer.from(`${key.id}:`);
+        if (!buffer.subarray(0, prefix.length).equals(prefix)) {
+            throw new Error('Recipient defined with id is not found');
+        }
+        return buffer.subarray(prefix.length);
+    });
+    virgilCryptoStub.signThenEncrypt.callsFake((data: any) =>
+        Buffer.concat([Buffer.from('encrypted_'), toBuffer(data)]),
+    );
+    virgilCryptoStub.decryptThenVerify.callsFake((data: any) =>
+        toBuffer(data).subarray('encrypted_'.length),
+    );
+    virgilCryptoStub.calculateSignature.callsFake(sign);
+    virgilCryptoStub.verifySignature.callsFake((data: any, signature: any, key: any) =>
+        sign(data, key).equals(toBuffer(signature)),
+    );
+    virgilCryptoStub.calculateHash.callsFake((data: any) =>
+        createHash('sha512')
+            .update(toBuffer(data))
+            .digest(),
+    );
+    virgilCryptoStub.getRandomBytes.callsFake((size: number) => randomBytes(size));
+    return (virgilCryptoStub as unknown) as ICrypto;
+};
+
+describe('RatchetManager', () => {
+    let virgilCrypto: ICrypto;
+    let preKeyServerFactory: RatchetPreKeyServerFactory;
+
+    const createUser = (identity: string) => {
+        let keyPair: IKeyPair = virgilCrypto.generateKeys();
+        const ratchetLocalStorage = new RatchetLocalStorage({
+            groupLocalStorage: new GroupLocalStorage({
+                identity,
+                leveldown: memdown(),
+                virgilCrypto,
+            }),
+        });
+        const ratchetManager = new RatchetManager({
+            identity,
+            privateKeyLoader: {
+                options: { virgilCrypto },
+                loadLocalKeyPair: () => Promise.resolve(keyPair),
+            } as any,
+            ratchetLocalStorage,
+            preKeyServerFactory,
+        });
+        return {
+            ratchetManager,
+            ratchetLocalStorage,
+            preKeyServer: preKeyServerFactory({ identity, virgilCrypto }),
+            getCard: () => (({ identity, publicKey: keyPair.publicKey } as unknown) as ICard),
+            rotateKeyPair: () => {
+                keyPair = virgilCrypto.generateKeys();
+            },
+        };
+    };
+
+    beforeEach(() => {
+        virgilCrypto = createVirgilCryptoStub();
+        preKeyServerFactory = InMemoryRatchetPreKeyServer.createFactory();
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    it('joins the channels created by several users before the user joins any', async () => {
+        const alice = createUser('alice');
+        const bob = createUser('bob');
+        const charles = createUser('charles');
+        await bob.ratchetManager.publishPreKeys();
+
+        await alice.ratchetManager.create(bob.getCard());
+        await charles.ratchetManager.create(bob.getCard());
+        const encrypted1 = await alice.ratchetManager.encrypt('bob', 'message1');
+        const encrypted2 = await charles.ratchetManager.encrypt('bob', 'message2');
+
+        await bob.ratchetManager.join(alice.getCard());
+        await bob.ratchetManager.join(charles.getCard());
+        expect((await bob.ratchetManager.decrypt('alice', encrypted1)).toString()).to.equal(
+            'message1',
+        );
+        expect((await bob.ratchetManager.decrypt('charles', encrypted2)).toString()).to.equal(
+            'message2',
+        );
+    });
+
+    it('uses every pre-key for one invitation only', async () => {
+        const alice = createUser('alice');
+        const bob = createUser('bob');
+        await bob.ratchetManager.publishPreKeys();
+        expect(await bob.preKeyServer.retrievePreKeys()).to.have.length(RATCHET_PRE_KEY_COUNT);
+
+        await alice.ratchetManager.create(bob.getCard());
+        const invitation = await bob.preKeyServer.retrieveInvitation('alice');
+        if (!invitation) {
+            throw new Error('Invitation expected');
+        }
+        const { preKeyId } = invitation;
+        const published = await bob.preKeyServer.retrievePreKeys();
+        expect(published).to.have.length(RATCHET_PRE_KEY_COUNT - 1);
+        expect(published.map(({ id }) => id)).not.to.include(preKeyId);
+
+        await bob.ratchetManager.join(alice.getCard());
+        expect(await bob.ratchetLocalStorage.retrievePreKey(preKeyId)).to.be.null;
+        expect(await bob.preKeyServer.retrievePreKeys()).to.have.length(RATCHET_PRE_KEY_COUNT);
+    });
+
+    it('replaces the pre-keys signed with the previous private key', async () => {
+        const bob = createUser('bob');
+        await bob.ratchetManager.publishPreKeys();
+        const previousIds = (await bob.preKeyServer.retrievePreKeys()).map(({ id }) => id);
+
+        bob.rotateKeyPair();
+        await bob.ratchetManager.publishPreKeys();
+
+        const published = await bob.preKeyServer.retrievePreKeys();
+        expect(published).to.have.length(RATCHET_PRE_KEY_COUNT);
+        expect(published.filter(({ id }) => previousIds.indexOf(id) !== -1)).to.be.empty;
+        expect(await bob.ratchetLocalStorage.retrievePreKey(previousIds[0])).to.be.null;
+    });
+});
@@ -0,0 +1,79 @@
+import { expect } from 'chai';
+import { randomBytes } from 'crypto';
+
+import { IntegrityCheckFailedError } from '../errors';
+import {
+    GROUP_FILE_ID_SIZE,
+    GroupFileDecoder,
+    bytesGroupFileProcessor,
+    decodeGroupFileChunk,
+    encodeGroupFileChunk,
+    encodeGroupFileChunkLength,
+    encodeGroupFileHeader,
+} from '../utils/groupFile';
+
+describe('groupFile', () => {
+    const fileId = randomBytes(GROUP_FILE_ID_SIZE);
+
+    const encodeFile = (chunks: Buffer[]) =>
+        Buffer.concat([
+            encodeGroupFileHeader(fileId),
+            ...chunks.map(chunk =>
+                Buffer.concat([encodeGroupFileChunkLength(chunk.length), chunk]),
+            ),
+        ]);
+
+    it('decodes the chunks of the file written in parts of any size', () => {
+        const chunks = [randomBytes(10), randomBytes(0), randomBytes(100)];
+        const file = encodeFile(chunks);
+        const decoder = new GroupFileDecoder();
+        const decoded: Uint8Array[] = [];
+        for (let offset = 0; offset < file.length; offset += 7) {
+            decoder.write(file.subarray(offset, offset + 7));
+            for (let chunk = decoder.next(); chunk; chunk = decoder.next()) {
+                decoded.push(chunk);
+            }
+        }
+
+        expect(decoder.getFileId()).to.eql(new Uint8Array(fileId));
+        expect(decoded.map(chunk => Buffer.from(chunk))).to.eql(chunks);
+        expect(decoder.hasData).to.be.false;
+    });
+
+    it('decodes the chunk of the file with the expected index', () => {
+        const data = randomBytes(10);
+        const chunk = encodeGroupFileChunk(fileId, data, 1, true);
+
+        const decoded = decodeGroupFileChunk(fileId, chunk, 1);
+        expect(Buffer.from(decoded.data)).to.eql(data);
+        expect(decoded.isLast).to.be.true;
+        expect(() => decodeGroupFileChunk(fileId, chunk, 0)).to.throw(IntegrityCheckFailedError);
+    });
+
+    it('throws if the chunk belongs to another file', () => {
+        const chunk = encodeGroupFileChunk(
+            randomBytes(GROUP_FILE_ID_SIZE),
+            randomBytes(10),
+            0,
+            true,
+        );
+
+        expect(() => decodeGroupFileChunk(fileId, chunk, 0)).to.throw(IntegrityCheckFailedError);
+    });
+
+    it('throws if the file is not encrypted for the group', () => {
+        const decoder = new GroupFileDecoder();
+        decoder.write(randomBytes(100));
+
+        expect(() => decoder.next()).to.throw(IntegrityCheckFailedError);
+    });
+
+    it('reads and creates the files given as byte arrays', async () => {
+        const data = randomBytes(100);
+        const reader = await bytesGroupFileProcessor.openFile(data, 30);
+        expect(reader.size).to.equal(data.length);
+
+        const result = await bytesGroupFileProcessor.createFile(data, () => reader.read(), false);
+        expect(result).to.eql(data);
+    });
+});
@@ -0,0 +1,170 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { expect } from 'chai';
+import { createHash, randomBytes } from 'crypto';
+import sinon from 'sinon';
+import { VirgilCrypto } from 'virgil-crypto';
+
+import { RatchetError, RatchetErrorCode } from '../errors';
+import { ICrypto, RatchetSessionState } from '../types';
+import {
+    createInitiatorState,
+    createResponderState,
+    decryptRatchetMessage,
+    encryptRatchetMessage,
+} from '../utils/ratchet';
+
+const toBuffer = (data: any): Buffer => {
+    if (typeof data === 'string') return Buffer.from(data, 'utf8');
+    if (data instanceof Uint8Array) return Buffer.from(data);
+    return Buffer.from(data.value, data.encoding);
+};
+
+/**
+ * Crypto where the data encrypted for the key can be decrypted with the key of the same id only.
+ */
+const createVirgilCryptoStub = () => {
+    const virgilCryptoStub = sinon.createStubInstance(VirgilCrypto);
+    const createKeyPair = (id: string): any => ({ privateKey: { id }, publicKey: { id } });
+    virgilCryptoStub.generateKeys.callsFake(() => createKeyPair(randomBytes(8).toString('hex')));
+    virgilCryptoStub.generateKeysFromKeyMaterial.callsFake((keyMaterial: any) =>
+        createKeyPair(
+            createHash('sha256')
+                .update(toBuffer(keyMaterial))
+                .digest('hex'),
+        ),
+    );
+    virgilCryptoStub.exportPrivateKey.callsFake((key: any) => Buffer.from(key.id));
+    virgilCryptoStub.exportPublicKey.callsFake((key: any) => Buffer.from(key.id));
+    virgilCryptoStub.importPrivateKey.callsFake((data: any): any => ({
+        id: toBuffer(data).toString(),
+    }));
+    virgilCryptoStub.importPublicKey.callsFake((data: any): any => ({
+        id: toBuffer(data).toString(),
+    }));
+    virgilCryptoStub.encrypt.callsFake((data: any, key: any) =>
+        Buffer.concat([Buffer.from(`${key.id}:`), toBuffer(data)]),
+    );
+    virgilCryptoStub.decrypt.callsFake((data: any, key: any) => {
+        const buffer = toBuffer(data);
+        const prefix = Buffer.from(`${key.id}:`);
+        if (!buffer.subarray(0, prefix.length).equals(prefix)) {
+            throw new Error('Recipient defined with id is not found');
+        }
+        return buffer.subarray(prefix.length);
+    });
+    virgilCryptoStub.calculateHash.callsFake((data: any) =>
+        createHash('sha512')
+            .update(toBuffer(data))
+            .digest(),
+    );
+    virgilCryptoStub.getRandomBytes.callsFake((size: number) => randomBytes(size));
+    return (virgilCryptoStub as unknown) as ICrypto;
+};
+
+describe('ratchet', () => {
+    let virgilCrypto: ICrypto;
+    let alice: RatchetSessionState;
+    let bob: RatchetSessionState;
+
+    const send = (from: 'alice' | 'bob', message: string) => {
+        const result = encryptRatchetMessage(virgilCrypto, from === 'alice' ? alice : bob, message);
+        if (from === 'alice') {
+            alice = result.state;
+        } else {
+            bob = result.state;
+        }
+        return result.message;
+    };
+
+    const receive = (to: 'alice' | 'bob', message: Uint8Array) => {
+        const result = decryptRatchetMessage(virgilCrypto, to === 'alice' ? alice : bob, message);
+        if (to === 'alice') {
+            alice = result.state;
+        } else {
+            bob = result.state;
+        }
+        return result.data.toString('utf8');
+    };
+
+    beforeEach(() => {
+        virgilCrypto = createVirgilCryptoStub();
+        const rootKey = randomBytes(32).toString('base64');
+        const preKeyPair = virgilCrypto.generateKeys();
+        const preKeyPrivateKey = virgilCrypto
+            .exportPrivateKey(preKeyPair.privateKey)
+            .toString('base64');
+        const preKeyPublicKey = virgilCrypto
+            .exportPublicKey(preKeyPair.publicKey)
+            .toString('base64');
+        alice = createInitiatorState('bob', rootKey, preKeyPublicKey);
+        bob = createResponderState('alice', rootKey, preKeyPrivateKey, preKeyPublicKey);
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    it('encrypts the messages in both directions', () => {
+        expect(receive('bob', send('alice', 'a1'))).to.equal('a1');
+        expect(receive('alice', send('bob', 'b1'))).to.equal('b1');
+        expect(receive('bob', send('alice', 'a2'))).to.equal('a2');
+        expect(receive('alice', send('bob', 'b2'))).to.equal('b2');
+    });
+
+    it('starts the new chain with the new ratchet key after the reply', () => {
+        receive('bob', send('alice', 'a1'));
+        const alicePublicKey = alice.publicKey;
+        receive('bob', send('alice', 'a2'));
+        expect(alice.publicKey).to.equal(alicePublicKey);
+
+        receive('alice', send('bob', 'b1'));
+        receive('bob', send('alice', 'a3'));
+        expect(alice.publicKey).not.to.equal(alicePublicKey);
+        expect(bob.remotePublicKey).to.equal(alice.publicKey);
+    });
+
+    it('decrypts the messages delivered out of order', () => {
+        receive('bob', send('alice', 'a1'));
+        const a2 = send('alice', 'a2');
+        const a3 = send('alice', 'a3');
+        expect(receive('bob', a3)).to.equal('a3');
+        expect(receive('alice', send('bob', 'b1'))).to.equal('b1');
+        const a4 = send('alice', 'a4');
+        expect(receive('bob', a4)).to.equal('a4');
+        expect(receive('bob', a2)).to.equal('a2');
+        expect(bob.skippedMessageKeys).to.be.empty;
+    });
+
+    it('decrypts every message once', () => {
+        const a1 = send('alice', 'a1');
+        receive('bob', a1);
+        try {
+            receive('bob', a1);
+            expect.fail();
+        } catch (error) {
+            expect(error).to.be.instanceOf(RatchetError);
+            expect(error.errorCode).to.equal(RatchetErrorCode.MessageKeyNotFound);
+        }
+    });
+
+    it('does not change the state if the message cannot be decrypted', () => {
+        const a1 = send('alice', 'a1');
+        const corrupted = Uint8Array.from(a1);
+        // the key id the stub puts before the plaintext
+        corrupted[corrupted.length - 'a1'.length - 2] ^= 0xff;
+        const state = bob;
+        expect(() => receive('bob', corrupted)).to.throw();
+        expect(bob).to.equal(state);
+        expect(receive('bob', a1)).to.equal('a1');
+    });
+
+    it('throws if the message is not from the ratchet channel', () => {
+        try {
+            receive('bob', new Uint8Array([1, 2, 3]));
+            expect.fail();
+        } catch (error) {
+            expect(error).to.be.instanceOf(RatchetError);
+            expect(error.errorCode).to.equal(RatchetErrorCode.InvalidMessage);
+        }
+    });
+});
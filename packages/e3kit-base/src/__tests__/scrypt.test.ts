@@ -0,0 +1,50 @@
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+
+import { scrypt } from '../scrypt';
+
+use(chaiAsPromised);
+
+describe('scrypt', function() {
+    this.timeout(10000);
+
+    // test vectors from RFC 7914, section 12
+    const testVectors = [
+        {
+            password: '',
+            salt: '',
+            params: { N: 16, r: 1, p: 1 },
+            expectedKey:
+                '77d6576238657b203b19ca42c18a0497f16b4844e3074ae8dfdffa3fede21442' +
+                'fcd0069ded0948f8326a753a0fc81f17e8d3e0fb2e0d3628cf35e20c38d18906',
+        },
+        {
+            password: 'password',
+            salt: 'NaCl',
+            params: { N: 1024, r: 8, p: 16 },
+            expectedKey:
+                'fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b373162' +
+                '2eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640',
+        },
+        {
+            password: 'pleaseletmein',
+            salt: 'SodiumChloride',
+            params: { N: 16384, r: 8, p: 1 },
+            expectedKey:
+                '7023bdcb3afd7348461c06cd81fd38ebfda8fbba904f8e3ea9b543f6545da1f2' +
+                'd5432955613f0fcf62d49705242a9af9e61e85dc0d651e40dfcf017b45575887',
+        },
+    ];
+
+    testVectors.forEach(({ password, salt, params, expectedKey }) => {
+        it(`derives the RFC 7914 key with N=${params.N}, r=${params.r}, p=${params.p}`, async () => {
+            const key = await scrypt(Buffer.from(password), Buffer.from(salt), params, 64);
+            expect(Buffer.from(key).toString('hex')).to.equal(expectedKey);
+        });
+    });
+
+    it('throws if N is not a power of 2', async () => {
+        await expect(scrypt(Buffer.from(''), Buffer.from(''), { N: 15, r: 1, p: 1 }, 64)).to.be
+            .rejected;
+    });
+});
@@ -0,0 +1,146 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { expect } from 'chai';
+import { createHash, randomBytes } from 'crypto';
+import sinon from 'sinon';
+import { VirgilCrypto } from 'virgil-crypto';
+
+import { MAX_SKIPPED_SENDER_KEY_MESSAGES } from '../constants';
+import { GroupError, GroupErrorCode } from '../errors';
+import { ICrypto, SenderKeyState } from '../types';
+import {
+    createChainKey,
+    decodeSenderKeyMessage,
+    decryptSenderKeyMessage,
+    encryptSenderKeyMessage,
+} from '../utils/senderKey';
+
+const toBuffer = (data: any): Buffer => {
+    if (typeof data === 'string') return Buffer.from(data, 'utf8');
+    if (data instanceof Uint8Array) return Buffer.from(data);
+    return Buffer.from(data.value, data.encoding);
+};
+
+/**
+ * Crypto where the data encrypted for the key can be decrypted with the key of the same id only.
+ */
+const createVirgilCryptoStub = () => {
+    const virgilCryptoStub = sinon.createStubInstance(VirgilCrypto);
+    virgilCryptoStub.generateKeysFromKeyMaterial.callsFake((keyMaterial: any) => {
+        const id = createHash('sha256')
+            .update(toBuffer(keyMaterial))
+            .digest('hex');
+        return { privateKey: { id }, publicKey: { id } } as any;
+    });
+    virgilCryptoStub.encrypt.callsFake((data: any, key: any) =>
+        Buffer.concat([Buffer.from(`${key.id}:`), toBuffer(data)]),
+    );
+    virgilCryptoStub.decrypt.callsFake((data: any, key: any) => {
+        const buffer = toBuffer(data);
+        const prefix = Buffer.from(`${key.id}:`);
+        if (!buffer.subarray(0, prefix.length).equals(prefix)) {
+            throw new Error('Recipient defined with id is not found');
+        }
+        return buffer.subarray(prefix.length);
+    });
+    virgilCryptoStub.calculateHash.callsFake((data: any) =>
+        createHash('sha512')
+            .update(toBuffer(data))
+            .digest(),
+    );
+    virgilCryptoStub.getRandomBytes.callsFake((size: number) => randomBytes(size));
+    return (virgilCryptoStub as unknown) as ICrypto;
+};
+
+describe('senderKey', () => {
+    let virgilCrypto: ICrypto;
+    let sender: SenderKeyState;
+    let recipient: SenderKeyState;
+
+    const send = (message: string) => {
+        const result = encryptSenderKeyMessage(virgilCrypto, sender, message);
+        sender = result.state;
+        return result.message;
+    };
+
+    const receive = (message: Uint8Array) => {
+        const decoded = decodeSenderKeyMessage(message);
+        if (!decoded) {
+            throw new Error('Sender key message expected');
+        }
+        const result = decryptSenderKeyMessage(virgilCrypto, recipient, decoded);
+        recipient = result.state;
+        return result.data.toString('utf8');
+    };
+
+    const expectMessageKeyNotFound = (message: Uint8Array) => {
+        try {
+            receive(message);
+            expect.fail();
+        } catch (error) {
+            expect(error).to.be.instanceOf(GroupError);
+            expect(error.errorCode).to.equal(GroupErrorCode.MessageKeyNotFound);
+        }
+    };
+
+    beforeEach(() => {
+        virgilCrypto = createVirgilCryptoStub();
+        sender = {
+            sessionId: 'session',
+            epochNumber: 0,
+            identity: 'alice',
+            chainKey: createChainKey(virgilCrypto),
+            iteration: 0,
+            skippedMessageKeys: {},
+            recipients: ['bob'],
+        };
+        recipient = { ...sender, recipients: null };
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    it('decrypts the messages received out of order', () => {
+        const m1 = send('m1');
+        const m2 = send('m2');
+        const m3 = send('m3');
+
+        expect(receive(m3)).to.equal('m3');
+        expect(receive(m1)).to.equal('m1');
+        expect(receive(m2)).to.equal('m2');
+        expect(recipient.skippedMessageKeys).to.be.empty;
+    });
+
+    it('decrypts every message once', () => {
+        const m1 = send('m1');
+        const m2 = send('m2');
+
+        expect(receive(m2)).to.equal('m2');
+        expectMessageKeyNotFound(m2);
+        expect(receive(m1)).to.equal('m1');
+        expectMessageKeyNotFound(m1);
+    });
+
+    it('keeps the limited number of the keys of the skipped messages', () => {
+        const first = send('first');
+        for (let i = 1; i < MAX_SKIPPED_SENDER_KEY_MESSAGES; i += 1) {
+            send('skipped');
+        }
+        expect(receive(send('m1'))).to.equal('m1');
+        send('skipped');
+        expect(receive(send('m2'))).to.equal('m2');
+
+        expect(Object.keys(recipient.skippedMessageKeys)).to.have.length(
+            MAX_SKIPPED_SENDER_KEY_MESSAGES,
+        );
+        expectMessageKeyNotFound(first);
+    });
+
+    it('throws if too many messages were skipped', () => {
+        for (let i = 0; i <= MAX_SKIPPED_SENDER_KEY_MESSAGES; i += 1) {
+            send('skipped');
+        }
+
+        expectMessageKeyNotFound(send('m1'));
+    });
+});
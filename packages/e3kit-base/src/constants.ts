@@ -23,12 +23,75 @@ export const MAX_IDENTITIES_TO_SEARCH = 50;
  */
 export const CLOUD_GROUP_SESSIONS_ROOT = 'group-sessions';
 
+/**
+ * @hidden
+ */
+export const CLOUD_GROUP_ROLES_ROOT = 'group-roles';
+
+/**
+ * @hidden
+ */
+export const CLOUD_GROUP_REQUESTS_ROOT = 'group-requests';
+
+/**
+ * @hidden
+ */
+export const CLOUD_GROUP_HISTORY_ROOT = 'group-history';
+
 /**
  * @hidden
  */
 export const VALID_GROUP_PARTICIPANT_COUNT_RANGE: [number, number] = [1, 100];
 
+/**
+ * @hidden
+ */
+export const VALID_LARGE_GROUP_PARTICIPANT_COUNT_RANGE: [number, number] = [1, 10000];
+
+/**
+ * @hidden
+ *
+ * Number of Keyknox entries the tickets of the large group are spread across.
+ */
+export const LARGE_GROUP_SHARD_COUNT = 256;
+
 /**
  * @hidden
  */
 export const MAX_EPOCHS_IN_GROUP_SESSION = 50;
+
+/**
+ * @hidden
+ *
+ * Number of the messages of the sender key chain that can be skipped at once.
+ */
+export const MAX_SKIPPED_SENDER_KEY_MESSAGES = 1000;
+
+/**
+ * @hidden
+ *
+ * Number of the keys of the skipped messages of the ratchet channel kept on the device.
+ */
+export const MAX_SKIPPED_RATCHET_MESSAGES = 1000;
+
+/**
+ * @hidden
+ *
+ * Number of the one-time ratchet pre-keys of the user kept published on the pre-key server.
+ */
+export const RATCHET_PRE_KEY_COUNT = 20;
+
+/**
+ * @hidden
+ */
+export const EXPORTED_PRIVATE_KEY_VERSION = 1;
+
+/**
+ * @hidden
+ */
+export const DEVICE_LINK_VERSION = 1;
+
+/**
+ * @hidden
+ */
+export const CARD_DEVICE_ID_FIELD = 'deviceId';
@@ -36,11 +36,27 @@ export class RegisterRequiredError extends SdkError {
     }
 }
 
+/**
+ * Error thrown by {@link EThree.restorePrivateKey}, {@link EThree.changePassword} and
+ * {@link EThree.importPrivateKey} when user enters wrong password, whichever
+ * {@link KeyBackupProvider} stores the backup.
+ */
+export class WrongPasswordError extends SdkError {
+    constructor(
+        m = 'Password of the private key is invalid',
+        name = 'WrongPasswordError',
+        DerivedClass: any = WrongPasswordError,
+    ) {
+        super(m, name, DerivedClass);
+    }
+}
+
 /**
  * Error thrown by {@link EThree.backupPrivateKey},  {@link EThree.changePassword} and
- * {@link EThree.resetPrivateKeyBackup} when user enters wrong password.
+ * {@link EThree.resetPrivateKeyBackup} when user enters wrong password of the backup stored
+ * in Virgil Keyknox Storage.
  */
-export class WrongKeyknoxPasswordError extends SdkError {
+export class WrongKeyknoxPasswordError extends WrongPasswordError {
     constructor() {
         super(
             'Password from remote private key storage is invalid',
@@ -187,6 +203,7 @@ export enum GroupErrorCode {
     MessageNotFromThisGroup = 9,
     GroupIsOutdated = 10,
     NoAccess = 11,
+    MessageKeyNotFound = 12,
 }
 
 export class GroupError extends SdkError {
@@ -195,6 +212,23 @@ export class GroupError extends SdkError {
     }
 }
 
+export enum RatchetErrorCode {
+    PreKeyServerNotSet = 1,
+    ChannelAlreadyExists = 2,
+    ChannelNotFound = 3,
+    PreKeyNotFound = 4,
+    InvitationNotFound = 5,
+    DataVerificationFailed = 6,
+    MessageKeyNotFound = 7,
+    InvalidMessage = 8,
+}
+
+export class RatchetError extends SdkError {
+    constructor(public errorCode: RatchetErrorCode, message: string) {
+        super(message, 'RatchetError', RatchetError);
+    }
+}
+
 /**
  * Error thrown when an attempt is made to retrieve the private key from the
  * device's persistent storage, but no private key exists.
@@ -213,3 +247,24 @@ export class MissingPrivateKeyError extends SdkError {
         );
     }
 }
+
+/**
+ * Error thrown by {@link EThree.importPrivateKey} when the exported private key doesn't belong
+ * to the current user or doesn't match the current user's Virgil Card.
+ */
+export class PrivateKeyMismatchError extends SdkError {
+    constructor(message: string) {
+        super(message, 'PrivateKeyMismatchError', PrivateKeyMismatchError);
+    }
+}
+
+/**
+ * Error thrown by {@link EThree.linkDevice}, {@link DeviceLink.getShortAuthenticationString} and
+ * {@link DeviceLink.complete} when the private key can't be transferred between the devices,
+ * e.g. the short authentication strings don't match or the received message can't be verified.
+ */
+export class DeviceLinkError extends SdkError {
+    constructor(message: string) {
+        super(message, 'DeviceLinkError', DeviceLinkError);
+    }
+}
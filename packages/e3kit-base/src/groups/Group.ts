@@ -1,36 +1,117 @@
-import { IGroupSession, ICrypto, Data, FindUsersResult, NodeBuffer, Ticket } from '../types';
+import {
+    IGroupSession,
+    ICrypto,
+    Data,
+    FindUsersResult,
+    FindUserDevicesResult,
+    NodeBuffer,
+    Ticket,
+    GroupRole,
+    GroupHistoryEntry,
+    GroupId,
+    GroupMetadata,
+    GroupRetentionPolicy,
+    GroupEventListener,
+    GroupEventType,
+    GroupFileProcessor,
+    GroupEncryptFileOptions,
+    GroupDecryptFileOptions,
+} from '../types';
 import { PrivateKeyLoader } from '../PrivateKeyLoader';
-import { GroupError, GroupErrorCode, UsersNotFoundError, MissingPrivateKeyError } from '../errors';
+import {
+    GroupError,
+    GroupErrorCode,
+    UsersNotFoundError,
+    MissingPrivateKeyError,
+    RegisterRequiredError,
+    IntegrityCheckFailedError,
+    AbortError,
+} from '../errors';
 import { ICard } from '../types';
 import { CardManager } from 'virgil-sdk';
 import { GroupManager } from '../GroupManager';
 import { isVirgilCard, isString } from '../typeguards';
-import { VALID_GROUP_PARTICIPANT_COUNT_RANGE, MAX_EPOCHS_IN_GROUP_SESSION } from '../constants';
+import {
+    VALID_GROUP_PARTICIPANT_COUNT_RANGE,
+    VALID_LARGE_GROUP_PARTICIPANT_COUNT_RANGE,
+    MAX_EPOCHS_IN_GROUP_SESSION,
+    MAX_IDENTITIES_TO_SEARCH,
+} from '../constants';
+import { chunkArray } from '../array';
 import { getCardActiveAtMoment, getCardsArray } from '../utils/card';
+import { getGroupRole } from '../utils/roles';
 import { isNumberInRange } from '../utils/number';
 import { setDifference } from '../utils/set';
+import { decodeSenderKeyMessage } from '../utils/senderKey';
+import {
+    GROUP_FILE_ID_SIZE,
+    GroupFileDecoder,
+    bytesGroupFileProcessor,
+    decodeGroupFileChunk,
+    encodeGroupFileChunk,
+    encodeGroupFileChunkLength,
+    encodeGroupFileHeader,
+} from '../utils/groupFile';
 
-export const isValidParticipantCount = (count: number) => {
-    return isNumberInRange(count, VALID_GROUP_PARTICIPANT_COUNT_RANGE);
+export const getParticipantCountRange = (large = false) => {
+    return large ? VALID_LARGE_GROUP_PARTICIPANT_COUNT_RANGE : VALID_GROUP_PARTICIPANT_COUNT_RANGE;
+};
+
+export const isValidParticipantCount = (count: number, large = false) => {
+    return isNumberInRange(count, getParticipantCountRange(large));
 };
 
 export class Group {
     selfIdentity: string;
     initiator: string;
+    /**
+     * Identities of the participants who can add and remove other participants along with
+     * the initiator. Appointed by the initiator with {@link Group.addAdmins}.
+     */
+    admins: string[];
     participants: string[];
+    /**
+     * Id of the group passed to {@link AbstractEThree.createGroup} or
+     * {@link AbstractEThree.loadGroup}.
+     */
+    groupId?: GroupId;
+    /**
+     * Application data of the group stored on the device, see {@link Group.setMetadata}.
+     */
+    metadata: GroupMetadata;
+    /**
+     * Whether the current user was removed from the group. The read-only group can only decrypt
+     * the messages of the epochs the user was a participant of, see
+     * {@link EThreeInitializeOptions.keepRemovedGroups}.
+     */
+    readOnly: boolean;
+    /**
+     * Whether the messages of the group are encrypted with the sender key chains of
+     * the participants, see {@link CreateGroupOptions.senderKeys}.
+     */
+    senderKeys: boolean;
 
     private _session: IGroupSession;
     private _virgilCrypto: ICrypto;
     private _privateKeyLoader: PrivateKeyLoader;
     private _groupManager: GroupManager;
     private _cardManager: CardManager;
+    private _large: boolean;
+    private _fileProcessor?: GroupFileProcessor;
 
     constructor(options: {
         initiator: string;
+        admins?: string[];
+        groupId?: GroupId;
+        metadata?: GroupMetadata;
+        large?: boolean;
+        senderKeys?: boolean;
+        readOnly?: boolean;
         tickets: Ticket[];
         privateKeyLoader: PrivateKeyLoader;
         cardManager: CardManager;
         groupManager: GroupManager;
+        fileProcessor?: GroupFileProcessor;
     }) {
         const sortedTickets = options.tickets
             .slice()
@@ -43,15 +124,22 @@ export class Group {
             );
         }
 
-        if (!isValidParticipantCount(lastTicket.participants.length)) {
+        const [minParticipantCount, maxParticipantCount] = getParticipantCountRange(options.large);
+        if (!isValidParticipantCount(lastTicket.participants.length, options.large)) {
             throw new GroupError(
                 GroupErrorCode.InvalidParticipantsCount,
-                `Cannot initialize group with ${lastTicket.participants.length} participant(s). Group can have ${VALID_GROUP_PARTICIPANT_COUNT_RANGE[0]} to ${VALID_GROUP_PARTICIPANT_COUNT_RANGE[1]} participants.`,
+                `Cannot initialize group with ${lastTicket.participants.length} participant(s). Group can have ${minParticipantCount} to ${maxParticipantCount} participants.`,
             );
         }
 
         this.selfIdentity = options.privateKeyLoader.identity;
         this.initiator = options.initiator;
+        this.admins = options.admins || [];
+        this.groupId = options.groupId;
+        this.metadata = options.metadata || {};
+        this.readOnly = Boolean(options.readOnly);
+        this._large = Boolean(options.large);
+        this.senderKeys = Boolean(options.senderKeys);
         this.participants = lastTicket.participants;
 
         this._virgilCrypto = options.privateKeyLoader.options.virgilCrypto;
@@ -61,16 +149,33 @@ export class Group {
         );
         this._cardManager = options.cardManager;
         this._groupManager = options.groupManager;
+        this._fileProcessor = options.fileProcessor;
     }
 
     async encrypt(data: Data) {
+        if (this.readOnly) {
+            throw new GroupError(
+                GroupErrorCode.PermissionDenied,
+                'Current user was removed from the group and cannot encrypt messages for it',
+            );
+        }
         const shouldReturnString = isString(data);
         const privateKey = await this._privateKeyLoader.loadLocalPrivateKey();
         if (!privateKey) {
             throw new MissingPrivateKeyError();
         }
 
-        const encrypted = this._session.encrypt(data, privateKey);
+        const encrypted = this._session.encrypt(
+            this.senderKeys
+                ? await this._groupManager.encryptWithSenderKey(
+                      this._session.getSessionId(),
+                      this._session.getCurrentEpochNumber(),
+                      this.participants,
+                      data,
+                  )
+                : data,
+            privateKey,
+        );
         return shouldReturnString ? encrypted.toString('base64') : encrypted;
     }
 
@@ -118,6 +223,15 @@ export class Group {
                 MAX_EPOCHS_IN_GROUP_SESSION
             ) {
                 decrypted = this._session.decrypt(messageData, actualCard.publicKey);
+                const senderKeyMessage = this.senderKeys && decodeSenderKeyMessage(decrypted);
+                if (senderKeyMessage) {
+                    decrypted = await this._groupManager.decryptWithSenderKey(
+                        messageSessionId,
+                        messageEpochNumber,
+                        actualCard,
+                        senderKeyMessage,
+                    );
+                }
             } else {
                 const tempGroup = await this._groupManager.retrieve(
                     messageSessionId,
@@ -129,7 +243,7 @@ export class Group {
                         `Group with given id was not found in local storage. Try to load it first.`,
                     );
                 }
-                decrypted = tempGroup.decrypt(encryptedData, actualCard);
+                decrypted = await tempGroup.decrypt(encryptedData, actualCard);
             }
             return shouldReturnString ? decrypted.toString('utf8') : decrypted;
         } catch (err) {
@@ -144,20 +258,228 @@ export class Group {
         }
     }
 
+    /**
+     * Encrypts the file with the group session in chunks, so the file can be decrypted by every
+     * participant of the group with {@link Group.decryptFile}. Takes `File` or `Blob` in
+     * browsers, a path to the file or a function returning a `Readable` stream in Node.js and
+     * the bytes of the file on every platform. Resolves with `Blob`, `Readable` stream or
+     * `Buffer` respectively. You can define chunk size and a callback, that will be invoked on
+     * each chunk.
+     */
+    async encryptFile(file: Blob, options?: GroupEncryptFileOptions): Promise<Blob>;
+    async encryptFile(
+        file: string | (() => import('stream').Readable),
+        options?: GroupEncryptFileOptions,
+    ): Promise<import('stream').Readable>;
+    async encryptFile(file: Uint8Array, options?: GroupEncryptFileOptions): Promise<NodeBuffer>;
+    async encryptFile(file: unknown, options: GroupEncryptFileOptions = {}): Promise<unknown> {
+        if (this.readOnly) {
+            throw new GroupError(
+                GroupErrorCode.PermissionDenied,
+                'Current user was removed from the group and cannot encrypt files for it',
+            );
+        }
+        const chunkSize = options.chunkSize ? options.chunkSize : 64 * 1024;
+        if (!Number.isInteger(chunkSize)) throw TypeError('chunkSize should be an integer value');
+        const privateKey = await this._privateKeyLoader.loadLocalPrivateKey();
+        if (!privateKey) throw new RegisterRequiredError();
+
+        const fileProcessor = this.getFileProcessor(file);
+        const reader = await fileProcessor.openFile(file, chunkSize);
+        const fileId = this._virgilCrypto.getRandomBytes(GROUP_FILE_ID_SIZE);
+        let chunk = await reader.read();
+        let index = 0;
+        let bytesProcessed = 0;
+        let isHeaderRead = false;
+        let isLastRead = false;
+
+        const read = async () => {
+            try {
+                if (options.signal && options.signal.aborted) throw new AbortError();
+                if (!isHeaderRead) {
+                    isHeaderRead = true;
+                    return encodeGroupFileHeader(fileId);
+                }
+                if (isLastRead) return null;
+                // the chunk is encrypted once the next one is read to know if it is the last one
+                const data = chunk || new Uint8Array(0);
+                chunk = chunk && (await reader.read());
+                isLastRead = !chunk;
+                const encryptedChunk = (await this.encrypt(
+                    encodeGroupFileChunk(fileId, data, index++, isLastRead),
+                )) as NodeBuffer;
+                bytesProcessed += data.length;
+                if (options.onProgress) {
+                    options.onProgress({ fileSize: reader.size, bytesProcessed });
+                }
+                return Buffer.concat([
+                    encodeGroupFileChunkLength(encryptedChunk.length),
+                    encryptedChunk,
+                ]);
+            } catch (err) {
+                reader.close();
+                throw err;
+            }
+        };
+        return fileProcessor.createFile(file, read, true);
+    }
+
+    /**
+     * Decrypts the file encrypted with {@link Group.encryptFile}. Takes the same kinds of files
+     * as {@link Group.encryptFile} and resolves with `ReadableStream` in browsers, `Readable`
+     * stream in Node.js or `Buffer` for the bytes of the file. The chunks are decrypted as
+     * the result is read with {@link Group.decrypt}, so the same checks of the group session and
+     * epoch apply.
+     */
+    async decryptFile(
+        file: Blob,
+        senderCard: ICard,
+        options?: GroupDecryptFileOptions,
+    ): Promise<ReadableStream<Uint8Array>>;
+    async decryptFile(
+        file: string | (() => import('stream').Readable),
+        senderCard: ICard,
+        options?: GroupDecryptFileOptions,
+    ): Promise<import('stream').Readable>;
+    async decryptFile(
+        file: Uint8Array,
+        senderCard: ICard,
+        options?: GroupDecryptFileOptions,
+    ): Promise<NodeBuffer>;
+    async decryptFile(
+        file: unknown,
+        senderCard: ICard,
+        options: GroupDecryptFileOptions = {},
+    ): Promise<unknown> {
+        if (!isVirgilCard(senderCard)) {
+            throw new TypeError(
+                'Cannot decrypt file. Second argument must be a Virgil Card object.',
+            );
+        }
+        const chunkSize = options.chunkSize ? options.chunkSize : 64 * 1024;
+        if (!Number.isInteger(chunkSize)) throw TypeError('chunkSize should be an integer value');
+        const privateKey = await this._privateKeyLoader.loadLocalPrivateKey();
+        if (!privateKey) throw new RegisterRequiredError();
+
+        const fileProcessor = this.getFileProcessor(file);
+        const reader = await fileProcessor.openFile(file, chunkSize);
+        const decoder = new GroupFileDecoder();
+        let index = 0;
+        let bytesProcessed = 0;
+        let isLastRead = false;
+
+        const readEncryptedChunk = async () => {
+            let encryptedChunk = decoder.next();
+            while (!encryptedChunk) {
+                const data = await reader.read();
+                if (!data) throw new IntegrityCheckFailedError('Encrypted file is truncated.');
+                bytesProcessed += data.length;
+                decoder.write(data);
+                encryptedChunk = decoder.next();
+            }
+            return encryptedChunk;
+        };
+
+        const read = async () => {
+            try {
+                while (!isLastRead) {
+                    if (options.signal && options.signal.aborted) throw new AbortError();
+                    const encryptedChunk = await readEncryptedChunk();
+                    const decryptedChunk = (await this.decrypt(
+                        encryptedChunk,
+                        senderCard,
+                        options.encryptedAt,
+                    )) as NodeBuffer;
+                    const chunk = decodeGroupFileChunk(
+                        decoder.getFileId() as Uint8Array,
+                        decryptedChunk,
+                        index++,
+                    );
+                    isLastRead = chunk.isLast;
+                    if (isLastRead && (decoder.hasData || (await reader.read()))) {
+                        throw new IntegrityCheckFailedError('Encrypted file is corrupted.');
+                    }
+                    if (options.onProgress) {
+                        options.onProgress({ fileSize: reader.size, bytesProcessed });
+                    }
+                    if (chunk.data.length) return chunk.data;
+                }
+                return null;
+            } catch (err) {
+                reader.close();
+                throw err;
+            }
+        };
+        return fileProcessor.createFile(file, read, false);
+    }
+
+    /**
+     * Pulls the latest state of the group from the cloud after retrying the changes of the group
+     * that failed to be made in the cloud. If called by the initiator or an admin, re-adds
+     * the participants who rotated their keys since the group tickets were encrypted for them.
+     * If called by the initiator, also removes the participants who left the group with
+     * {@link Group.leave}.
+     */
     async update() {
         const sessionId = this._session.getSessionId();
+        await this._groupManager.retryOperations(sessionId);
         const initiatorCards = await this._cardManager.searchCards(this.initiator);
         if (initiatorCards.length === 0) {
             throw new UsersNotFoundError([this.initiator]);
         }
-        const group = await this._groupManager.pull(sessionId, initiatorCards[0]);
+        let group: Group;
+        try {
+            group = await this._groupManager.pull(sessionId, initiatorCards[0]);
+        } catch (error) {
+            if (error instanceof GroupError && error.errorCode === GroupErrorCode.NoAccess) {
+                const keptGroup = await this._groupManager.retrieve(sessionId);
+                this.readOnly = Boolean(keptGroup && keptGroup.readOnly);
+            }
+            throw error;
+        }
         this._session = group._session;
+        this.readOnly = group.readOnly;
+        this.senderKeys = group.senderKeys;
+        this.initiator = group.initiator;
+        this.admins = group.admins;
         this.participants = group.participants;
+        this.groupId = group.groupId;
+        this.metadata = group.metadata;
+
+        if (!this.isEditable()) {
+            return;
+        }
+        let participantCards = await this.searchParticipantCards(this.participants);
+        if (this.initiator === this.selfIdentity) {
+            const leavingIdentities = await this._groupManager.retrieveLeaveRequests(
+                sessionId,
+                participantCards,
+            );
+            if (leavingIdentities.length > 0) {
+                const isLeaving = (identity: string) => leavingIdentities.indexOf(identity) !== -1;
+                if (this.admins.some(isLeaving)) {
+                    await this.changeRoles(
+                        this.initiator,
+                        this.admins.filter(admin => !isLeaving(admin)),
+                    );
+                }
+                const leavingCards: FindUserDevicesResult = {};
+                for (const card of participantCards.filter(card => isLeaving(card.identity))) {
+                    leavingCards[card.identity] = (leavingCards[card.identity] || []).concat(card);
+                }
+                await this.remove(leavingCards);
+                participantCards = participantCards.filter(card => !isLeaving(card.identity));
+            }
+        }
+        await this._groupManager.reAddRotatedParticipants(sessionId, participantCards);
     }
 
     async add(participantCard: ICard): Promise<void>;
     async add(participantCards: FindUsersResult): Promise<void>;
-    async add(cardOrFindUsersResult: ICard | FindUsersResult): Promise<void> {
+    async add(participantCards: FindUserDevicesResult): Promise<void>;
+    async add(
+        cardOrFindUsersResult: ICard | FindUsersResult | FindUserDevicesResult,
+    ): Promise<void> {
         const cardsToAdd = getCardsArray(cardOrFindUsersResult);
         if (cardsToAdd.length === 0) {
             throw new TypeError(
@@ -168,7 +490,7 @@ export class Group {
         if (!this.isEditable()) {
             throw new GroupError(
                 GroupErrorCode.PermissionDenied,
-                'Only group initiator can add participants to the group',
+                'Only group initiator or admins can add participants to the group',
             );
         }
 
@@ -177,21 +499,36 @@ export class Group {
             new Set(this.participants),
         );
         const newParticipantCount = missingIdentities.size + this.participants.length;
-        if (!isValidParticipantCount(newParticipantCount)) {
+        if (!isValidParticipantCount(newParticipantCount, this._large)) {
+            const [minParticipantCount, maxParticipantCount] = getParticipantCountRange(
+                this._large,
+            );
             throw new GroupError(
                 GroupErrorCode.InvalidChangeParticipants,
-                `Cannot add ${missingIdentities.size} participant(s) to the group that has ${this.participants.length} participants. Group can have ${VALID_GROUP_PARTICIPANT_COUNT_RANGE[0]} to ${VALID_GROUP_PARTICIPANT_COUNT_RANGE[1]} participants.`,
+                `Cannot add ${missingIdentities.size} participant(s) to the group that has ${this.participants.length} participants. Group can have ${minParticipantCount} to ${maxParticipantCount} participants.`,
             );
         }
         const missingCards = cardsToAdd.filter(c => missingIdentities.has(c.identity));
 
+        await this._groupManager.host(this._session.getSessionId());
         await this._groupManager.addAccess(this._session.getSessionId(), missingCards);
         this.participants = [...this.participants, ...missingIdentities];
+        if (this.senderKeys) {
+            // the sender key chains are shared with the participants of the epoch only, so
+            // the added participants get the chains of the new epoch
+            const participantCards = await this.searchParticipantCards(this.participants);
+            const epochMessage = this._session.addNewEpoch();
+            const ticket = { groupSessionMessage: epochMessage, participants: this.participants };
+            await this._groupManager.store(ticket, participantCards);
+        }
     }
 
     async remove(participantCard: ICard): Promise<void>;
     async remove(participantCards: FindUsersResult): Promise<void>;
-    async remove(cardOrFindUsersResult: ICard | FindUsersResult): Promise<void> {
+    async remove(participantCards: FindUserDevicesResult): Promise<void>;
+    async remove(
+        cardOrFindUsersResult: ICard | FindUsersResult | FindUserDevicesResult,
+    ): Promise<void> {
         const cardsToRemove = getCardsArray(cardOrFindUsersResult);
         if (cardsToRemove.length === 0) {
             throw new TypeError(
@@ -202,25 +539,34 @@ export class Group {
         if (!this.isEditable()) {
             throw new GroupError(
                 GroupErrorCode.PermissionDenied,
-                'Only group initiator can remove participants from the group',
+                'Only group initiator or admins can remove participants from the group',
+            );
+        }
+
+        const identitiesToRemove = new Set(cardsToRemove.map(c => c.identity));
+        const isRemovingManager =
+            identitiesToRemove.has(this.initiator) ||
+            this.admins.some(admin => identitiesToRemove.has(admin));
+        if (this.initiator !== this.selfIdentity && isRemovingManager) {
+            throw new GroupError(
+                GroupErrorCode.PermissionDenied,
+                'Only group initiator can remove admins from the group',
             );
         }
 
         const oldIdentities = new Set(this.participants);
-        const newIdentities = setDifference(
-            new Set(this.participants),
-            new Set(cardsToRemove.map(c => c.identity)),
-        );
+        const newIdentities = setDifference(new Set(this.participants), identitiesToRemove);
 
-        if (!isValidParticipantCount(newIdentities.size)) {
+        if (!isValidParticipantCount(newIdentities.size, this._large)) {
+            const [minParticipantCount, maxParticipantCount] = getParticipantCountRange(
+                this._large,
+            );
             throw new GroupError(
                 GroupErrorCode.InvalidChangeParticipants,
                 `Cannot remove ${oldIdentities.size -
                     newIdentities.size} participant(s) from the group that has ${
                     oldIdentities.size
-                } participants. Group can have ${VALID_GROUP_PARTICIPANT_COUNT_RANGE[0]} to ${
-                    VALID_GROUP_PARTICIPANT_COUNT_RANGE[1]
-                } participants.`,
+                } participants. Group can have ${minParticipantCount} to ${maxParticipantCount} participants.`,
             );
         }
 
@@ -232,15 +578,45 @@ export class Group {
             );
         }
 
-        const newCards = await this._cardManager.searchCards([...newIdentities]);
+        await this._groupManager.host(this._session.getSessionId());
+        const newCards = await this.searchParticipantCards([...newIdentities]);
         const epochMessage = this._session.addNewEpoch();
         const ticket = { groupSessionMessage: epochMessage, participants: [...newIdentities] };
-        await this._groupManager.store(ticket, newCards);
-        newIdentities.add(this.initiator);
+        // the new ticket and the revocation of the access of the removed participants are
+        // recorded together, so the removal interrupted halfway is finished by `update`
         this.participants = [...newIdentities];
+        await this._groupManager.store(ticket, newCards);
+    }
+
+    /**
+     * Deletes the tickets of the past epochs stored on the device according to the policy,
+     * the {@link EThreeInitializeOptions.groupRetentionPolicy} by default. The messages of
+     * the pruned epochs can't be decrypted on the device anymore, while the other participants
+     * keep their tickets. Returns the pruned epochs.
+     */
+    async prune(policy?: GroupRetentionPolicy) {
+        const sessionId = this._session.getSessionId();
+        const epochNumbers = await this._groupManager.prune(sessionId, policy);
+        if (epochNumbers.length > 0) {
+            const group = await this._groupManager.retrieve(sessionId);
+            if (group) this._session = group._session;
+        }
+        return epochNumbers;
+    }
 
-        const removedIdentities = setDifference(oldIdentities, newIdentities);
-        await this._groupManager.removeAccess(this._session.getSessionId(), [...removedIdentities]);
+    /**
+     * Returns the identities of the removed participants who still have access to the tickets
+     * of the previous epochs because the removal was interrupted. The removal is finished by
+     * {@link Group.update}.
+     */
+    async getResidualAccess() {
+        const operations = await this._groupManager.retrieveOperations(
+            this._session.getSessionId(),
+        );
+        const identities = operations
+            .filter(operation => operation.type === 'removeAccess')
+            .map(operation => operation.removed);
+        return [...new Set(([] as string[]).concat(...identities))];
     }
 
     async reAdd(participantCard: ICard): Promise<void> {
@@ -252,14 +628,185 @@ export class Group {
         if (!this.isEditable()) {
             throw new GroupError(
                 GroupErrorCode.PermissionDenied,
-                'Only group initiator can add or remove participants from the group',
+                'Only group initiator or admins can add or remove participants from the group',
             );
         }
 
+        await this._groupManager.host(this._session.getSessionId());
         await this._groupManager.reAddAccess(this._session.getSessionId(), participantCard);
     }
 
+    /**
+     * Removes the current user from the group. The local copy of the group is deleted right away,
+     * while the group initiator removes the user from the group on the next {@link Group.update}.
+     * Can't be called by the group initiator.
+     */
+    async leave() {
+        if (this.initiator === this.selfIdentity) {
+            throw new GroupError(
+                GroupErrorCode.PermissionDenied,
+                'Group initiator cannot leave the group. Transfer the ownership or delete the group instead',
+            );
+        }
+        const managerCards = await this.searchParticipantCards(
+            [this.initiator, ...this.admins].filter(identity => identity !== this.selfIdentity),
+        );
+        await this._groupManager.leave(this._session.getSessionId(), managerCards);
+    }
+
+    /**
+     * Appoints the participants as group admins. Can be called only by the group initiator.
+     */
+    async addAdmins(participantCard: ICard): Promise<void>;
+    async addAdmins(participantCards: FindUsersResult): Promise<void>;
+    async addAdmins(participantCards: FindUserDevicesResult): Promise<void>;
+    async addAdmins(
+        cardOrFindUsersResult: ICard | FindUsersResult | FindUserDevicesResult,
+    ): Promise<void> {
+        const identities = this.getParticipantIdentities(cardOrFindUsersResult, 'add admins');
+        const admins = [...new Set([...this.admins, ...identities])].filter(
+            identity => identity !== this.initiator,
+        );
+        await this.changeRoles(this.initiator, admins);
+    }
+
+    /**
+     * Revokes the admin role from the participants. Can be called only by the group initiator.
+     */
+    async removeAdmins(participantCard: ICard): Promise<void>;
+    async removeAdmins(participantCards: FindUsersResult): Promise<void>;
+    async removeAdmins(participantCards: FindUserDevicesResult): Promise<void>;
+    async removeAdmins(
+        cardOrFindUsersResult: ICard | FindUsersResult | FindUserDevicesResult,
+    ): Promise<void> {
+        const identities = this.getParticipantIdentities(cardOrFindUsersResult, 'remove admins');
+        const admins = this.admins.filter(admin => identities.indexOf(admin) === -1);
+        await this.changeRoles(this.initiator, admins);
+    }
+
+    /**
+     * Makes the participant the new initiator of the group. The current initiator becomes
+     * an admin. Can be called only by the group initiator.
+     */
+    async transferOwnership(participantCard: ICard): Promise<void> {
+        if (!isVirgilCard(participantCard)) {
+            throw new TypeError(
+                'Failed to transfer ownership. First argument must be a Virgil Card object',
+            );
+        }
+        const [newInitiator] = this.getParticipantIdentities(participantCard, 'transfer ownership');
+        const admins = [...this.admins, this.initiator].filter(
+            identity => identity !== newInitiator,
+        );
+        await this.changeRoles(newInitiator, admins);
+    }
+
+    /**
+     * Returns the role of the participant in the group, the role of the current user if
+     * the identity is not given.
+     */
+    getRole(identity: string = this.selfIdentity): GroupRole {
+        return getGroupRole(
+            { version: 0, initiator: this.initiator, admins: this.admins },
+            identity,
+        );
+    }
+
+    /**
+     * Replaces the application data of the group stored on the device. The metadata is not
+     * shared with the other participants.
+     */
+    async setMetadata(metadata: GroupMetadata) {
+        await this._groupManager.setMetadata(this._session.getSessionId(), metadata);
+        this.metadata = metadata;
+    }
+
+    /**
+     * Returns the changes of the group participants made by the initiator and the admins,
+     * oldest first. Every change is signed by the participant who made it.
+     */
+    async getHistory(): Promise<GroupHistoryEntry[]> {
+        return this._groupManager.retrieveHistory(this._session.getSessionId(), [
+            this.initiator,
+            ...this.admins,
+        ]);
+    }
+
+    /**
+     * Adds the listener of the changes of the group made by other participants. The changes are
+     * pulled by {@link Group.update} and {@link AbstractEThree.syncGroups}. The listeners are
+     * shared by all the instances of the group.
+     */
+    on<T extends GroupEventType>(type: T, listener: GroupEventListener<T>) {
+        this._groupManager.addListener(this._session.getSessionId(), type, listener);
+    }
+
+    /**
+     * Removes the listener added with {@link Group.on}.
+     */
+    off<T extends GroupEventType>(type: T, listener: GroupEventListener<T>) {
+        this._groupManager.removeListener(this._session.getSessionId(), type, listener);
+    }
+
     isEditable() {
-        return this.initiator === this.selfIdentity;
+        return (
+            !this.readOnly &&
+            (this.initiator === this.selfIdentity || this.admins.indexOf(this.selfIdentity) !== -1)
+        );
+    }
+
+    private getParticipantIdentities(
+        cardOrFindUsersResult: ICard | FindUsersResult | FindUserDevicesResult,
+        action: string,
+    ) {
+        const cards = getCardsArray(cardOrFindUsersResult);
+        if (cards.length === 0) {
+            throw new TypeError(
+                `Failed to ${action}. First argument must be the result of "eThree.findUsers" method`,
+            );
+        }
+        if (this.initiator !== this.selfIdentity) {
+            throw new GroupError(
+                GroupErrorCode.PermissionDenied,
+                `Only group initiator can ${action}`,
+            );
+        }
+        const identities = [...new Set(cards.map(card => card.identity))];
+        if (identities.some(identity => this.participants.indexOf(identity) === -1)) {
+            throw new GroupError(
+                GroupErrorCode.InvalidChangeParticipants,
+                `Failed to ${action}. Only group participants can be group admins or initiator`,
+            );
+        }
+        return identities;
+    }
+
+    private async changeRoles(initiator: string, admins: string[]) {
+        const sessionId = this._session.getSessionId();
+        await this._groupManager.host(sessionId);
+        const participantCards = await this.searchParticipantCards(
+            this.participants.filter(identity => identity !== this.selfIdentity),
+        );
+        await this._groupManager.storeRoles(sessionId, { initiator, admins }, participantCards);
+        this.initiator = initiator;
+        this.admins = admins;
+    }
+
+    private getFileProcessor(file: unknown) {
+        if (file instanceof Uint8Array) {
+            return bytesGroupFileProcessor;
+        }
+        if (!this._fileProcessor) {
+            throw new TypeError('Expected the file to be a byte array');
+        }
+        return this._fileProcessor;
+    }
+
+    private async searchParticipantCards(participants: string[]) {
+        const participantCards: ICard[] = [];
+        for (const identities of chunkArray(participants, MAX_IDENTITIES_TO_SEARCH)) {
+            participantCards.push(...(await this._cardManager.searchCards(identities)));
+        }
+        return participantCards;
     }
 }
@@ -2,6 +2,20 @@ export { AbstractEThree } from './AbstractEThree';
 export * from './constants';
 export * from './errors';
 export { PrivateKeyLoader } from './PrivateKeyLoader';
+export { KeyknoxKeyBackupProvider } from './KeyknoxKeyBackupProvider';
+export { InMemoryKeyBackupProvider } from './InMemoryKeyBackupProvider';
+export { InMemoryGroupTicketTransport } from './InMemoryGroupTicketTransport';
+export { InMemoryRatchetPreKeyServer } from './InMemoryRatchetPreKeyServer';
+export { RatchetChannel } from './ratchet/RatchetChannel';
+export { Group } from './groups/Group';
+export {
+    PasswordKeyBackupProvider,
+    PasswordKeyBackupProviderOptions,
+    PasswordKeyBackup,
+} from './PasswordKeyBackupProvider';
+export { ScryptParams } from './scrypt';
+export { DeviceLink } from './DeviceLink';
+export { getCardDeviceId } from './utils/card';
 export {
     NodeBuffer,
     Data,
@@ -17,11 +31,50 @@ export {
     IKeyEntry,
     EThreeInitializeOptions,
     EThreeCtorOptions,
+    KeyBackupProvider,
+    PasswordKeyDerivation,
+    ExportedPrivateKey,
+    DeviceLinkTransport,
+    LinkDeviceOptions,
     LookupResult,
     EncryptPublicKeyArg,
     FindUsersResult,
+    FindUserDevicesResult,
+    FindUsersOptions,
     Ticket,
     GroupInfo,
+    GroupId,
+    GroupMetadata,
+    GroupRole,
+    GroupRoles,
+    SignedGroupRoles,
+    CreateGroupOptions,
+    GroupHistoryEntry,
+    GroupSummary,
+    GroupOperation,
+    GroupOperationType,
+    GroupRetentionPolicy,
+    GroupTicket,
+    GroupTicketTransport,
+    GroupTicketTransportOptions,
+    GroupTicketTransportFactory,
+    GroupEvent,
+    GroupEventType,
+    GroupEventListener,
+    GroupEpochChangedEvent,
+    GroupParticipantsChangedEvent,
+    GroupAccessRevokedEvent,
+    RatchetPreKey,
+    RatchetInvitation,
+    RatchetPreKeyServer,
+    RatchetPreKeyServerOptions,
+    RatchetPreKeyServerFactory,
     RawGroup,
+    onGroupFileProgressCallback,
+    onGroupFileProgressSnapshot,
+    GroupEncryptFileOptions,
+    GroupDecryptFileOptions,
+    GroupFileReader,
+    GroupFileProcessor,
 } from './types';
 export { GroupLocalStorage } from './GroupLocalStorage';
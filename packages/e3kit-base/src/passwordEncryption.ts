@@ -0,0 +1,89 @@
+import { WrongPasswordError } from './errors';
+import { scrypt, ScryptParams } from './scrypt';
+import { Data, ICrypto, PasswordKeyDerivation } from './types';
+
+const SALT_LENGTH = 32;
+const KEY_MATERIAL_LENGTH = 32;
+
+/**
+ * @hidden
+ */
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { N: 2 ** 15, r: 8, p: 1 };
+
+const hexToBytes = (hex: string) => {
+    const result = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < result.length; i++) {
+        result[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return result;
+};
+
+const deriveKeyPair = async (
+    virgilCrypto: ICrypto,
+    password: string,
+    salt: Uint8Array,
+    params: ScryptParams,
+) => {
+    const keyMaterial = await scrypt(
+        virgilCrypto.calculateHash({ value: password, encoding: 'utf8' }, 'SHA256'),
+        salt,
+        params,
+        KEY_MATERIAL_LENGTH,
+    );
+    return virgilCrypto.generateKeysFromKeyMaterial(keyMaterial);
+};
+
+/**
+ * @hidden
+ *
+ * Encrypts the data with the key derived from the password. Returns the parameters of the key
+ * derivation and the encrypted data in base64 encoding.
+ */
+export async function encryptWithPassword(
+    virgilCrypto: ICrypto,
+    data: Data,
+    password: string,
+    scryptParams: ScryptParams = DEFAULT_SCRYPT_PARAMS,
+) {
+    const salt = virgilCrypto.getRandomBytes(SALT_LENGTH);
+    const keyPair = await deriveKeyPair(virgilCrypto, password, salt, scryptParams);
+    const kdf: PasswordKeyDerivation = {
+        algorithm: 'scrypt',
+        salt: salt.toString('hex'),
+        N: scryptParams.N,
+        r: scryptParams.r,
+        p: scryptParams.p,
+    };
+    const encryptedData = virgilCrypto.encrypt(data, keyPair.publicKey).toString('base64');
+    return { kdf, encryptedData };
+}
+
+/**
+ * @hidden
+ *
+ * Decrypts the data encrypted with {@link encryptWithPassword}. Throws `WrongPasswordError` if
+ * the password is wrong.
+ */
+export async function decryptWithPassword(
+    virgilCrypto: ICrypto,
+    kdf: PasswordKeyDerivation,
+    encryptedData: string,
+    password: string,
+) {
+    if (!kdf || kdf.algorithm !== 'scrypt') {
+        throw new TypeError(`Unsupported key derivation function: ${kdf && kdf.algorithm}`);
+    }
+    const { salt, N, r, p } = kdf;
+    const keyPair = await deriveKeyPair(virgilCrypto, password, hexToBytes(salt), { N, r, p });
+    try {
+        return virgilCrypto.decrypt(
+            { value: encryptedData, encoding: 'base64' },
+            keyPair.privateKey,
+        );
+    } catch (e) {
+        if (e.name === 'FoundationError' || e.name === 'RNVirgilCryptoError') {
+            throw new WrongPasswordError();
+        }
+        throw e;
+    }
+}
@@ -0,0 +1,65 @@
+import { Data, NodeBuffer } from '../types';
+import { RatchetManager } from '../RatchetManager';
+import { isString } from '../typeguards';
+
+const toRatchetMessage = (data: Data) => {
+    if (isString(data)) {
+        return Buffer.from(data, 'base64');
+    }
+    if (data instanceof Uint8Array) {
+        return data;
+    }
+    if (data.encoding === 'base64') {
+        return Buffer.from(data.value, 'base64');
+    }
+    throw new TypeError('Expected the message to be a base64 string or a byte array');
+};
+
+/**
+ * One-to-one channel with the other user. Every message is encrypted with its own key derived
+ * with the double ratchet, and the key is deleted once the message is decrypted, so the past
+ * messages remain secret even if the keys of the device are compromised later. Each message
+ * can be decrypted only once, by the participant of the channel.
+ */
+export class RatchetChannel {
+    /**
+     * Identity of the other user of the channel.
+     */
+    participant: string;
+
+    private _ratchetManager: RatchetManager;
+
+    constructor(options: { participant: string; ratchetManager: RatchetManager }) {
+        this.participant = options.participant;
+        this._ratchetManager = options.ratchetManager;
+    }
+
+    /**
+     * Encrypts the data for the participant. Resolves with the base64 string if `data` is
+     * a string, and with the bytes otherwise.
+     */
+    async encrypt(data: Data): Promise<Uint8Array | string> {
+        const encrypted = await this._ratchetManager.encrypt(this.participant, data);
+        return isString(data) ? encrypted.toString('base64') : encrypted;
+    }
+
+    /**
+     * Decrypts the message of the participant. Resolves with the string if `data` is a string,
+     * and with the buffer otherwise.
+     */
+    async decrypt(data: Data): Promise<NodeBuffer | string> {
+        const decrypted = await this._ratchetManager.decrypt(
+            this.participant,
+            toRatchetMessage(data),
+        );
+        return isString(data) ? decrypted.toString('utf8') : decrypted;
+    }
+
+    /**
+     * Deletes the channel from the device. The messages of the channel can't be decrypted
+     * anymore.
+     */
+    async delete() {
+        await this._ratchetManager.delete(this.participant);
+    }
+}
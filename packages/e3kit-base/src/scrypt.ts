@@ -0,0 +1,33 @@
+import { scrypt as scryptJs } from 'scrypt-js';
+
+/**
+ * Parameters of scrypt key derivation function.
+ */
+export interface ScryptParams {
+    /**
+     * CPU/memory cost parameter. Must be a power of 2 greater than 1.
+     */
+    N: number;
+    /**
+     * Block size parameter.
+     */
+    r: number;
+    /**
+     * Parallelization parameter.
+     */
+    p: number;
+}
+
+/**
+ * @hidden
+ *
+ * Derives the key from the password with scrypt key derivation function as defined in RFC 7914.
+ */
+export async function scrypt(
+    password: Uint8Array,
+    salt: Uint8Array,
+    { N, r, p }: ScryptParams,
+    keyLength: number,
+) {
+    return scryptJs(password, salt, N, r, p, keyLength);
+}
@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { ICard, FindUsersResult, LookupResult } from './types';
+import { ICard, FindUsersResult, FindUserDevicesResult, LookupResult } from './types';
 import { getObjectValues } from './array';
 
 /**
@@ -42,6 +42,18 @@ export function isFindUsersResult(obj: any): obj is FindUsersResult {
     return values.every(val => isVirgilCard(val));
 }
 
+/**
+ * @hidden
+ */
+export function isFindUserDevicesResult(obj: any): obj is FindUserDevicesResult {
+    if (!isObject(obj)) return false;
+
+    const values = getObjectValues(obj);
+    if (values.length === 0) return false;
+
+    return values.every(val => isArray(val) && val.length > 0 && val.every(isVirgilCard));
+}
+
 /**
  * @hidden
  */
@@ -1,5 +1,6 @@
 export type NodeBuffer = import('@virgilsecurity/crypto-types').NodeBuffer;
 export type Data = import('@virgilsecurity/crypto-types').Data;
+export type StringWithEncoding = import('@virgilsecurity/crypto-types').StringWithEncoding;
 export type IKeyPair = import('@virgilsecurity/crypto-types').IKeyPair;
 export type IPrivateKey = import('@virgilsecurity/crypto-types').IPrivateKey;
 export type IPublicKey = import('@virgilsecurity/crypto-types').IPublicKey;
@@ -14,6 +15,8 @@ export type IKeyEntryStorage = import('virgil-sdk').IKeyEntryStorage;
 export type ICard = import('virgil-sdk').ICard;
 export type IKeyEntry = import('virgil-sdk').IKeyEntry;
 
+export type GroupTicket = import('@virgilsecurity/keyknox').GroupTicket;
+
 export interface EThreeInitializeOptions {
     /**
      * Implementation of IKeyEntryStorage. Used IndexedDB Key Storage from
@@ -42,6 +45,100 @@ export interface EThreeInitializeOptions {
      * Key type that will be used for key generation. Default is ED25519.
      */
     keyPairType?: any;
+
+    /**
+     * Implementation of KeyBackupProvider used to backup and restore the private key. Private key
+     * is backed up to Virgil Keyknox Storage by default.
+     */
+    keyBackupProvider?: KeyBackupProvider;
+
+    /**
+     * Identifier of the current device. Enables multi-device mode, in which each device of the user
+     * has its own private key and Virgil Card tagged with the device identifier, instead of sharing
+     * a single private key and Virgil Card between all devices.
+     */
+    deviceId?: string;
+
+    /**
+     * Keeps the local copy of the group after the current user is removed from it, so the messages
+     * of the epochs the user was a participant of remain decryptable. The kept group is read-only,
+     * see {@link Group.readOnly}. The group is deleted by default.
+     */
+    keepRemovedGroups?: boolean;
+
+    /**
+     * Limits the number of the group epochs stored on the device. The epochs are pruned every time
+     * the group is stored, all of them are kept by default. See {@link Group.prune}.
+     */
+    groupRetentionPolicy?: GroupRetentionPolicy;
+
+    /**
+     * Creates the transport the group tickets and documents of the current user are stored with.
+     * Allows to host the groups on your own backend. Virgil Keyknox Storage is used by default.
+     */
+    groupTicketTransport?: GroupTicketTransportFactory;
+
+    /**
+     * Creates the server the ratchet pre-keys and the invitations to the ratchet channels of
+     * the current user are exchanged with. Required to use the ratchet channels, see
+     * {@link AbstractEThree.createRatchetChannel}.
+     */
+    ratchetPreKeyServer?: RatchetPreKeyServerFactory;
+}
+
+/**
+ * Policy of pruning the tickets of the past group epochs stored on the device. The ticket of
+ * the latest epoch is always kept. Messages of the pruned epochs can't be decrypted anymore
+ * unless the tickets are restored from the archive.
+ */
+export interface GroupRetentionPolicy {
+    /**
+     * Number of the latest epochs to keep.
+     */
+    maxEpochs?: number;
+    /**
+     * Age of the oldest epoch to keep, in milliseconds since the epoch was stored on the device.
+     */
+    maxAge?: number;
+    /**
+     * Called with the tickets of the epochs to prune before they are deleted, e.g. to move them
+     * to an archive. The tickets are not deleted if the returned promise is rejected.
+     */
+    archive?: (sessionId: string, tickets: Ticket[]) => void | Promise<void>;
+}
+
+/**
+ * Storage of the private key backups protected with the user's password.
+ */
+export interface KeyBackupProvider {
+    /**
+     * Stores the backup of the private key protected with the password. Rejects if the backup
+     * for the identity already exists.
+     * @param identity - Identity of the user.
+     * @param privateKeyData - Private key exported in base64 encoding.
+     * @param password - Password that protects the backup.
+     */
+    store(identity: string, privateKeyData: string, password: string): Promise<void>;
+    /**
+     * Retrieves the private key from the backup. Rejects with `PrivateKeyNoBackupError` if there
+     * is no backup for the identity and with `WrongPasswordError` if the password is wrong.
+     * @returns Private key exported in base64 encoding.
+     */
+    retrieve(identity: string, password: string): Promise<string>;
+    /**
+     * Deletes the backup of the private key. Rejects with `PrivateKeyNoBackupError` if there
+     * is no backup for the identity.
+     */
+    delete(identity: string, password: string): Promise<void>;
+    /**
+     * Deletes all the backups of the user without a password.
+     */
+    reset(identity: string): Promise<void>;
+    /**
+     * Protects the backup of the private key with the new password. The backup protected with
+     * the old password must stay in place if the new one fails to be stored.
+     */
+    changePassword(identity: string, oldPassword: string, newPassword: string): Promise<void>;
 }
 
 /**
@@ -77,16 +174,734 @@ export type FindUsersResult = {
     [identity: string]: ICard;
 };
 
+/**
+ * Dictionary returned from {@link Ethree.findUsers} method when searching for all devices of
+ * multiple users. Contains all active Virgil Cards of each user.
+ */
+export type FindUserDevicesResult = {
+    [identity: string]: ICard[];
+};
+
+/**
+ * Options of {@link EThree.findUsers}.
+ */
+export interface FindUsersOptions {
+    /**
+     * Indicates whether to return all active Virgil Cards of each user, one card per device of the
+     * users in multi-device mode, instead of throwing `UsersFoundWithMultipleCardsError`.
+     */
+    allDevices: true;
+}
+
 export interface Ticket {
     groupSessionMessage: IGroupSessionMessageInfo;
     participants: string[];
 }
 
+/**
+ * Role of the group participant. The initiator owns the group and manages its admins, the admins
+ * and the initiator can add and remove participants, the members can only read and write messages.
+ */
+export type GroupRole = 'initiator' | 'admin' | 'member';
+
+/**
+ * Initiator and admins of the group.
+ */
+export interface GroupRoles {
+    /**
+     * Incremented on every change of the roles.
+     */
+    version: number;
+    initiator: string;
+    admins: string[];
+    /**
+     * Whether the group was created with {@link CreateGroupOptions.senderKeys}. Signed along
+     * with the roles, so every participant learns the mode of the group from the initiator.
+     */
+    senderKeys?: boolean;
+}
+
+/**
+ * Group roles serialized to JSON and signed by the identity that changed them.
+ */
+export interface SignedGroupRoles {
+    roles: string;
+    signer: string;
+    signature: string;
+}
+
+/**
+ * Id of the group passed to {@link AbstractEThree.createGroup} or {@link AbstractEThree.loadGroup}.
+ * Binary ids are stored encoded in base64.
+ */
+export type GroupId = string | StringWithEncoding;
+
+/**
+ * Application data of the group, e.g. its display name. Stored only on the device along with
+ * the group tickets.
+ */
+export interface GroupMetadata {
+    name?: string;
+    [key: string]: unknown;
+}
+
 export interface GroupInfo {
     initiator: string;
+    /**
+     * Id of the group the session id is calculated from. Missing for the groups stored before
+     * the id was tracked until they are loaded again.
+     */
+    groupId?: GroupId;
+    metadata?: GroupMetadata;
+    /**
+     * Whether the current user was removed from the group, see
+     * {@link EThreeInitializeOptions.keepRemovedGroups}.
+     */
+    readOnly?: boolean;
+    /**
+     * Identities of the group admins.
+     */
+    admins?: string[];
+    /**
+     * Latest verified group roles. Shared with the participants along with the group tickets.
+     */
+    signedRoles?: SignedGroupRoles;
+    /**
+     * Ids of the Virgil Cards of the participants the group tickets are encrypted for. Tracked by
+     * the initiator to detect participants who rotated their keys.
+     */
+    participantCardIds?: { [identity: string]: string[] };
+    /**
+     * Whether the group was created with {@link CreateGroupOptions.large}.
+     */
+    large?: boolean;
+    /**
+     * Whether the group was created with {@link CreateGroupOptions.senderKeys}.
+     */
+    senderKeys?: boolean;
+    /**
+     * Time each epoch of the group was stored on the device, in milliseconds since the Unix
+     * epoch. Used to prune the epochs by {@link GroupRetentionPolicy.maxAge}.
+     */
+    epochTimestamps?: { [epochNumber: number]: number };
+}
+
+/**
+ * Change of the group participants returned by {@link Group.getHistory}.
+ */
+export interface GroupHistoryEntry {
+    /**
+     * Epoch of the group session the change was made in. Removing participants starts
+     * a new epoch.
+     */
+    epochNumber: number;
+    added: string[];
+    removed: string[];
+    /**
+     * Identity of the initiator or admin who made the change and signed it.
+     */
+    actor: string;
+    timestamp: Date;
+}
+
+export interface CreateGroupOptions {
+    /**
+     * Creates a large group, which can have up to 10000 participants instead of 100. The group
+     * tickets are sharded across several Virgil Keyknox entries, so the participants of a large
+     * group only know the participants of their own shard. The initiator knows all of them.
+     */
+    large?: boolean;
+    /**
+     * Application data of the group, see {@link Group.setMetadata}.
+     */
+    metadata?: GroupMetadata;
+    /**
+     * Encrypts the messages of every participant with their own chain of message keys in
+     * addition to the group session. The chain of the participant is started on their first
+     * message of the epoch and shared with the participants of the epoch in a separate ticket.
+     * Adding or removing the participants starts a new epoch, so the added participants can't
+     * decrypt the messages sent before and the removed ones can't decrypt the messages sent after.
+     *
+     * The key of the message is deleted once the message is decrypted, so every message can be
+     * decrypted once on the device. The sender doesn't keep the keys of their messages, so
+     * the messages encrypted with the chain can't be decrypted by the sender. Can't be used along
+     * with {@link CreateGroupOptions.large}.
+     */
+    senderKeys?: boolean;
 }
 
 export interface RawGroup {
     info: GroupInfo;
     tickets: Ticket[];
 }
+
+/**
+ * Kind of the change of the group in Virgil Cloud.
+ * - `storeTicket` uploads the ticket of the new epoch of the group.
+ * - `addAccess` shares the group tickets with the added participants.
+ * - `removeAccess` revokes the access of the removed participants to the group tickets.
+ * - `reAddAccess` shares the group tickets with the participants who rotated their keys.
+ */
+export type GroupOperationType = 'storeTicket' | 'addAccess' | 'removeAccess' | 'reAddAccess';
+
+/**
+ * Change of the group in Virgil Cloud recorded in the local queue before it's made. The change
+ * stays in the queue until it succeeds, see {@link AbstractEThree.retryGroupOperations}.
+ */
+export interface GroupOperation {
+    id: string;
+    sessionId: string;
+    type: GroupOperationType;
+    /**
+     * Epoch of the group the change was made in.
+     */
+    epochNumber: number;
+    /**
+     * Identities of the participants added or re-added to the group.
+     */
+    added: string[];
+    /**
+     * Identities of the participants removed from the group.
+     */
+    removed: string[];
+    /**
+     * Time the change was recorded, in milliseconds since the Unix epoch.
+     */
+    createdAt: number;
+    /**
+     * Number of the failed attempts to make the change.
+     */
+    attempts: number;
+    /**
+     * Message of the error the last attempt failed with.
+     */
+    lastError?: string;
+}
+
+/**
+ * @hidden
+ *
+ * State of the chain of message keys of the participant in the group epoch, see
+ * {@link CreateGroupOptions.senderKeys}.
+ */
+export interface SenderKeyState {
+    sessionId: string;
+    epochNumber: number;
+    identity: string;
+    /**
+     * Key the key of the next message is derived from, in base64.
+     */
+    chainKey: string;
+    /**
+     * Number of the next message of the chain.
+     */
+    iteration: number;
+    /**
+     * Keys of the skipped messages, by the message number. The key is deleted once the message
+     * is received, the oldest keys are deleted if there are too many of them.
+     */
+    skippedMessageKeys: { [iteration: number]: string };
+    /**
+     * Participants the own chain of the current user is shared with, `null` until the chain
+     * is stored in the cloud.
+     */
+    recipients: string[] | null;
+}
+
+/**
+ * @hidden
+ *
+ * Pre-key of the current user stored on the device along with its private key.
+ */
+export interface RatchetPreKeyEntry {
+    id: string;
+    /**
+     * Private key in base64 encoding.
+     */
+    privateKey: string;
+    /**
+     * Public key in base64 encoding.
+     */
+    publicKey: string;
+}
+
+/**
+ * @hidden
+ *
+ * Chain of the message keys of the ratchet channel.
+ */
+export interface RatchetChain {
+    /**
+     * Key the key of the next message is derived from, in base64.
+     */
+    chainKey: string;
+    /**
+     * Number of the next message of the chain.
+     */
+    counter: number;
+}
+
+/**
+ * @hidden
+ *
+ * State of the ratchet channel of the current user with the participant.
+ */
+export interface RatchetSessionState {
+    participant: string;
+    /**
+     * Key the keys of the next chains are derived from, in base64.
+     */
+    rootKey: string;
+    /**
+     * Ratchet key pair of the current user in base64, `null` until the first chain is started.
+     */
+    privateKey: string | null;
+    publicKey: string | null;
+    /**
+     * Latest ratchet public key of the participant in base64, `null` until the first message
+     * is received.
+     */
+    remotePublicKey: string | null;
+    /**
+     * Chain of the current user, `null` if a new chain has to be started with the latest key
+     * of the participant.
+     */
+    sendingChain: (RatchetChain & { encryptedSecret: string }) | null;
+    /**
+     * Chain of the participant, `null` until the first message is received.
+     */
+    receivingChain: RatchetChain | null;
+    /**
+     * Number of the messages in the previous chain of the current user.
+     */
+    previousCounter: number;
+    /**
+     * Keys of the messages skipped by the current user so far, by the ratchet public key of
+     * the participant and the message number.
+     */
+    skippedMessageKeys: { [key: string]: string };
+}
+
+/**
+ * Group stored on the device, returned by {@link AbstractEThree.listGroups}.
+ */
+export interface GroupSummary {
+    /**
+     * Id of the group session. It's calculated from the group id passed to
+     * {@link AbstractEThree.createGroup}.
+     */
+    sessionId: string;
+    groupId?: GroupId;
+    metadata?: GroupMetadata;
+    initiator: string;
+    participants: string[];
+    epochNumber: number;
+    readOnly: boolean;
+}
+
+/**
+ * Emitted when the group moves to the new epoch, e.g. after a participant was removed.
+ */
+export interface GroupEpochChangedEvent {
+    type: 'epochChanged';
+    sessionId: string;
+    epochNumber: number;
+    previousEpochNumber: number;
+}
+
+/**
+ * Emitted when the participants are added to the group or removed from it.
+ */
+export interface GroupParticipantsChangedEvent {
+    type: 'participantsChanged';
+    sessionId: string;
+    participants: string[];
+    added: string[];
+    removed: string[];
+}
+
+/**
+ * Emitted when the current user is removed from the group. The group is deleted from the device
+ * or becomes read-only, see {@link EThreeInitializeOptions.keepRemovedGroups}.
+ */
+export interface GroupAccessRevokedEvent {
+    type: 'accessRevoked';
+    sessionId: string;
+}
+
+/**
+ * Change of the group made by other participants, see {@link Group.on} and
+ * {@link AbstractEThree.syncGroups}.
+ */
+export type GroupEvent =
+    | GroupEpochChangedEvent
+    | GroupParticipantsChangedEvent
+    | GroupAccessRevokedEvent;
+
+export type GroupEventType = GroupEvent['type'];
+
+export type GroupEventListener<T extends GroupEventType = GroupEventType> = (
+    event: Extract<GroupEvent, { type: T }>,
+) => void;
+
+/**
+ * Parameters of the key derivation used to encrypt the data with the password. The data is
+ * encrypted with the key pair generated from the key material, which is derived with scrypt
+ * from the SHA-256 hash of the password and the salt in hex encoding.
+ */
+export interface PasswordKeyDerivation {
+    algorithm: 'scrypt';
+    salt: string;
+    N: number;
+    r: number;
+    p: number;
+}
+
+/**
+ * Private key exported with {@link EThree.exportPrivateKey}. Serialized to JSON, so it can be
+ * saved to a file and imported with {@link EThree.importPrivateKey} on any platform.
+ */
+export interface ExportedPrivateKey {
+    /**
+     * Version of the format.
+     */
+    version: number;
+    /**
+     * Identity of the owner of the private key.
+     */
+    identity: string;
+    /**
+     * Id of the owner's Virgil Card that contains the public key of the private key.
+     */
+    cardId: string;
+    /**
+     * Type of the key pair as configured with `keyPairType` option of the exporting instance.
+     */
+    keyType: string;
+    /**
+     * Parameters of the key derivation used to encrypt the private key with the password.
+     */
+    kdf: PasswordKeyDerivation;
+    /**
+     * Private key encrypted with the key derived from the password in base64 encoding.
+     */
+    encryptedPrivateKey: string;
+}
+
+/**
+ * Transport supplied by the application to exchange messages between the new device and
+ * the existing one during {@link EThree.linkDevice}. Messages sent on one device must be
+ * received in the same order on the other one.
+ */
+export interface DeviceLinkTransport {
+    /**
+     * Sends the message to the other device.
+     */
+    send(message: string): Promise<void>;
+    /**
+     * Resolves with the next message received from the other device.
+     */
+    receive(): Promise<string>;
+}
+
+/**
+ * Cloud storage of the group tickets and the group documents, e.g. the group roles and history.
+ * The transport is created for the current user: the entries are stored on behalf of the user
+ * and shared with the given cards only. Every participant stores its own entries, so the same
+ * session id of the different owners refers to the different entries.
+ */
+export interface GroupTicketTransport {
+    /**
+     * Stores the ticket of the group epoch shared with the cards. Throws
+     * `GroupTicketAlreadyExistsError` if the ticket of the epoch is already stored.
+     */
+    store(groupSessionMessageInfo: IGroupSessionMessageInfo, cards: ICard[]): Promise<void>;
+    /**
+     * Retrieves the tickets stored by the identity, the current user by default, and shared with
+     * the current user. Throws `GroupTicketDoesntExistError` if there are none.
+     */
+    retrieve(sessionId: string, identity?: string, publicKey?: IPublicKey): Promise<GroupTicket[]>;
+    /**
+     * Shares all the tickets stored by the current user with the cards.
+     */
+    addRecipients(sessionId: string, cards: ICard[]): Promise<void>;
+    /**
+     * Shares all the tickets stored by the current user with the new card of the recipient.
+     */
+    reAddRecipient(sessionId: string, card: ICard): Promise<void>;
+    /**
+     * Stops sharing the tickets stored by the current user with the identity. Only the ticket
+     * of the given epoch is affected if `epochNumber` is specified. Doesn't fail if the tickets
+     * aren't shared with the identity.
+     */
+    removeRecipient(sessionId: string, identity: string, epochNumber?: number): Promise<void>;
+    /**
+     * Deletes all the tickets stored by the current user.
+     */
+    delete(sessionId: string): Promise<void>;
+    /**
+     * Stores the document under the key, replacing the previous value, and shares it with
+     * the cards.
+     */
+    storeDocument(
+        root: string,
+        path: string,
+        key: string,
+        value: string,
+        cards: ICard[],
+    ): Promise<void>;
+    /**
+     * Retrieves the document stored by the identity. Resolves with `null` if the document
+     * doesn't exist or isn't shared with the current user.
+     */
+    retrieveDocument(
+        root: string,
+        path: string,
+        key: string,
+        identity: string,
+        publicKey: IPublicKey,
+    ): Promise<string | null>;
+    /**
+     * Retrieves the documents stored under the key by the owners of the cards and shared with
+     * the current user, in a single request if the storage can list the entries of several
+     * owners. Resolves with the documents by the identity of the owner, the owners without
+     * the document are omitted.
+     */
+    retrieveDocuments(
+        root: string,
+        path: string,
+        key: string,
+        cards: ICard[],
+    ): Promise<Map<string, string>>;
+    /**
+     * Deletes all the documents stored by the current user at the path.
+     */
+    deleteDocuments(root: string, path: string): Promise<void>;
+}
+
+/**
+ * Options {@link GroupTicketTransport} is created with.
+ */
+export interface GroupTicketTransportOptions {
+    identity: string;
+    privateKey: IPrivateKey;
+    publicKey: IPublicKey;
+    virgilCrypto: ICrypto;
+}
+
+/**
+ * Creates {@link GroupTicketTransport} for the current user, see
+ * {@link EThreeInitializeOptions.groupTicketTransport}.
+ */
+export type GroupTicketTransportFactory = (
+    options: GroupTicketTransportOptions,
+) => GroupTicketTransport;
+
+/**
+ * One-time public key published by the user to let the other users create the ratchet channels
+ * with the user while the user is offline.
+ */
+export interface RatchetPreKey {
+    id: string;
+    /**
+     * Public key in base64 encoding.
+     */
+    publicKey: string;
+    /**
+     * Signature of the public key made with the private key of the user, in base64 encoding.
+     */
+    signature: string;
+}
+
+/**
+ * First message of the ratchet channel stored until the recipient joins the channel with
+ * {@link AbstractEThree.joinRatchetChannel}.
+ */
+export interface RatchetInvitation {
+    /**
+     * Id of the pre-key of the recipient the invitation is encrypted for.
+     */
+    preKeyId: string;
+    /**
+     * Invitation encrypted for the pre-key and signed by the sender, in base64 encoding.
+     */
+    data: string;
+}
+
+/**
+ * Server the users publish their ratchet pre-keys on and leave the invitations to the ratchet
+ * channels for each other. The server is created for the current user: the pre-keys and
+ * the invitations are published on behalf of the user. The entries are signed or encrypted by
+ * the users, so the server doesn't need to be trusted.
+ */
+export interface RatchetPreKeyServer {
+    /**
+     * Publishes the pre-keys of the current user along with the ones published before.
+     */
+    publishPreKeys(preKeys: RatchetPreKey[]): Promise<void>;
+    /**
+     * Retrieves the pre-keys of the current user which were not taken yet.
+     */
+    retrievePreKeys(): Promise<RatchetPreKey[]>;
+    /**
+     * Deletes the pre-keys of the current user which were not taken yet.
+     */
+    deletePreKeys(): Promise<void>;
+    /**
+     * Takes one of the pre-keys published by the identity, deleting it from the server, so every
+     * pre-key is used for one invitation only. Resolves with `null` if there are none left.
+     */
+    takePreKey(identity: string): Promise<RatchetPreKey | null>;
+    /**
+     * Leaves the invitation of the current user for the recipient, replacing the previous one.
+     */
+    storeInvitation(recipient: string, invitation: RatchetInvitation): Promise<void>;
+    /**
+     * Retrieves the invitation left for the current user by the sender. Resolves with `null` if
+     * there is none.
+     */
+    retrieveInvitation(sender: string): Promise<RatchetInvitation | null>;
+    /**
+     * Deletes the invitation left for the current user by the sender.
+     */
+    deleteInvitation(sender: string): Promise<void>;
+}
+
+/**
+ * Options {@link RatchetPreKeyServer} is created with.
+ */
+export interface RatchetPreKeyServerOptions {
+    identity: string;
+    virgilCrypto: ICrypto;
+}
+
+/**
+ * Creates {@link RatchetPreKeyServer} for the current user, see
+ * {@link EThreeInitializeOptions.ratchetPreKeyServer}.
+ */
+export type RatchetPreKeyServerFactory = (
+    options: RatchetPreKeyServerOptions,
+) => RatchetPreKeyServer;
+
+/**
+ * Options of {@link EThree.linkDevice}.
+ */
+export interface LinkDeviceOptions {
+    /**
+     * Transport used to exchange messages with the new device.
+     */
+    transport: DeviceLinkTransport;
+    /**
+     * Displays the short authentication string to the user and resolves with `true` if the user
+     * confirms that the same string is displayed on the new device.
+     */
+    confirm: (shortAuthenticationString: string) => Promise<boolean>;
+}
+
+/**
+ * Callback invoked for each chunk being processed in {@link Group.encryptFile} and
+ * {@link Group.decryptFile} methods.
+ */
+export type onGroupFileProgressCallback = (snapshot: onGroupFileProgressSnapshot) => void;
+
+/**
+ * An argument of the onGroupFileProgressCallback.
+ */
+// eslint-disable-next-line @typescript-eslint/class-name-casing
+export interface onGroupFileProgressSnapshot {
+    /**
+     * Total size of the file being processed, if known before the file is read.
+     */
+    fileSize?: number;
+    /**
+     * Size of the processed part of the file in bytes.
+     */
+    bytesProcessed: number;
+}
+
+/**
+ * Options for {@link Group.encryptFile} method.
+ */
+export interface GroupEncryptFileOptions {
+    /**
+     * Size of chunk being encrypted at one time. Every chunk is encrypted with the group session
+     * separately, so bigger chunks make the encrypted file smaller. Default value is 64kb.
+     */
+    chunkSize?: number;
+    /**
+     * Instance of `AbortSignal` which can be received from `AbortController`. Used to cancel
+     * the operation.
+     */
+    signal?: AbortSignal;
+    /**
+     * `onGroupFileProgressCallback` parameter.
+     */
+    onProgress?: onGroupFileProgressCallback;
+}
+
+/**
+ * Options for {@link Group.decryptFile} method.
+ */
+export interface GroupDecryptFileOptions {
+    /**
+     * Size of chunk being read from the encrypted file at one time. Default value is 64kb.
+     */
+    chunkSize?: number;
+    /**
+     * Instance of `AbortSignal` which can be received from `AbortController`. Used to cancel
+     * the operation.
+     */
+    signal?: AbortSignal;
+    /**
+     * `onGroupFileProgressCallback` parameter.
+     */
+    onProgress?: onGroupFileProgressCallback;
+    /**
+     * Date when the file was encrypted. Used to find the sender's Card that was active at
+     * that moment.
+     */
+    encryptedAt?: Date | number;
+}
+
+/**
+ * @hidden
+ *
+ * Reads the file passed to {@link Group.encryptFile} or {@link Group.decryptFile} in chunks.
+ */
+export interface GroupFileReader {
+    /**
+     * Size of the file in bytes, if known before the file is read.
+     */
+    size?: number;
+    /**
+     * Resolves with the next chunk of the file or `null` once the whole file is read.
+     */
+    read(): Promise<Uint8Array | null>;
+    /**
+     * Stops reading the file.
+     */
+    close(): void;
+}
+
+/**
+ * @hidden
+ *
+ * Reads the files of the platform and creates the results of {@link Group.encryptFile} and
+ * {@link Group.decryptFile}. Implemented by every platform package.
+ */
+export interface GroupFileProcessor {
+    /**
+     * Opens the file for reading in chunks of `chunkSize` bytes. Throws `TypeError` if the file
+     * is not supported on the platform.
+     */
+    openFile(file: unknown, chunkSize: number): Promise<GroupFileReader>;
+    /**
+     * Creates the result from the chunks returned by `read` until it resolves with `null`.
+     * `isEncrypted` tells whether the chunks are encrypted.
+     */
+    createFile(
+        file: unknown,
+        read: () => Promise<Uint8Array | null>,
+        isEncrypted: boolean,
+    ): Promise<unknown>;
+}
@@ -1,6 +1,7 @@
-import { ICard, FindUsersResult } from '../types';
-import { isVirgilCard, isFindUsersResult } from '../typeguards';
+import { ICard, FindUsersResult, FindUserDevicesResult, GroupInfo } from '../types';
+import { isVirgilCard, isFindUsersResult, isFindUserDevicesResult } from '../typeguards';
 import { getObjectValues } from '../array';
+import { CARD_DEVICE_ID_FIELD } from '../constants';
 import { isValidDate } from './date';
 
 /**
@@ -37,12 +38,75 @@ export function getCardActiveAtMoment(card: ICard, activeAt?: Date | number) {
 /**
  * @hidden
  */
-export const getCardsArray = (cardOrFindUsersResult: ICard | FindUsersResult) => {
+export const getCardsArray = (
+    cardOrFindUsersResult: ICard | FindUsersResult | FindUserDevicesResult,
+) => {
     if (isVirgilCard(cardOrFindUsersResult)) {
         return [cardOrFindUsersResult];
     }
     if (isFindUsersResult(cardOrFindUsersResult)) {
         return getObjectValues(cardOrFindUsersResult);
     }
+    if (isFindUserDevicesResult(cardOrFindUsersResult)) {
+        return ([] as ICard[]).concat(...getObjectValues(cardOrFindUsersResult));
+    }
     return [];
 };
+
+/**
+ * @hidden
+ *
+ * Replaces the ids of the previous Virgil Cards of the participants with the ids of the given cards.
+ */
+export function addParticipantCardIds(
+    participantCardIds: GroupInfo['participantCardIds'] = {},
+    cards: ICard[],
+) {
+    const result = { ...participantCardIds };
+    for (const card of cards) {
+        const cardIds = (result[card.identity] || []).filter(
+            id => id !== card.id && id !== card.previousCardId,
+        );
+        result[card.identity] = [...cardIds, card.id];
+    }
+    return result;
+}
+
+/**
+ * @hidden
+ *
+ * Checks if the Virgil Card replaced one of the known cards of the participant, i.e. the participant
+ * rotated their keys after the group tickets were encrypted for them. If the cards of the
+ * participant are unknown, the card isn't considered rotated.
+ */
+export function isRotatedCard(card: ICard, knownCardIds?: string[]) {
+    if (!knownCardIds) {
+        return false;
+    }
+    if (knownCardIds.indexOf(card.id) !== -1) {
+        return false;
+    }
+    if (card.previousCardId && knownCardIds.indexOf(card.previousCardId) !== -1) {
+        return true;
+    }
+    let previousCard = card.previousCard;
+    while (previousCard) {
+        if (knownCardIds.indexOf(previousCard.id) !== -1) {
+            return true;
+        }
+        previousCard = previousCard.previousCard;
+    }
+    return false;
+}
+
+/**
+ * Returns the identifier of the device the Virgil Card was published from in multi-device mode,
+ * or `undefined` if the card isn't tagged with a device identifier.
+ */
+export function getCardDeviceId(card: ICard): string | undefined {
+    const selfSignature = card.signatures.find(signature => signature.signer === 'self');
+    if (!selfSignature || !selfSignature.extraFields) {
+        return undefined;
+    }
+    return selfSignature.extraFields[CARD_DEVICE_ID_FIELD];
+}
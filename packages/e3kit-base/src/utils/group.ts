@@ -0,0 +1,56 @@
+import { Data, GroupEvent, GroupId, GroupSummary } from '../types';
+import { isString } from '../typeguards';
+import { setDifference } from './set';
+
+/**
+ * @hidden
+ *
+ * Converts the group id to the form that can be stored as JSON and passed back to
+ * {@link AbstractEThree.getGroup}. Binary ids are encoded in base64.
+ */
+export const toGroupId = (groupId: Data): GroupId => {
+    if (isString(groupId)) return groupId;
+    if (groupId instanceof Uint8Array) {
+        return { value: Buffer.from(groupId).toString('base64'), encoding: 'base64' };
+    }
+    return { value: groupId.value, encoding: groupId.encoding };
+};
+
+/**
+ * @hidden
+ *
+ * Returns the events of the changes between the states of the group stored on the device.
+ * The missing current state means the group was deleted.
+ */
+export const getGroupEvents = (
+    previous: GroupSummary,
+    current: GroupSummary | null,
+): GroupEvent[] => {
+    const { sessionId } = previous;
+    if (!current || (current.readOnly && !previous.readOnly)) {
+        return previous.readOnly ? [] : [{ type: 'accessRevoked', sessionId }];
+    }
+    const events: GroupEvent[] = [];
+    if (current.epochNumber !== previous.epochNumber) {
+        events.push({
+            type: 'epochChanged',
+            sessionId,
+            epochNumber: current.epochNumber,
+            previousEpochNumber: previous.epochNumber,
+        });
+    }
+    const previousParticipants = new Set(previous.participants);
+    const currentParticipants = new Set(current.participants);
+    const added = setDifference(currentParticipants, previousParticipants);
+    const removed = setDifference(previousParticipants, currentParticipants);
+    if (added.size > 0 || removed.size > 0) {
+        events.push({
+            type: 'participantsChanged',
+            sessionId,
+            participants: current.participants,
+            added: [...added],
+            removed: [...removed],
+        });
+    }
+    return events;
+};
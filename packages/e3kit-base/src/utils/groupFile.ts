@@ -0,0 +1,177 @@
+import { IntegrityCheckFailedError } from '../errors';
+import { GroupFileProcessor } from '../types';
+
+/**
+ * Marks the files encrypted with {@link Group.encryptFile}, 'VGF1' in ASCII.
+ *
+ * The prefix is followed by the random id of the file and the encrypted chunks of the file.
+ * Every encrypted chunk is stored as its length followed by the chunk itself. The chunk is
+ * prepended with the id of the file, its index and the flag indicating whether it is the last
+ * one before encryption, so chunks cannot be reordered, duplicated, dropped or taken from
+ * another file without being noticed.
+ */
+const GROUP_FILE_PREFIX = [0x56, 0x47, 0x46, 0x31];
+
+/**
+ * @hidden
+ */
+export const GROUP_FILE_ID_SIZE = 16;
+
+const GROUP_FILE_HEADER_SIZE = GROUP_FILE_PREFIX.length + GROUP_FILE_ID_SIZE;
+
+const GROUP_FILE_CHUNK_LENGTH_SIZE = 4;
+
+const GROUP_FILE_CHUNK_HEADER_SIZE = GROUP_FILE_ID_SIZE + 5;
+
+const concatBytes = (a: Uint8Array, b: Uint8Array) => {
+    const result = new Uint8Array(a.length + b.length);
+    result.set(a);
+    result.set(b, a.length);
+    return result;
+};
+
+const isEqualBytes = (a: Uint8Array, b: Uint8Array) =>
+    a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+/**
+ * @hidden
+ */
+export const encodeGroupFileHeader = (fileId: Uint8Array) => {
+    const result = new Uint8Array(GROUP_FILE_HEADER_SIZE);
+    result.set(GROUP_FILE_PREFIX);
+    result.set(fileId, GROUP_FILE_PREFIX.length);
+    return result;
+};
+
+/**
+ * @hidden
+ */
+export const encodeGroupFileChunk = (
+    fileId: Uint8Array,
+    chunk: Uint8Array,
+    index: number,
+    isLast: boolean,
+) => {
+    const result = new Uint8Array(GROUP_FILE_CHUNK_HEADER_SIZE + chunk.length);
+    const view = new DataView(result.buffer);
+    result.set(fileId);
+    view.setUint32(GROUP_FILE_ID_SIZE, index);
+    view.setUint8(GROUP_FILE_ID_SIZE + 4, isLast ? 1 : 0);
+    result.set(chunk, GROUP_FILE_CHUNK_HEADER_SIZE);
+    return result;
+};
+
+/**
+ * @hidden
+ *
+ * Returns the data of the decrypted chunk. Throws `IntegrityCheckFailedError` if the chunk
+ * belongs to another file or is not the chunk with the expected index.
+ */
+export const decodeGroupFileChunk = (fileId: Uint8Array, chunk: Uint8Array, index: number) => {
+    if (
+        chunk.length < GROUP_FILE_CHUNK_HEADER_SIZE ||
+        !isEqualBytes(chunk.subarray(0, GROUP_FILE_ID_SIZE), fileId)
+    ) {
+        throw new IntegrityCheckFailedError('Encrypted file is corrupted.');
+    }
+    const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+    if (view.getUint32(GROUP_FILE_ID_SIZE) !== index) {
+        throw new IntegrityCheckFailedError('Encrypted file is corrupted.');
+    }
+    return {
+        isLast: view.getUint8(GROUP_FILE_ID_SIZE + 4) === 1,
+        data: chunk.slice(GROUP_FILE_CHUNK_HEADER_SIZE),
+    };
+};
+
+/**
+ * @hidden
+ */
+export const encodeGroupFileChunkLength = (length: number) => {
+    const result = new Uint8Array(GROUP_FILE_CHUNK_LENGTH_SIZE);
+    new DataView(result.buffer).setUint32(0, length);
+    return result;
+};
+
+/**
+ * @hidden
+ *
+ * Splits the encrypted file read in chunks of any size into the id of the file and
+ * the encrypted chunks.
+ */
+export class GroupFileDecoder {
+    private buffer = new Uint8Array(0);
+    private fileId: Uint8Array | null = null;
+
+    /**
+     * Whether there is the data left that is not returned by {@link GroupFileDecoder.next}.
+     */
+    get hasData() {
+        return this.buffer.length > 0;
+    }
+
+    write(data: Uint8Array) {
+        this.buffer = concatBytes(this.buffer, data);
+    }
+
+    /**
+     * Returns the id of the file once the header is written.
+     */
+    getFileId() {
+        if (!this.fileId && this.buffer.length >= GROUP_FILE_HEADER_SIZE) {
+            if (!GROUP_FILE_PREFIX.every((byte, i) => this.buffer[i] === byte)) {
+                throw new IntegrityCheckFailedError('Encrypted file is corrupted.');
+            }
+            this.fileId = this.buffer.slice(GROUP_FILE_PREFIX.length, GROUP_FILE_HEADER_SIZE);
+            this.buffer = this.buffer.slice(GROUP_FILE_HEADER_SIZE);
+        }
+        return this.fileId;
+    }
+
+    /**
+     * Returns the next encrypted chunk once it is written entirely.
+     */
+    next() {
+        if (!this.getFileId() || this.buffer.length < GROUP_FILE_CHUNK_LENGTH_SIZE) {
+            return null;
+        }
+        const view = new DataView(this.buffer.buffer, this.buffer.byteOffset);
+        const end = GROUP_FILE_CHUNK_LENGTH_SIZE + view.getUint32(0);
+        if (this.buffer.length < end) {
+            return null;
+        }
+        const chunk = this.buffer.slice(GROUP_FILE_CHUNK_LENGTH_SIZE, end);
+        this.buffer = this.buffer.slice(end);
+        return chunk;
+    }
+}
+
+/**
+ * @hidden
+ *
+ * Reads the files given as byte arrays and creates the results as `Buffer`, so the files can be
+ * encrypted and decrypted on every platform.
+ */
+export const bytesGroupFileProcessor: GroupFileProcessor = {
+    async openFile(file, chunkSize) {
+        const data = file as Uint8Array;
+        let offset = 0;
+        return {
+            size: data.length,
+            read: async () => {
+                if (offset >= data.length) return null;
+                const chunk = data.subarray(offset, offset + chunkSize);
+                offset += chunk.length;
+                return chunk;
+            },
+            close: () => undefined,
+        };
+    },
+    async createFile(_file, read) {
+        const chunks: Uint8Array[] = [];
+        for (let chunk = await read(); chunk; chunk = await read()) {
+            chunks.push(chunk);
+        }
+        return Buffer.concat(chunks);
+    },
+};
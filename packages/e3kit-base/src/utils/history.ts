@@ -0,0 +1,64 @@
+import { GroupHistoryEntry, ICard, ICrypto, IPrivateKey, IPublicKey } from '../types';
+
+/**
+ * @hidden
+ *
+ * Group history entry serialized to JSON and signed by the participant who made the change.
+ */
+export interface SignedGroupHistoryEntry {
+    entry: string;
+    signature: string;
+}
+
+/**
+ * @hidden
+ */
+export function signGroupHistoryEntry(
+    virgilCrypto: ICrypto,
+    entry: GroupHistoryEntry,
+    privateKey: IPrivateKey,
+): SignedGroupHistoryEntry {
+    const serializedEntry = JSON.stringify({ ...entry, timestamp: entry.timestamp.getTime() });
+    const signature = virgilCrypto
+        .calculateSignature({ value: serializedEntry, encoding: 'utf8' }, privateKey)
+        .toString('base64');
+    return { entry: serializedEntry, signature };
+}
+
+/**
+ * @hidden
+ *
+ * Returns the entry if it is signed with one of the given public keys, `null` otherwise.
+ */
+export function verifyGroupHistoryEntry(
+    virgilCrypto: ICrypto,
+    signedEntry: SignedGroupHistoryEntry,
+    publicKeys: IPublicKey[],
+): GroupHistoryEntry | null {
+    const isValid = publicKeys.some(publicKey =>
+        virgilCrypto.verifySignature(
+            { value: signedEntry.entry, encoding: 'utf8' },
+            { value: signedEntry.signature, encoding: 'base64' },
+            publicKey,
+        ),
+    );
+    if (!isValid) return null;
+    const entry = JSON.parse(signedEntry.entry);
+    return { ...entry, timestamp: new Date(entry.timestamp) };
+}
+
+/**
+ * @hidden
+ *
+ * Returns the public keys of the cards and all the cards they replaced, so the entries signed
+ * before the keys were rotated can be verified.
+ */
+export function getCardChainPublicKeys(cards: ICard[]) {
+    const publicKeys: IPublicKey[] = [];
+    for (const card of cards) {
+        for (let current: ICard | undefined = card; current; current = current.previousCard) {
+            publicKeys.push(current.publicKey);
+        }
+    }
+    return publicKeys;
+}
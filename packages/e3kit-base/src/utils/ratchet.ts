@@ -0,0 +1,298 @@
+import { MAX_SKIPPED_RATCHET_MESSAGES } from '../constants';
+import { RatchetError, RatchetErrorCode } from '../errors';
+import { Data, ICrypto, RatchetSessionState } from '../types';
+import { deriveMessageKey, deriveNextChainKey } from './senderKey';
+
+/**
+ * Marks the messages of the ratchet channels, 'VRC1' in ASCII.
+ */
+const RATCHET_MESSAGE_PREFIX = [0x56, 0x52, 0x43, 0x31];
+
+const RATCHET_MESSAGE_HEADER_OFFSET = RATCHET_MESSAGE_PREFIX.length + 4;
+
+interface RatchetMessageHeader {
+    /**
+     * Ratchet public key of the sender.
+     */
+    publicKey: string;
+    /**
+     * Secret the chain of the sender is started with, encrypted for the ratchet public key of
+     * the recipient.
+     */
+    encryptedSecret: string;
+    previousCounter: number;
+    counter: number;
+}
+
+const hash = (virgilCrypto: ICrypto, value: string) =>
+    virgilCrypto.calculateHash({ value, encoding: 'utf8' }).toString('base64');
+
+const deriveRootKeys = (virgilCrypto: ICrypto, rootKey: string, secret: string) => ({
+    rootKey: hash(virgilCrypto, `root:${rootKey}:${secret}`),
+    chainKey: hash(virgilCrypto, `chain:${rootKey}:${secret}`),
+});
+
+const getSkippedMessageKey = (publicKey: string, counter: number) => `${publicKey}:${counter}`;
+
+const encodeRatchetMessage = (header: RatchetMessageHeader, ciphertext: Uint8Array) => {
+    const headerBytes = Buffer.from(JSON.stringify(header), 'utf8');
+    const prefix = Buffer.alloc(RATCHET_MESSAGE_HEADER_OFFSET);
+    prefix.set(RATCHET_MESSAGE_PREFIX);
+    prefix.writeUInt32BE(headerBytes.length, RATCHET_MESSAGE_PREFIX.length);
+    return Buffer.concat([prefix, headerBytes, ciphertext]);
+};
+
+const decodeRatchetMessage = (data: Uint8Array) => {
+    if (
+        data.length < RATCHET_MESSAGE_HEADER_OFFSET ||
+        RATCHET_MESSAGE_PREFIX.some((byte, i) => data[i] !== byte)
+    ) {
+        throw new RatchetError(
+            RatchetErrorCode.InvalidMessage,
+            'The given message was not encrypted for a ratchet channel',
+        );
+    }
+    const headerLength = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(
+        RATCHET_MESSAGE_PREFIX.length,
+    );
+    const ciphertextOffset = RATCHET_MESSAGE_HEADER_OFFSET + headerLength;
+    const headerBytes = Buffer.from(data.subarray(RATCHET_MESSAGE_HEADER_OFFSET, ciphertextOffset));
+    let header: RatchetMessageHeader;
+    try {
+        header = JSON.parse(headerBytes.toString('utf8'));
+    } catch (error) {
+        throw new RatchetError(
+            RatchetErrorCode.InvalidMessage,
+            'The header of the ratchet message is malformed',
+        );
+    }
+    return { header, ciphertext: data.subarray(ciphertextOffset) };
+};
+
+/**
+ * Derives the keys of the messages of the receiving chain up to the given number, so
+ * the messages delivered out of order can be decrypted later.
+ */
+const skipMessageKeys = (virgilCrypto: ICrypto, state: RatchetSessionState, until: number) => {
+    const { receivingChain, remotePublicKey } = state;
+    if (!receivingChain || !remotePublicKey || until <= receivingChain.counter) {
+        return state;
+    }
+    if (until - receivingChain.counter > MAX_SKIPPED_RATCHET_MESSAGES) {
+        throw new RatchetError(
+            RatchetErrorCode.MessageKeyNotFound,
+            'Too many messages of the ratchet channel were skipped',
+        );
+    }
+    const skippedMessageKeys = { ...state.skippedMessageKeys };
+    let { chainKey, counter } = receivingChain;
+    for (; counter < until; counter += 1) {
+        skippedMessageKeys[getSkippedMessageKey(remotePublicKey, counter)] = deriveMessageKey(
+            virgilCrypto,
+            chainKey,
+        );
+        chainKey = deriveNextChainKey(virgilCrypto, chainKey);
+    }
+    // the oldest keys go first, since the keys are stored in the order they were skipped
+    const skippedKeys = Object.keys(skippedMessageKeys);
+    skippedKeys
+        .slice(0, Math.max(skippedKeys.length - MAX_SKIPPED_RATCHET_MESSAGES, 0))
+        .forEach(key => delete skippedMessageKeys[key]);
+    return { ...state, receivingChain: { chainKey, counter }, skippedMessageKeys };
+};
+
+/**
+ * Starts the new sending chain with the secret encrypted for the latest ratchet public key of
+ * the participant. The ratchet key pair of the current user is replaced, so the messages of
+ * the previous chains can't be decrypted with the keys of the device.
+ */
+const startSendingChain = (virgilCrypto: ICrypto, state: RatchetSessionState) => {
+    if (!state.remotePublicKey) {
+        throw new RatchetError(
+            RatchetErrorCode.ChannelNotFound,
+            'The ratchet channel is not joined by the participant yet',
+        );
+    }
+    const keyPair = virgilCrypto.generateKeys();
+    const secret = virgilCrypto.getRandomBytes(32).toString('base64');
+    const encryptedSecret = virgilCrypto
+        .encrypt(
+            { value: secret, encoding: 'base64' },
+            virgilCrypto.importPublicKey({ value: state.remotePublicKey, encoding: 'base64' }),
+        )
+        .toString('base64');
+    const { rootKey, chainKey } = deriveRootKeys(virgilCrypto, state.rootKey, secret);
+    return {
+        ...state,
+        rootKey,
+        privateKey: virgilCrypto.exportPrivateKey(keyPair.privateKey).toString('base64'),
+        publicKey: virgilCrypto.exportPublicKey(keyPair.publicKey).toString('base64'),
+        sendingChain: { chainKey, counter: 0, encryptedSecret },
+    };
+};
+
+/**
+ * Starts the new receiving chain with the secret sent along with the new ratchet public key
+ * of the participant. The current sending chain is finished, so the next message is sent with
+ * the new chain.
+ */
+const startReceivingChain = (
+    virgilCrypto: ICrypto,
+    state: RatchetSessionState,
+    header: RatchetMessageHeader,
+): RatchetSessionState => {
+    if (!state.privateKey) {
+        throw new RatchetError(
+            RatchetErrorCode.MessageKeyNotFound,
+            'The ratchet key the message was encrypted for is not stored on the device',
+        );
+    }
+    const skipped = skipMessageKeys(virgilCrypto, state, header.previousCounter);
+    const secret = virgilCrypto
+        .decrypt(
+            { value: header.encryptedSecret, encoding: 'base64' },
+            virgilCrypto.importPrivateKey({ value: state.privateKey, encoding: 'base64' }),
+        )
+        .toString('base64');
+    const { rootKey, chainKey } = deriveRootKeys(virgilCrypto, state.rootKey, secret);
+    return {
+        ...skipped,
+        rootKey,
+        remotePublicKey: header.publicKey,
+        receivingChain: { chainKey, counter: 0 },
+        sendingChain: null,
+        previousCounter: state.sendingChain ? state.sendingChain.counter : state.previousCounter,
+    };
+};
+
+/**
+ * @hidden
+ *
+ * Creates the state of the ratchet channel started by the current user with the pre-key of
+ * the participant.
+ */
+export const createInitiatorState = (
+    participant: string,
+    rootKey: string,
+    preKeyPublicKey: string,
+): RatchetSessionState => ({
+    participant,
+    rootKey,
+    privateKey: null,
+    publicKey: null,
+    remotePublicKey: preKeyPublicKey,
+    sendingChain: null,
+    receivingChain: null,
+    previousCounter: 0,
+    skippedMessageKeys: {},
+});
+
+/**
+ * @hidden
+ *
+ * Creates the state of the ratchet channel joined by the current user with its pre-key.
+ */
+export const createResponderState = (
+    participant: string,
+    rootKey: string,
+    preKeyPrivateKey: string,
+    preKeyPublicKey: string,
+): RatchetSessionState => ({
+    participant,
+    rootKey,
+    privateKey: preKeyPrivateKey,
+    publicKey: preKeyPublicKey,
+    remotePublicKey: null,
+    sendingChain: null,
+    receivingChain: null,
+    previousCounter: 0,
+    skippedMessageKeys: {},
+});
+
+/**
+ * @hidden
+ *
+ * Encrypts the data with the next message key of the sending chain. Returns the message and
+ * the new state of the channel, which must be stored before the message is sent.
+ */
+export const encryptRatchetMessage = (
+    virgilCrypto: ICrypto,
+    state: RatchetSessionState,
+    data: Data,
+) => {
+    const started = state.sendingChain ? state : startSendingChain(virgilCrypto, state);
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const sendingChain = started.sendingChain!;
+    const { publicKey } = virgilCrypto.generateKeysFromKeyMaterial({
+        value: deriveMessageKey(virgilCrypto, sendingChain.chainKey),
+        encoding: 'base64',
+    });
+    const header: RatchetMessageHeader = {
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        publicKey: started.publicKey!,
+        encryptedSecret: sendingChain.encryptedSecret,
+        previousCounter: started.previousCounter,
+        counter: sendingChain.counter,
+    };
+    return {
+        state: {
+            ...started,
+            sendingChain: {
+                ...sendingChain,
+                chainKey: deriveNextChainKey(virgilCrypto, sendingChain.chainKey),
+                counter: sendingChain.counter + 1,
+            },
+        },
+        message: encodeRatchetMessage(header, virgilCrypto.encrypt(data, publicKey)),
+    };
+};
+
+/**
+ * @hidden
+ *
+ * Decrypts the message of the participant. Returns the data and the new state of the channel,
+ * in which the key of the message is deleted.
+ */
+export const decryptRatchetMessage = (
+    virgilCrypto: ICrypto,
+    state: RatchetSessionState,
+    message: Uint8Array,
+) => {
+    const { header, ciphertext } = decodeRatchetMessage(message);
+    const skippedKey = getSkippedMessageKey(header.publicKey, header.counter);
+    let next: RatchetSessionState;
+    let messageKey: string | undefined;
+    if (state.skippedMessageKeys[skippedKey]) {
+        messageKey = state.skippedMessageKeys[skippedKey];
+        next = { ...state, skippedMessageKeys: { ...state.skippedMessageKeys } };
+        delete next.skippedMessageKeys[skippedKey];
+    } else {
+        next =
+            header.publicKey === state.remotePublicKey
+                ? state
+                : startReceivingChain(virgilCrypto, state, header);
+        next = skipMessageKeys(virgilCrypto, next, header.counter);
+        const { receivingChain } = next;
+        if (receivingChain && receivingChain.counter === header.counter) {
+            messageKey = deriveMessageKey(virgilCrypto, receivingChain.chainKey);
+            next = {
+                ...next,
+                receivingChain: {
+                    chainKey: deriveNextChainKey(virgilCrypto, receivingChain.chainKey),
+                    counter: receivingChain.counter + 1,
+                },
+            };
+        }
+    }
+    if (!messageKey) {
+        throw new RatchetError(
+            RatchetErrorCode.MessageKeyNotFound,
+            'The key of the message was already used or deleted from the device',
+        );
+    }
+    const { privateKey } = virgilCrypto.generateKeysFromKeyMaterial({
+        value: messageKey,
+        encoding: 'base64',
+    });
+    return { state: next, data: virgilCrypto.decrypt(ciphertext, privateKey) };
+};
@@ -0,0 +1,60 @@
+import {
+    GroupRole,
+    GroupRoles,
+    ICrypto,
+    IPrivateKey,
+    IPublicKey,
+    SignedGroupRoles,
+} from '../types';
+
+/**
+ * @hidden
+ */
+export const getDefaultGroupRoles = (initiator: string): GroupRoles => ({
+    version: 0,
+    initiator,
+    admins: [],
+});
+
+/**
+ * @hidden
+ */
+export const getGroupRole = (roles: GroupRoles, identity: string): GroupRole => {
+    if (roles.initiator === identity) return 'initiator';
+    if (roles.admins.indexOf(identity) !== -1) return 'admin';
+    return 'member';
+};
+
+/**
+ * @hidden
+ */
+export function signGroupRoles(
+    virgilCrypto: ICrypto,
+    roles: GroupRoles,
+    signer: string,
+    privateKey: IPrivateKey,
+): SignedGroupRoles {
+    const serializedRoles = JSON.stringify(roles);
+    const signature = virgilCrypto
+        .calculateSignature({ value: serializedRoles, encoding: 'utf8' }, privateKey)
+        .toString('base64');
+    return { roles: serializedRoles, signer, signature };
+}
+
+/**
+ * @hidden
+ *
+ * Returns the group roles if they are signed with the given public key, `null` otherwise.
+ */
+export function verifyGroupRoles(
+    virgilCrypto: ICrypto,
+    signedRoles: SignedGroupRoles,
+    signerPublicKey: IPublicKey,
+): GroupRoles | null {
+    const isValid = virgilCrypto.verifySignature(
+        { value: signedRoles.roles, encoding: 'utf8' },
+        { value: signedRoles.signature, encoding: 'base64' },
+        signerPublicKey,
+    );
+    return isValid ? JSON.parse(signedRoles.roles) : null;
+}
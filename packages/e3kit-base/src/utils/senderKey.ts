@@ -0,0 +1,158 @@
+import { MAX_SKIPPED_SENDER_KEY_MESSAGES } from '../constants';
+import { GroupError, GroupErrorCode } from '../errors';
+import { Data, ICrypto, SenderKeyState } from '../types';
+
+/**
+ * Marks the messages encrypted with the sender key chain, 'VSK1' in ASCII.
+ */
+const SENDER_KEY_MESSAGE_PREFIX = [0x56, 0x53, 0x4b, 0x31];
+
+const SENDER_KEY_MESSAGE_HEADER_SIZE = SENDER_KEY_MESSAGE_PREFIX.length + 4;
+
+/**
+ * @hidden
+ *
+ * Returns the path the participant stores the ticket of their sender key chain in the epoch at.
+ * Every epoch has its own path, as the chains of the epochs are shared with different
+ * participants.
+ */
+export const getSenderKeyPath = (sessionId: string, epochNumber: number) =>
+    `${sessionId}.sender-keys.${epochNumber}`;
+
+/**
+ * @hidden
+ */
+export const createChainKey = (virgilCrypto: ICrypto) =>
+    virgilCrypto.getRandomBytes(32).toString('base64');
+
+const deriveKey = (virgilCrypto: ICrypto, chainKey: string, label: string) =>
+    virgilCrypto
+        .calculateHash({ value: `${label}:${chainKey}`, encoding: 'utf8' })
+        .toString('base64');
+
+/**
+ * @hidden
+ *
+ * Returns the key of the current message of the chain. The key pair the message is encrypted
+ * for is generated from it.
+ */
+export const deriveMessageKey = (virgilCrypto: ICrypto, chainKey: string) =>
+    deriveKey(virgilCrypto, chainKey, 'message');
+
+/**
+ * @hidden
+ *
+ * Returns the chain key of the next message. The previous chain key can't be derived from it.
+ */
+export const deriveNextChainKey = (virgilCrypto: ICrypto, chainKey: string) =>
+    deriveKey(virgilCrypto, chainKey, 'chain');
+
+/**
+ * @hidden
+ */
+export const encodeSenderKeyMessage = (iteration: number, ciphertext: Uint8Array) => {
+    const result = new Uint8Array(SENDER_KEY_MESSAGE_HEADER_SIZE + ciphertext.length);
+    result.set(SENDER_KEY_MESSAGE_PREFIX);
+    new DataView(result.buffer).setUint32(SENDER_KEY_MESSAGE_PREFIX.length, iteration);
+    result.set(ciphertext, SENDER_KEY_MESSAGE_HEADER_SIZE);
+    return result;
+};
+
+/**
+ * @hidden
+ *
+ * Returns the number of the message in the chain and its ciphertext, `null` if the message
+ * is not encrypted with the sender key chain.
+ */
+export const decodeSenderKeyMessage = (data: Uint8Array) => {
+    if (
+        data.length < SENDER_KEY_MESSAGE_HEADER_SIZE ||
+        SENDER_KEY_MESSAGE_PREFIX.some((byte, i) => data[i] !== byte)
+    ) {
+        return null;
+    }
+    return {
+        iteration: new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(
+            SENDER_KEY_MESSAGE_PREFIX.length,
+        ),
+        ciphertext: data.subarray(SENDER_KEY_MESSAGE_HEADER_SIZE),
+    };
+};
+
+/**
+ * @hidden
+ *
+ * Encrypts the data with the next message key of the chain. Returns the message and the new
+ * state of the chain, which must be stored before the message is sent.
+ */
+export const encryptSenderKeyMessage = (
+    virgilCrypto: ICrypto,
+    state: SenderKeyState,
+    data: Data,
+) => {
+    const { publicKey } = virgilCrypto.generateKeysFromKeyMaterial({
+        value: deriveMessageKey(virgilCrypto, state.chainKey),
+        encoding: 'base64',
+    });
+    return {
+        state: {
+            ...state,
+            chainKey: deriveNextChainKey(virgilCrypto, state.chainKey),
+            iteration: state.iteration + 1,
+        },
+        message: encodeSenderKeyMessage(state.iteration, virgilCrypto.encrypt(data, publicKey)),
+    };
+};
+
+/**
+ * @hidden
+ *
+ * Decrypts the message with its key, deriving the keys of the skipped messages along the way.
+ * Returns the data and the new state of the chain without the key of the message, so
+ * the message can't be decrypted again once the state is stored.
+ */
+export const decryptSenderKeyMessage = (
+    virgilCrypto: ICrypto,
+    state: SenderKeyState,
+    message: { iteration: number; ciphertext: Uint8Array },
+) => {
+    if (message.iteration - state.iteration > MAX_SKIPPED_SENDER_KEY_MESSAGES) {
+        throw new GroupError(
+            GroupErrorCode.MessageKeyNotFound,
+            'Too many messages of the sender key chain were skipped',
+        );
+    }
+    const skippedMessageKeys = { ...state.skippedMessageKeys };
+    let { chainKey, iteration } = state;
+    let messageKey: string | undefined;
+    if (message.iteration < iteration) {
+        messageKey = skippedMessageKeys[message.iteration];
+        delete skippedMessageKeys[message.iteration];
+    } else {
+        for (; iteration < message.iteration; iteration += 1) {
+            skippedMessageKeys[iteration] = deriveMessageKey(virgilCrypto, chainKey);
+            chainKey = deriveNextChainKey(virgilCrypto, chainKey);
+        }
+        messageKey = deriveMessageKey(virgilCrypto, chainKey);
+        chainKey = deriveNextChainKey(virgilCrypto, chainKey);
+        iteration += 1;
+    }
+    if (!messageKey) {
+        throw new GroupError(
+            GroupErrorCode.MessageKeyNotFound,
+            'The key of the message was already used or deleted from the device',
+        );
+    }
+    const { privateKey } = virgilCrypto.generateKeysFromKeyMaterial({
+        value: messageKey,
+        encoding: 'base64',
+    });
+    const data = virgilCrypto.decrypt(message.ciphertext, privateKey);
+    const skippedIterations = Object.keys(skippedMessageKeys)
+        .map(Number)
+        .sort((a, b) => a - b);
+    skippedIterations
+        .slice(0, Math.max(skippedIterations.length - MAX_SKIPPED_SENDER_KEY_MESSAGES, 0))
+        .forEach(skippedIteration => delete skippedMessageKeys[skippedIteration]);
+    return { state: { ...state, chainKey, iteration, skippedMessageKeys }, data };
+};
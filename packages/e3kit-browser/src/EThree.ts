@@ -6,6 +6,7 @@ import {
     PrivateKeyLoader,
     IntegrityCheckFailedError,
     RegisterRequiredError,
+    AbortError,
 } from '@virgilsecurity/e3kit-base';
 import { initPythia, VirgilBrainKeyCrypto } from '@virgilsecurity/pythia-crypto';
 import leveljs from 'level-js';
@@ -24,7 +25,18 @@ import {
     VIRGIL_STREAM_DECRYPTING_STATE,
     VIRGIL_STREAM_VERIFYING_STATE,
 } from './constants';
-import { onChunkCallback, processFile } from './processFile';
+import { blobGroupFileProcessor } from './groupFileProcessor';
+import { onChunkCallback, processFile, readFileChunk } from './processFile';
+import {
+    STREAM_FRAMES_PREFIX,
+    StreamFramesReader,
+    encodeStreamFrame,
+    encodeStreamFramesEnd,
+    concatBytes,
+    hasStreamFramesPrefix,
+    hashStreamFrame,
+    splitStreamFrames,
+} from './streamFrames';
 import { isFile } from './typeguards';
 import {
     NodeBuffer,
@@ -38,8 +50,10 @@ import {
     EThreeCtorOptions,
     EncryptFileOptions,
     DecryptFileOptions,
+    EncryptStreamOptions,
     LookupResult,
     FindUsersResult,
+    FindUserDevicesResult,
 } from './types';
 
 export class EThree extends AbstractEThree {
@@ -103,7 +117,7 @@ export class EThree extends AbstractEThree {
      */
     encryptFile(
         file: File | Blob,
-        recipients?: ICard | FindUsersResult,
+        recipients?: ICard | FindUsersResult | FindUserDevicesResult,
         options?: EncryptFileOptions,
     ): Promise<File | Blob>;
     /**
@@ -116,7 +130,7 @@ export class EThree extends AbstractEThree {
     ): Promise<File | Blob>;
     async encryptFile(
         file: File | Blob,
-        recipients?: ICard | FindUsersResult | IPublicKey | LookupResult,
+        recipients?: ICard | FindUsersResult | FindUserDevicesResult | IPublicKey | LookupResult,
         options: EncryptFileOptions = {},
     ): Promise<File | Blob> {
         const chunkSize = options.chunkSize ? options.chunkSize : 64 * 1024;
@@ -335,6 +349,410 @@ export class EThree extends AbstractEThree {
         return decryptedFile;
     }
 
+    /**
+     * Signs and encrypts File or Blob in a single pass using the same authenticated format as
+     * {@link EThree.authEncrypt}. The signature is appended after the encrypted data, so files
+     * encrypted with this method can be decrypted and verified in a single pass with
+     * {@link EThree.authDecryptFile}. If there is no recipient and the file is encrypted for the
+     * current user, omit the recipients parameter.
+     */
+    async authEncryptFile(
+        file: File | Blob,
+        recipients?: ICard | FindUsersResult | FindUserDevicesResult,
+        options: EncryptFileOptions = {},
+    ): Promise<File | Blob> {
+        const chunkSize = options.chunkSize ? options.chunkSize : 64 * 1024;
+        if (!Number.isInteger(chunkSize)) throw TypeError('chunkSize should be an integer value');
+        const fileSize = file.size;
+
+        const privateKey = await this.keyLoader.loadLocalPrivateKey();
+        if (!privateKey) throw new RegisterRequiredError();
+
+        const publicKeys = this.getPublicKeysForEncryption(privateKey, recipients);
+        if (!publicKeys) {
+            throw new TypeError(
+                'Could not get public keys from the second argument.\n' +
+                    'Make sure you pass the resolved value of the "EThree.findUsers" method ' +
+                    'when encrypting for other users, or nothing when encrypting for the current user only.',
+            );
+        }
+
+        const streamSignAndEncrypt = (this.virgilCrypto as VirgilCrypto).createStreamSignAndEncrypt(
+            privateKey as VirgilPrivateKey,
+            publicKeys as VirgilPublicKey[],
+            true,
+        );
+
+        const encryptedChunks = await new Promise<NodeBuffer[]>((resolve, reject) => {
+            const encryptedChunks: NodeBuffer[] = [];
+            encryptedChunks.push(streamSignAndEncrypt.start(fileSize));
+
+            const onChunkCallback: onChunkCallback = (chunk, offset) => {
+                encryptedChunks.push(streamSignAndEncrypt.update(this.toData(chunk)));
+                if (options.onProgress) {
+                    options.onProgress({
+                        state: VIRGIL_STREAM_ENCRYPTING_STATE,
+                        bytesProcessed: offset,
+                        fileSize: fileSize,
+                    });
+                }
+            };
+
+            const onFinishCallback = () => {
+                encryptedChunks.push(streamSignAndEncrypt.final());
+                resolve(encryptedChunks);
+            };
+
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const onErrorCallback = (err: any) => {
+                reject(err);
+                if (!streamSignAndEncrypt.isDisposed) streamSignAndEncrypt.dispose();
+            };
+
+            processFile({
+                file,
+                chunkSize,
+                onChunkCallback,
+                onFinishCallback,
+                onErrorCallback,
+                signal: options.signal,
+            });
+        });
+
+        if (isFile(file)) return new File(encryptedChunks, file.name, { type: file.type });
+        return new Blob(encryptedChunks, { type: file.type });
+    }
+
+    /**
+     * Decrypts File or Blob encrypted with {@link EThree.authEncryptFile} and verifies its
+     * integrity in a single pass, without buffering the decrypted data. Resolves with a
+     * `ReadableStream` of the decrypted data, which can be piped to a download or consumed
+     * by `Response` to create a `<video>` source.
+     *
+     * The signature is stored after the encrypted data, so the stream is errored with
+     * `IntegrityCheckFailedError` after the last chunk has been decrypted if the signature is
+     * not valid. The decrypted data must not be trusted until the stream is closed.
+     */
+    async authDecryptFile(
+        file: File | Blob,
+        senderCardOrPublicKey?: ICard | IPublicKey,
+        options: DecryptFileOptions = {},
+    ): Promise<ReadableStream<Uint8Array>> {
+        const fileSize = file.size;
+        const chunkSize = options.chunkSize ? options.chunkSize : 64 * 1024;
+        if (!Number.isInteger(chunkSize)) throw TypeError('chunkSize should be an integer value');
+
+        const privateKey = (await this.keyLoader.loadLocalPrivateKey()) as VirgilPrivateKey;
+        if (!privateKey) throw new RegisterRequiredError();
+
+        const publicKey = this.getPublicKeyForVerification(
+            privateKey,
+            senderCardOrPublicKey,
+            options.encryptedOn,
+        );
+        if (!publicKey) {
+            throw new TypeError(
+                'Could not get public key from the second argument.' +
+                    'Expected a Virgil Card or a Public Key object. Got ' +
+                    typeof senderCardOrPublicKey,
+            );
+        }
+
+        const virgilCrypto = this.virgilCrypto as VirgilCrypto;
+        const streamDecryptAndVerify = virgilCrypto.createStreamDecryptAndVerify();
+        streamDecryptAndVerify.start(privateKey);
+
+        let removeAbortListener: () => void = () => undefined;
+        let isDisposed = false;
+        const dispose = () => {
+            if (isDisposed) return;
+            isDisposed = true;
+            removeAbortListener();
+            streamDecryptAndVerify.dispose();
+        };
+
+        let offset = 0;
+        return new ReadableStream<Uint8Array>({
+            start: controller => {
+                const { signal } = options;
+                if (!signal) return;
+                const onAbort = () => {
+                    dispose();
+                    controller.error(new AbortError());
+                };
+                if (signal.aborted) return onAbort();
+                signal.addEventListener('abort', onAbort);
+                removeAbortListener = () => signal.removeEventListener('abort', onAbort);
+            },
+            pull: async controller => {
+                try {
+                    if (offset === fileSize) {
+                        const decryptedChunk = streamDecryptAndVerify.final();
+                        try {
+                            streamDecryptAndVerify.verify(publicKey as VirgilPublicKey, false);
+                        } catch (err) {
+                            throw new IntegrityCheckFailedError(
+                                'Signature verification has failed.',
+                            );
+                        } finally {
+                            dispose();
+                        }
+                        if (decryptedChunk.length) controller.enqueue(decryptedChunk);
+                        controller.close();
+                        return;
+                    }
+
+                    const endOffset = Math.min(offset + chunkSize, fileSize);
+                    const chunk = await readFileChunk(file, offset, endOffset);
+                    if (isDisposed) return;
+                    offset = endOffset;
+                    const decryptedChunk = streamDecryptAndVerify.update(this.toData(chunk));
+                    if (options.onProgress) {
+                        options.onProgress({
+                            state: VIRGIL_STREAM_DECRYPTING_STATE,
+                            bytesProcessed: offset,
+                            fileSize: fileSize,
+                        });
+                    }
+                    if (decryptedChunk.length) controller.enqueue(decryptedChunk);
+                } catch (err) {
+                    dispose();
+                    throw err;
+                }
+            },
+            cancel: dispose,
+        });
+    }
+
+    /**
+     * Creates a `TransformStream` which signs and encrypts the data on the fly, so data coming
+     * from a stream (e.g. the body of `fetch()` response, `MediaRecorder` or WebRTC data channel)
+     * can be encrypted without turning it into a Blob first. If there is no recipient and the data
+     * is encrypted for the current user, omit the recipients parameter.
+     *
+     * If the total length of the data is known in advance, pass it as `options.length`: the result
+     * then has the same format as the result of {@link EThree.authEncrypt} and
+     * {@link EThree.authEncryptFile}, so it can be decrypted with any of {@link EThree.authDecrypt},
+     * {@link EThree.authDecryptFile} and {@link EThree.createDecryptStream}. Otherwise the data is
+     * signed in frames and can be decrypted with {@link EThree.createDecryptStream} only.
+     */
+    createEncryptStream(
+        recipients?: ICard | FindUsersResult | FindUserDevicesResult,
+        options: EncryptStreamOptions = {},
+    ): TransformStream<Uint8Array | ArrayBuffer, Uint8Array> {
+        const { length } = options;
+        if (length !== undefined && (!Number.isInteger(length) || length < 0)) {
+            throw new TypeError('options.length should be a non-negative integer value');
+        }
+        const virgilCrypto = this.virgilCrypto as VirgilCrypto;
+
+        let privateKey: VirgilPrivateKey;
+        let streamSignAndEncrypt: ReturnType<VirgilCrypto['createStreamSignAndEncrypt']> | null;
+        let streamCipher: ReturnType<VirgilCrypto['createStreamCipher']> | null;
+        const dispose = () => {
+            if (streamSignAndEncrypt && !streamSignAndEncrypt.isDisposed) {
+                streamSignAndEncrypt.dispose();
+            }
+            if (streamCipher && !streamCipher.isDisposed) streamCipher.dispose();
+        };
+
+        let bytesProcessed = 0;
+        let frameHash = STREAM_FRAMES_PREFIX;
+        return new TransformStream<Uint8Array | ArrayBuffer, Uint8Array>({
+            start: async controller => {
+                privateKey = (await this.keyLoader.loadLocalPrivateKey()) as VirgilPrivateKey;
+                if (!privateKey) throw new RegisterRequiredError();
+
+                const publicKeys = this.getPublicKeysForEncryption(privateKey, recipients);
+                if (!publicKeys) {
+                    throw new TypeError(
+                        'Could not get public keys from the first argument.\n' +
+                            'Make sure you pass the resolved value of the "EThree.findUsers" method ' +
+                            'when encrypting for other users, or nothing when encrypting for the current user only.',
+                    );
+                }
+
+                if (length === undefined) {
+                    streamCipher = virgilCrypto.createStreamCipher(publicKeys as VirgilPublicKey[]);
+                    controller.enqueue(STREAM_FRAMES_PREFIX.slice());
+                    controller.enqueue(streamCipher.start());
+                } else {
+                    streamSignAndEncrypt = virgilCrypto.createStreamSignAndEncrypt(
+                        privateKey,
+                        publicKeys as VirgilPublicKey[],
+                        true,
+                    );
+                    controller.enqueue(streamSignAndEncrypt.start(length));
+                }
+            },
+            transform: (chunk, controller) => {
+                try {
+                    const data = chunk instanceof ArrayBuffer ? new Uint8Array(chunk) : chunk;
+                    bytesProcessed += data.length;
+                    if (streamCipher) {
+                        for (const frame of splitStreamFrames(data)) {
+                            frameHash = hashStreamFrame(virgilCrypto, frameHash, frame);
+                            controller.enqueue(streamCipher.update(encodeStreamFrame(frame)));
+                        }
+                    } else if (streamSignAndEncrypt) {
+                        if (bytesProcessed > (length as number)) {
+                            throw new TypeError('The data is longer than options.length');
+                        }
+                        controller.enqueue(streamSignAndEncrypt.update(data));
+                    }
+                } catch (err) {
+                    dispose();
+                    throw err;
+                }
+            },
+            flush: controller => {
+                try {
+                    if (streamCipher) {
+                        const signature = virgilCrypto.calculateSignature(frameHash, privateKey);
+                        controller.enqueue(streamCipher.update(encodeStreamFramesEnd(signature)));
+                        controller.enqueue(streamCipher.final(false));
+                    } else if (streamSignAndEncrypt) {
+                        if (bytesProcessed !== length) {
+                            throw new TypeError('The data is shorter than options.length');
+                        }
+                        controller.enqueue(streamSignAndEncrypt.final(false));
+                    }
+                } finally {
+                    dispose();
+                }
+            },
+        });
+    }
+
+    /**
+     * Creates a `TransformStream` which decrypts the data encrypted with
+     * {@link EThree.createEncryptStream}, {@link EThree.authEncrypt} or
+     * {@link EThree.authEncryptFile} on the fly and verifies its integrity.
+     *
+     * The signature is stored after the encrypted data, so the stream is errored with
+     * `IntegrityCheckFailedError` after the last chunk has been decrypted if the signature is
+     * not valid. The decrypted data must not be trusted until the stream is closed.
+     */
+    createDecryptStream(
+        senderCardOrPublicKey?: ICard | IPublicKey,
+        encryptedOn?: Date,
+    ): TransformStream<Uint8Array | ArrayBuffer, Uint8Array> {
+        const virgilCrypto = this.virgilCrypto as VirgilCrypto;
+
+        let privateKey: VirgilPrivateKey;
+        let publicKey: VirgilPublicKey;
+        let streamDecryptAndVerify: ReturnType<VirgilCrypto['createStreamDecryptAndVerify']> | null;
+        let streamDecipher: ReturnType<VirgilCrypto['createStreamDecipher']> | null;
+        let isDisposed = false;
+        const dispose = () => {
+            if (isDisposed) return;
+            isDisposed = true;
+            if (streamDecryptAndVerify) streamDecryptAndVerify.dispose();
+            if (streamDecipher && !streamDecipher.isDisposed) streamDecipher.dispose();
+        };
+
+        // the format of the data is known once its prefix is received
+        let prefix: Uint8Array | null = new Uint8Array(0);
+        const framesReader = new StreamFramesReader();
+        let frameHash = STREAM_FRAMES_PREFIX;
+        const decryptFrames = (
+            data: Uint8Array,
+            controller: TransformStreamDefaultController<Uint8Array>,
+        ) => {
+            for (const frame of framesReader.read(data)) {
+                frameHash = hashStreamFrame(virgilCrypto, frameHash, frame);
+                controller.enqueue(frame);
+            }
+        };
+        const decrypt = (
+            data: Uint8Array,
+            controller: TransformStreamDefaultController<Uint8Array>,
+        ) => {
+            if (prefix) {
+                prefix = concatBytes(prefix, data);
+                if (prefix.length < STREAM_FRAMES_PREFIX.length) return;
+                data = prefix;
+                prefix = null;
+                if (hasStreamFramesPrefix(data)) {
+                    streamDecipher = virgilCrypto.createStreamDecipher(privateKey);
+                    data = data.subarray(STREAM_FRAMES_PREFIX.length);
+                } else {
+                    streamDecryptAndVerify = virgilCrypto.createStreamDecryptAndVerify();
+                    streamDecryptAndVerify.start(privateKey);
+                }
+            }
+            if (streamDecipher) {
+                decryptFrames(streamDecipher.update(data), controller);
+            } else if (streamDecryptAndVerify) {
+                const decryptedChunk = streamDecryptAndVerify.update(data);
+                if (decryptedChunk.length) controller.enqueue(decryptedChunk);
+            }
+        };
+
+        return new TransformStream<Uint8Array | ArrayBuffer, Uint8Array>({
+            start: async () => {
+                privateKey = (await this.keyLoader.loadLocalPrivateKey()) as VirgilPrivateKey;
+                if (!privateKey) throw new RegisterRequiredError();
+
+                publicKey = this.getPublicKeyForVerification(
+                    privateKey,
+                    senderCardOrPublicKey,
+                    encryptedOn,
+                ) as VirgilPublicKey;
+                if (!publicKey) {
+                    throw new TypeError(
+                        'Could not get public key from the first argument.' +
+                            'Expected a Virgil Card or a Public Key object. Got ' +
+                            typeof senderCardOrPublicKey,
+                    );
+                }
+            },
+            transform: (chunk, controller) => {
+                try {
+                    decrypt(
+                        chunk instanceof ArrayBuffer ? new Uint8Array(chunk) : chunk,
+                        controller,
+                    );
+                } catch (err) {
+                    dispose();
+                    throw err;
+                }
+            },
+            flush: controller => {
+                try {
+                    if (prefix) {
+                        throw new IntegrityCheckFailedError('Encrypted data is truncated.');
+                    }
+                    if (streamDecipher) {
+                        decryptFrames(streamDecipher.final(false), controller);
+                        const isVerified = virgilCrypto.verifySignature(
+                            frameHash,
+                            framesReader.getSignature(),
+                            publicKey,
+                        );
+                        if (!isVerified) {
+                            throw new IntegrityCheckFailedError(
+                                'Signature verification has failed.',
+                            );
+                        }
+                    } else if (streamDecryptAndVerify) {
+                        const decryptedChunk = streamDecryptAndVerify.final();
+                        try {
+                            streamDecryptAndVerify.verify(publicKey, false);
+                        } catch (err) {
+                            throw new IntegrityCheckFailedError(
+                                'Signature verification has failed.',
+                            );
+                        }
+                        if (decryptedChunk.length) controller.enqueue(decryptedChunk);
+                    }
+                } finally {
+                    dispose();
+                }
+            },
+        });
+    }
+
     /**
      * @hidden
      */
@@ -378,6 +796,7 @@ export class EThree extends AbstractEThree {
             virgilCrypto,
             brainKeyCrypto,
             keyEntryStorage,
+            keyBackupProvider: opts.keyBackupProvider,
             apiUrl: opts.apiUrl,
         });
         const cardManager = new CardManager({
@@ -404,6 +823,12 @@ export class EThree extends AbstractEThree {
             keyLoader,
             groupStorageLeveldown,
             keyPairType: options.keyPairType,
+            deviceId: options.deviceId,
+            keepRemovedGroups: options.keepRemovedGroups,
+            groupRetentionPolicy: options.groupRetentionPolicy,
+            groupTicketTransport: options.groupTicketTransport,
+            ratchetPreKeyServer: options.ratchetPreKeyServer,
+            groupFileProcessor: blobGroupFileProcessor,
         };
     }
 
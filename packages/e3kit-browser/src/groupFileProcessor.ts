@@ -0,0 +1,50 @@
+import { GroupFileProcessor } from '@virgilsecurity/e3kit-base';
+
+import { readFileChunk } from './processFile';
+import { isFile } from './typeguards';
+
+/**
+ * @hidden
+ *
+ * Reads `File` and `Blob` encrypted and decrypted with {@link Group.encryptFile} and
+ * {@link Group.decryptFile}. The encrypted file is created as `File` or `Blob` of the same type,
+ * while the decrypted one is streamed with `ReadableStream`, so the chunks are decrypted as
+ * the stream is read.
+ */
+export const blobGroupFileProcessor: GroupFileProcessor = {
+    async openFile(file, chunkSize) {
+        if (!(file instanceof Blob)) {
+            throw new TypeError('Expected the file to be a File, a Blob or a byte array');
+        }
+        let offset = 0;
+        return {
+            size: file.size,
+            read: async () => {
+                if (offset >= file.size) return null;
+                const endOffset = Math.min(offset + chunkSize, file.size);
+                const chunk = await readFileChunk(file, offset, endOffset);
+                offset = endOffset;
+                return new Uint8Array(chunk);
+            },
+            close: () => undefined,
+        };
+    },
+    async createFile(file, read, isEncrypted) {
+        const blob = file as Blob;
+        if (isEncrypted) {
+            const chunks: Uint8Array[] = [];
+            for (let chunk = await read(); chunk; chunk = await read()) {
+                chunks.push(chunk);
+            }
+            if (isFile(blob)) return new File(chunks, blob.name, { type: blob.type });
+            return new Blob(chunks, { type: blob.type });
+        }
+        return new ReadableStream<Uint8Array>({
+            pull: async controller => {
+                const chunk = await read();
+                if (chunk) controller.enqueue(chunk);
+                else controller.close();
+            },
+        });
+    },
+};
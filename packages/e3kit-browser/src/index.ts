@@ -3,6 +3,7 @@ export {
     SdkError,
     IdentityAlreadyExistsError,
     RegisterRequiredError,
+    WrongPasswordError,
     WrongKeyknoxPasswordError,
     PrivateKeyAlreadyExistsError,
     PrivateKeyNoBackupError,
@@ -14,7 +15,24 @@ export {
     AbortError,
     GroupErrorCode,
     GroupError,
+    RatchetErrorCode,
+    RatchetError,
     MissingPrivateKeyError,
+    PrivateKeyMismatchError,
+    DeviceLinkError,
+    // key backup
+    KeyknoxKeyBackupProvider,
+    InMemoryKeyBackupProvider,
+    PasswordKeyBackupProvider,
+    // device link
+    DeviceLink,
+    // groups
+    InMemoryGroupTicketTransport,
+    // ratchet
+    InMemoryRatchetPreKeyServer,
+    RatchetChannel,
+    // multi-device
+    getCardDeviceId,
     // types
     NodeBuffer,
     Data,
@@ -28,12 +46,52 @@ export {
     ICard,
     IKeyEntryStorage,
     IKeyEntry,
+    KeyBackupProvider,
+    PasswordKeyBackupProviderOptions,
+    PasswordKeyBackup,
+    ScryptParams,
+    PasswordKeyDerivation,
+    ExportedPrivateKey,
+    DeviceLinkTransport,
+    LinkDeviceOptions,
     LookupResult,
     EncryptPublicKeyArg,
     FindUsersResult,
+    FindUserDevicesResult,
+    FindUsersOptions,
     Ticket,
     GroupInfo,
+    GroupId,
+    GroupMetadata,
+    GroupRole,
+    GroupRoles,
+    SignedGroupRoles,
+    CreateGroupOptions,
+    GroupHistoryEntry,
+    GroupSummary,
+    GroupOperation,
+    GroupOperationType,
+    GroupRetentionPolicy,
+    GroupTicket,
+    GroupTicketTransport,
+    GroupTicketTransportOptions,
+    GroupTicketTransportFactory,
+    GroupEvent,
+    GroupEventType,
+    GroupEventListener,
+    GroupEpochChangedEvent,
+    GroupParticipantsChangedEvent,
+    GroupAccessRevokedEvent,
+    RatchetPreKey,
+    RatchetInvitation,
+    RatchetPreKeyServer,
+    RatchetPreKeyServerOptions,
+    RatchetPreKeyServerFactory,
     RawGroup,
+    onGroupFileProgressCallback,
+    onGroupFileProgressSnapshot,
+    GroupEncryptFileOptions,
+    GroupDecryptFileOptions,
 } from '@virgilsecurity/e3kit-base';
 export { KeyPairType } from 'virgil-crypto';
 export * from './constants';
@@ -47,4 +105,5 @@ export {
     EThreeCtorOptions,
     EncryptFileOptions,
     DecryptFileOptions,
+    EncryptStreamOptions,
 } from './types';
@@ -36,13 +36,17 @@ export function processFile({
     let offset = 0;
     let endOffset = Math.min(offset + chunkSize, dataSize);
 
+    let removeAbortListener: () => void = () => undefined;
+
     if (signal) {
         const onAbort = () => {
+            removeAbortListener();
             reader.abort();
             onErrorCallback(new AbortError());
         };
         if (signal.aborted) return onAbort();
-        else signal.addEventListener('abort', onAbort);
+        signal.addEventListener('abort', onAbort);
+        removeAbortListener = () => signal.removeEventListener('abort', onAbort);
     }
 
     reader.onload = () => {
@@ -51,6 +55,7 @@ export function processFile({
         try {
             onChunkCallback(reader.result, endOffset);
         } catch (err) {
+            removeAbortListener();
             return onErrorCallback(err);
         }
 
@@ -58,6 +63,7 @@ export function processFile({
         endOffset = Math.min(offset + chunkSize, dataSize);
 
         if (offset === dataSize) {
+            removeAbortListener();
             try {
                 onFinishCallback();
             } catch (err) {
@@ -68,7 +74,27 @@ export function processFile({
         }
     };
 
-    reader.onerror = () => onErrorCallback(reader.error);
+    reader.onerror = () => {
+        removeAbortListener();
+        onErrorCallback(reader.error);
+    };
 
     reader.readAsArrayBuffer(file.slice(offset, endOffset));
 }
+
+/**
+ * @hidden
+ *
+ * Reads the part of the `file` between `start` and `end` offsets.
+ */
+export function readFileChunk(file: Blob, start: number, end: number) {
+    return new Promise<ArrayBuffer>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => {
+            if (!reader.result) return reject(new Error('reader.result is null'));
+            resolve(reader.result as ArrayBuffer);
+        };
+        reader.onerror = () => reject(reader.error);
+        reader.readAsArrayBuffer(file.slice(start, end));
+    });
+}
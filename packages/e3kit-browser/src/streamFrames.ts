@@ -0,0 +1,135 @@
+import { IntegrityCheckFailedError } from '@virgilsecurity/e3kit-base';
+import { VirgilCrypto } from 'virgil-crypto';
+
+/**
+ * @hidden
+ *
+ * Marks the data encrypted with {@link EThree.createEncryptStream} when the length of the data
+ * isn't known in advance, 'VSF1' in ASCII. The data encrypted in the format of
+ * {@link EThree.authEncrypt} starts with the tag of DER sequence instead.
+ *
+ * The data is split into frames, every frame is stored as its length followed by the frame
+ * itself. The frames are followed by the zero length and the signature of the hash chain of
+ * the frames, and everything but the prefix is encrypted with the stream cipher. The frames
+ * are hashed one by one, so the data can be verified without knowing its length in advance.
+ */
+export const STREAM_FRAMES_PREFIX = new Uint8Array([0x56, 0x53, 0x46, 0x31]);
+
+/**
+ * @hidden
+ */
+export const MAX_STREAM_FRAME_SIZE = 64 * 1024;
+
+const STREAM_FRAME_LENGTH_SIZE = 4;
+
+/**
+ * @hidden
+ */
+export const concatBytes = (a: Uint8Array, b: Uint8Array) => {
+    const result = new Uint8Array(a.length + b.length);
+    result.set(a);
+    result.set(b, a.length);
+    return result;
+};
+
+const encodeLength = (length: number) => {
+    const result = new Uint8Array(STREAM_FRAME_LENGTH_SIZE);
+    new DataView(result.buffer).setUint32(0, length);
+    return result;
+};
+
+/**
+ * @hidden
+ */
+export const hasStreamFramesPrefix = (data: Uint8Array) =>
+    STREAM_FRAMES_PREFIX.every((byte, i) => data[i] === byte);
+
+/**
+ * @hidden
+ *
+ * Splits the data into the frames of {@link MAX_STREAM_FRAME_SIZE} bytes at most.
+ */
+export const splitStreamFrames = (data: Uint8Array) => {
+    const frames: Uint8Array[] = [];
+    for (let offset = 0; offset < data.length; offset += MAX_STREAM_FRAME_SIZE) {
+        frames.push(data.subarray(offset, offset + MAX_STREAM_FRAME_SIZE));
+    }
+    return frames;
+};
+
+/**
+ * @hidden
+ */
+export const encodeStreamFrame = (frame: Uint8Array) =>
+    concatBytes(encodeLength(frame.length), frame);
+
+/**
+ * @hidden
+ *
+ * Returns the zero length marking the end of the frames followed by the signature.
+ */
+export const encodeStreamFramesEnd = (signature: Uint8Array) =>
+    concatBytes(encodeLength(0), signature);
+
+/**
+ * @hidden
+ *
+ * Returns the hash of the frame chained to the hash of the previous frame, so the order and
+ * the number of the frames are signed along with the data. The chain starts with the prefix.
+ */
+export const hashStreamFrame = (
+    virgilCrypto: VirgilCrypto,
+    previousHash: Uint8Array,
+    frame: Uint8Array,
+) => virgilCrypto.calculateHash(concatBytes(previousHash, frame));
+
+/**
+ * @hidden
+ *
+ * Splits the decrypted data into the frames and collects the signature stored after them.
+ */
+export class StreamFramesReader {
+    private buffer = new Uint8Array(0);
+    private signature: Uint8Array | null = null;
+
+    /**
+     * Returns the frames completed by the data.
+     */
+    read(data: Uint8Array) {
+        if (this.signature) {
+            this.signature = concatBytes(this.signature, data);
+            return [];
+        }
+        const buffer = concatBytes(this.buffer, data);
+        const view = new DataView(buffer.buffer);
+        const frames: Uint8Array[] = [];
+        let offset = 0;
+        while (buffer.length - offset >= STREAM_FRAME_LENGTH_SIZE) {
+            const length = view.getUint32(offset);
+            const frameOffset = offset + STREAM_FRAME_LENGTH_SIZE;
+            if (length === 0) {
+                this.signature = buffer.slice(frameOffset);
+                this.buffer = new Uint8Array(0);
+                return frames;
+            }
+            if (length > MAX_STREAM_FRAME_SIZE) {
+                throw new IntegrityCheckFailedError('Encrypted data is corrupted.');
+            }
+            if (buffer.length - frameOffset < length) break;
+            frames.push(buffer.slice(frameOffset, frameOffset + length));
+            offset = frameOffset + length;
+        }
+        this.buffer = buffer.slice(offset);
+        return frames;
+    }
+
+    /**
+     * Returns the signature once the data is read to the end.
+     */
+    getSignature() {
+        if (!this.signature) {
+            throw new IntegrityCheckFailedError('Encrypted data is truncated.');
+        }
+        return this.signature;
+    }
+}
@@ -12,6 +12,7 @@ export type IPublicKey = import('@virgilsecurity/e3kit-base').IPublicKey;
 export type EThreeBaseInitializeOptions = import('@virgilsecurity/e3kit-base').EThreeInitializeOptions;
 export type EThreeBaseCtorOptions = import('@virgilsecurity/e3kit-base').EThreeCtorOptions;
 export type FindUsersResult = import('@virgilsecurity/e3kit-base').FindUsersResult;
+export type FindUserDevicesResult = import('@virgilsecurity/e3kit-base').FindUserDevicesResult;
 export type LookupResult = import('@virgilsecurity/e3kit-base').LookupResult;
 
 export type KeyPairType = import('virgil-crypto').KeyPairType;
@@ -111,3 +112,15 @@ export interface DecryptFileOptions extends FileOptions {
     onProgress?: onDecryptProgressCallback;
     encryptedOn?: Date;
 }
+
+/**
+ * Options for createEncryptStream method.
+ */
+export interface EncryptStreamOptions {
+    /**
+     * Total length of the data in bytes, if known in advance. The data is then encrypted in
+     * the format of {@link EThree.authEncrypt} and the length is signed along with the data, so
+     * the stream is errored if the data turns out to be shorter or longer.
+     */
+    length?: number;
+}
@@ -46,6 +46,7 @@ export class EThree extends AbstractEThree {
             virgilCrypto,
             brainKeyCrypto: virgilBrainKeyCrypto,
             keyEntryStorage,
+            keyBackupProvider: opts.keyBackupProvider,
             apiUrl: opts.apiUrl,
         });
         const cardManager = new CardManager({
@@ -74,6 +75,11 @@ export class EThree extends AbstractEThree {
             keyLoader,
             groupStorageLeveldown,
             keyPairType: options.keyPairType,
+            deviceId: options.deviceId,
+            keepRemovedGroups: options.keepRemovedGroups,
+            groupRetentionPolicy: options.groupRetentionPolicy,
+            groupTicketTransport: options.groupTicketTransport,
+            ratchetPreKeyServer: options.ratchetPreKeyServer,
         });
     }
 
@@ -6,11 +6,14 @@ import {
     DEFAULT_GROUP_STORAGE_NAME,
     AbstractEThree,
     PrivateKeyLoader,
+    IntegrityCheckFailedError,
+    RegisterRequiredError,
 } from '@virgilsecurity/e3kit-base';
 import { initPythia, VirgilBrainKeyCrypto } from '@virgilsecurity/pythia-crypto';
 import isInvalidPath from 'is-invalid-path';
 import leveldown from 'leveldown';
 import mkdirp from 'mkdirp';
+import { Readable } from 'stream';
 import {
     initCrypto,
     VirgilCardCrypto,
@@ -20,13 +23,29 @@ import {
 } from 'virgil-crypto';
 import { CachingJwtProvider, CardManager, KeyEntryStorage, VirgilCardVerifier } from 'virgil-sdk';
 
+import {
+    VIRGIL_STREAM_SIGNING_STATE,
+    VIRGIL_STREAM_ENCRYPTING_STATE,
+    VIRGIL_STREAM_DECRYPTING_STATE,
+    VIRGIL_STREAM_VERIFYING_STATE,
+} from './constants';
+import { streamGroupFileProcessor } from './groupFileProcessor';
+import { getFileSize, openFile, processFile, transformFile } from './processFile';
 import {
     Data,
+    ICard,
     IPublicKey,
+    VirgilPrivateKey,
     FoundationLibraryOptions,
     PythiaLibraryOptions,
     EThreeInitializeOptions,
     EThreeCtorOptions,
+    EncryptFileOptions,
+    DecryptFileOptions,
+    FileSource,
+    FindUsersResult,
+    FindUserDevicesResult,
+    LookupResult,
 } from './types';
 
 export class EThree extends AbstractEThree {
@@ -56,6 +75,7 @@ export class EThree extends AbstractEThree {
             virgilCrypto,
             brainKeyCrypto,
             keyEntryStorage,
+            keyBackupProvider: opts.keyBackupProvider,
             apiUrl: opts.apiUrl,
         });
         const cardManager = new CardManager({
@@ -86,6 +106,12 @@ export class EThree extends AbstractEThree {
             keyLoader,
             groupStorageLeveldown,
             keyPairType: options.keyPairType,
+            deviceId: options.deviceId,
+            keepRemovedGroups: options.keepRemovedGroups,
+            groupRetentionPolicy: options.groupRetentionPolicy,
+            groupTicketTransport: options.groupTicketTransport,
+            ratchetPreKeyServer: options.ratchetPreKeyServer,
+            groupFileProcessor: streamGroupFileProcessor,
         });
     }
 
@@ -130,6 +156,233 @@ export class EThree extends AbstractEThree {
         return { loginPassword, backupPassword };
     }
 
+    /**
+     * Signs and encrypts the file. If there is no recipient and the file is encrypted for the
+     * current user, omit the recipients parameter. You can define chunk size and a callback,
+     * that will be invoked on each chunk.
+     *
+     * Resolves with a `Readable` stream of the encrypted file, which can be piped to a file or
+     * any other `Writable` stream.
+     *
+     * The file will be read twice during this method execution:
+     * 1. To calculate the signature of the plaintext file.
+     * 2. To encrypt the file with encoded signature.
+     */
+    encryptFile(
+        source: FileSource,
+        recipients?: ICard | FindUsersResult | FindUserDevicesResult,
+        options?: EncryptFileOptions,
+    ): Promise<Readable>;
+    /**
+     * @deprecated and will be removed in next major release.
+     */
+    encryptFile(
+        source: FileSource,
+        recipients?: IPublicKey | LookupResult,
+        options?: EncryptFileOptions,
+    ): Promise<Readable>;
+    async encryptFile(
+        source: FileSource,
+        recipients?: ICard | FindUsersResult | FindUserDevicesResult | IPublicKey | LookupResult,
+        options: EncryptFileOptions = {},
+    ): Promise<Readable> {
+        const chunkSize = options.chunkSize ? options.chunkSize : 64 * 1024;
+        if (!Number.isInteger(chunkSize)) throw TypeError('chunkSize should be an integer value');
+
+        const privateKey = await this.keyLoader.loadLocalPrivateKey();
+        if (!privateKey) throw new RegisterRequiredError();
+
+        const publicKeys = this.getPublicKeysForEncryption(privateKey, recipients);
+        if (!publicKeys) {
+            throw new TypeError(
+                'Could not get public keys from the second argument.\n' +
+                    'Make sure you pass the resolved value of "EThree.findUsers" or "EThree.lookupPublicKeys" methods ' +
+                    'when encrypting for other users, or nothing when encrypting for the current user only.',
+            );
+        }
+
+        let fileSize = await getFileSize(source);
+        const streamSigner = (this.virgilCrypto as VirgilCrypto).createStreamSigner();
+
+        const signature = await new Promise<Buffer>((resolve, reject) => {
+            let bytesRead = 0;
+            processFile({
+                stream: openFile(source, chunkSize),
+                signal: options.signal,
+                onChunkCallback: (chunk, offset) => {
+                    streamSigner.update(chunk);
+                    bytesRead = offset;
+                    if (options.onProgress) {
+                        options.onProgress({
+                            state: VIRGIL_STREAM_SIGNING_STATE,
+                            bytesProcessed: offset,
+                            fileSize,
+                        });
+                    }
+                },
+                onFinishCallback: () => {
+                    if (typeof fileSize === 'undefined') fileSize = bytesRead;
+                    try {
+                        resolve(streamSigner.sign(privateKey as VirgilPrivateKey, false));
+                    } finally {
+                        streamSigner.dispose();
+                    }
+                },
+                onErrorCallback: err => {
+                    if (!streamSigner.isDisposed) streamSigner.dispose();
+                    reject(err);
+                },
+            });
+        });
+
+        const streamCipher = (this.virgilCrypto as VirgilCrypto).createStreamCipher(
+            publicKeys as VirgilPublicKey[],
+            signature,
+        );
+
+        return transformFile({
+            stream: openFile(source, chunkSize),
+            signal: options.signal,
+            onStartCallback: () => streamCipher.start(),
+            onChunkCallback: (chunk, offset) => {
+                const encryptedChunk = streamCipher.update(chunk);
+                if (options.onProgress) {
+                    options.onProgress({
+                        state: VIRGIL_STREAM_ENCRYPTING_STATE,
+                        bytesProcessed: offset,
+                        fileSize,
+                    });
+                }
+                return encryptedChunk;
+            },
+            onFinishCallback: () => {
+                try {
+                    return streamCipher.final(false);
+                } finally {
+                    streamCipher.dispose();
+                }
+            },
+            onErrorCallback: () => {
+                if (!streamCipher.isDisposed) streamCipher.dispose();
+            },
+        });
+    }
+
+    /**
+     * Decrypts and verifies integrity of the file. If there is no recipient and the file is
+     * encrypted for the current user, omit the sender card parameter. You can define chunk size
+     * and a callback, that will be invoked on each chunk.
+     *
+     * Resolves with a `Readable` stream of the decrypted file. The stream emits
+     * `IntegrityCheckFailedError` after the last chunk of the file is decrypted if the signature
+     * is not valid, so the decrypted data must not be trusted until the stream ends.
+     *
+     * The file will be read twice during this method execution:
+     * 1. To decrypt the file and extract the signature.
+     * 2. To decrypt the file again and verify the signature over the decrypted data.
+     */
+    async decryptFile(
+        source: FileSource,
+        senderCardOrPublicKey?: ICard | IPublicKey,
+        options: DecryptFileOptions = {},
+    ): Promise<Readable> {
+        const chunkSize = options.chunkSize ? options.chunkSize : 64 * 1024;
+        if (!Number.isInteger(chunkSize)) throw TypeError('chunkSize should be an integer value');
+
+        const privateKey = (await this.keyLoader.loadLocalPrivateKey()) as VirgilPrivateKey;
+        if (!privateKey) throw new RegisterRequiredError();
+
+        const publicKey = this.getPublicKeyForVerification(
+            privateKey,
+            senderCardOrPublicKey,
+            options.encryptedOn,
+        );
+        if (!publicKey) {
+            throw new TypeError(
+                'Could not get public key from the second argument.' +
+                    'Expected a Virgil Card or a Public Key object. Got ' +
+                    typeof senderCardOrPublicKey,
+            );
+        }
+
+        let fileSize = await getFileSize(source);
+        const streamDecipher = (this.virgilCrypto as VirgilCrypto).createStreamDecipher(privateKey);
+
+        const signature = await new Promise<Buffer>((resolve, reject) => {
+            let bytesRead = 0;
+            processFile({
+                stream: openFile(source, chunkSize),
+                signal: options.signal,
+                onChunkCallback: (chunk, offset) => {
+                    streamDecipher.update(chunk);
+                    bytesRead = offset;
+                    if (options.onProgress) {
+                        options.onProgress({
+                            state: VIRGIL_STREAM_DECRYPTING_STATE,
+                            bytesProcessed: offset,
+                            fileSize,
+                        });
+                    }
+                },
+                onFinishCallback: () => {
+                    if (typeof fileSize === 'undefined') fileSize = bytesRead;
+                    let signature: Buffer;
+                    try {
+                        streamDecipher.final(false);
+                        signature = streamDecipher.getSignature();
+                    } finally {
+                        streamDecipher.dispose();
+                    }
+                    if (!signature) throw new IntegrityCheckFailedError('Signature not present.');
+                    resolve(signature);
+                },
+                onErrorCallback: err => {
+                    if (!streamDecipher.isDisposed) streamDecipher.dispose();
+                    reject(err);
+                },
+            });
+        });
+
+        const verifyingDecipher = (this.virgilCrypto as VirgilCrypto).createStreamDecipher(
+            privateKey,
+        );
+        const streamVerifier = (this.virgilCrypto as VirgilCrypto).createStreamVerifier(signature);
+
+        return transformFile({
+            stream: openFile(source, chunkSize),
+            signal: options.signal,
+            onChunkCallback: (chunk, offset) => {
+                const decryptedChunk = verifyingDecipher.update(chunk);
+                streamVerifier.update(decryptedChunk);
+                if (options.onProgress) {
+                    options.onProgress({
+                        state: VIRGIL_STREAM_VERIFYING_STATE,
+                        bytesProcessed: offset,
+                        fileSize,
+                    });
+                }
+                return decryptedChunk;
+            },
+            onFinishCallback: () => {
+                try {
+                    const decryptedChunk = verifyingDecipher.final(false);
+                    streamVerifier.update(decryptedChunk);
+                    if (!streamVerifier.verify(publicKey as VirgilPublicKey, false)) {
+                        throw new IntegrityCheckFailedError('Signature verification has failed.');
+                    }
+                    return decryptedChunk;
+                } finally {
+                    verifyingDecipher.dispose();
+                    streamVerifier.dispose();
+                }
+            },
+            onErrorCallback: () => {
+                if (!verifyingDecipher.isDisposed) verifyingDecipher.dispose();
+                if (!streamVerifier.isDisposed) streamVerifier.dispose();
+            },
+        });
+    }
+
     /**
      * @hidden
      */
@@ -0,0 +1,11 @@
+export type VIRGIL_STREAM_SIGNING_STATE = 'Signing';
+export const VIRGIL_STREAM_SIGNING_STATE = 'Signing';
+
+export type VIRGIL_STREAM_ENCRYPTING_STATE = 'Encrypting';
+export const VIRGIL_STREAM_ENCRYPTING_STATE = 'Encrypting';
+
+export type VIRGIL_STREAM_DECRYPTING_STATE = 'Decrypting';
+export const VIRGIL_STREAM_DECRYPTING_STATE = 'Decrypting';
+
+export type VIRGIL_STREAM_VERIFYING_STATE = 'Verifying';
+export const VIRGIL_STREAM_VERIFYING_STATE = 'Verifying';
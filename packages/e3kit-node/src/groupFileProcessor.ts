@@ -0,0 +1,61 @@
+import { GroupFileProcessor } from '@virgilsecurity/e3kit-base';
+import { Readable } from 'stream';
+
+import { getFileSize, openFile } from './processFile';
+import { FileSource } from './types';
+
+/**
+ * Resolves with the next chunk of the `stream` or `null` once the stream ends.
+ */
+const readStreamChunk = (stream: Readable, isEnded: () => boolean) =>
+    new Promise<Buffer | null>((resolve, reject) => {
+        if (isEnded()) return resolve(null);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const listeners: { [event: string]: (...args: any[]) => void } = {};
+        const settle = (callback: () => void) => {
+            for (const event of Object.keys(listeners)) {
+                stream.removeListener(event, listeners[event]);
+            }
+            callback();
+        };
+        listeners.readable = () => {
+            const chunk = stream.read();
+            if (chunk !== null) settle(() => resolve(chunk));
+        };
+        listeners.end = () => settle(() => resolve(null));
+        listeners.error = (err: Error) => settle(() => reject(err));
+        for (const event of Object.keys(listeners)) {
+            stream.on(event, listeners[event]);
+        }
+        listeners.readable();
+    });
+
+/**
+ * @hidden
+ *
+ * Reads the files given as {@link FileSource} encrypted and decrypted with
+ * {@link Group.encryptFile} and {@link Group.decryptFile}. The results are `Readable` streams,
+ * so the chunks are encrypted and decrypted as the streams are read.
+ */
+export const streamGroupFileProcessor: GroupFileProcessor = {
+    async openFile(file, chunkSize) {
+        const stream = openFile(file as FileSource, chunkSize);
+        let isEnded = false;
+        stream.once('end', () => {
+            isEnded = true;
+        });
+        return {
+            size: await getFileSize(file as FileSource),
+            read: () => readStreamChunk(stream, () => isEnded),
+            close: () => stream.destroy(),
+        };
+    },
+    async createFile(_file, read) {
+        const result: Readable = new Readable({
+            read: () => {
+                read().then(chunk => result.push(chunk), err => result.destroy(err));
+            },
+        });
+        return result;
+    },
+};
@@ -8,6 +8,7 @@ export {
     SdkError,
     IdentityAlreadyExistsError,
     RegisterRequiredError,
+    WrongPasswordError,
     WrongKeyknoxPasswordError,
     PrivateKeyAlreadyExistsError,
     PrivateKeyNoBackupError,
@@ -19,7 +20,24 @@ export {
     AbortError,
     GroupErrorCode,
     GroupError,
+    RatchetErrorCode,
+    RatchetError,
     MissingPrivateKeyError,
+    PrivateKeyMismatchError,
+    DeviceLinkError,
+    // key backup
+    KeyknoxKeyBackupProvider,
+    InMemoryKeyBackupProvider,
+    PasswordKeyBackupProvider,
+    // device link
+    DeviceLink,
+    // groups
+    InMemoryGroupTicketTransport,
+    // ratchet
+    InMemoryRatchetPreKeyServer,
+    RatchetChannel,
+    // multi-device
+    getCardDeviceId,
     // types
     NodeBuffer,
     Data,
@@ -33,13 +51,64 @@ export {
     ICard,
     IKeyEntryStorage,
     IKeyEntry,
+    KeyBackupProvider,
+    PasswordKeyBackupProviderOptions,
+    PasswordKeyBackup,
+    ScryptParams,
+    PasswordKeyDerivation,
+    ExportedPrivateKey,
+    DeviceLinkTransport,
+    LinkDeviceOptions,
     LookupResult,
     EncryptPublicKeyArg,
     FindUsersResult,
+    FindUserDevicesResult,
+    FindUsersOptions,
     Ticket,
     GroupInfo,
+    GroupId,
+    GroupMetadata,
+    GroupRole,
+    GroupRoles,
+    SignedGroupRoles,
+    CreateGroupOptions,
+    GroupHistoryEntry,
+    GroupSummary,
+    GroupOperation,
+    GroupOperationType,
+    GroupRetentionPolicy,
+    GroupTicket,
+    GroupTicketTransport,
+    GroupTicketTransportOptions,
+    GroupTicketTransportFactory,
+    GroupEvent,
+    GroupEventType,
+    GroupEventListener,
+    GroupEpochChangedEvent,
+    GroupParticipantsChangedEvent,
+    GroupAccessRevokedEvent,
+    RatchetPreKey,
+    RatchetInvitation,
+    RatchetPreKeyServer,
+    RatchetPreKeyServerOptions,
+    RatchetPreKeyServerFactory,
     RawGroup,
+    onGroupFileProgressCallback,
+    onGroupFileProgressSnapshot,
+    GroupEncryptFileOptions,
+    GroupDecryptFileOptions,
 } from '@virgilsecurity/e3kit-base';
 export { KeyPairType } from 'virgil-crypto';
+export * from './constants';
 export { EThree } from './EThree';
-export { EThreeInitializeOptions, EThreeCtorOptions } from './types';
+export {
+    onEncryptProgressCallback,
+    onDecryptProgressCallback,
+    onEncryptProgressSnapshot,
+    onDecryptProgressSnapshot,
+    EThreeInitializeOptions,
+    EThreeCtorOptions,
+    EncryptFileOptions,
+    DecryptFileOptions,
+    FileSource,
+} from './types';
@@ -0,0 +1,206 @@
+import { AbortError } from '@virgilsecurity/e3kit-base';
+import fs from 'fs';
+import { Readable, Transform } from 'stream';
+import { promisify } from 'util';
+
+import { FileSource } from './types';
+
+const stat = promisify(fs.stat);
+
+/**
+ * @hidden
+ */
+export type onChunkCallback = (chunk: Buffer, offset: number) => void;
+
+/**
+ * @hidden
+ */
+export type onTransformChunkCallback = (chunk: Buffer, offset: number) => Buffer;
+
+/**
+ * @hidden
+ */
+export type processFileOptions = {
+    stream: Readable;
+    signal?: AbortSignal;
+    onChunkCallback: onChunkCallback;
+    onFinishCallback: () => void;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    onErrorCallback: (err: any) => void;
+};
+
+/**
+ * @hidden
+ */
+export type transformFileOptions = {
+    stream: Readable;
+    signal?: AbortSignal;
+    onStartCallback?: () => Buffer;
+    onChunkCallback: onTransformChunkCallback;
+    onFinishCallback: () => Buffer;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    onErrorCallback: (err: any) => void;
+};
+
+/**
+ * @hidden
+ *
+ * Creates a new `Readable` stream of the file contents.
+ */
+export function openFile(source: FileSource, chunkSize: number): Readable {
+    if (typeof source === 'string') {
+        return fs.createReadStream(source, { highWaterMark: chunkSize });
+    }
+    if (typeof source === 'function') {
+        return source();
+    }
+    throw new TypeError(
+        'Expected file source to be a path to the file or a function returning a Readable stream',
+    );
+}
+
+/**
+ * @hidden
+ *
+ * Returns the size of the file in bytes if it can be determined before reading the file.
+ */
+export async function getFileSize(source: FileSource) {
+    if (typeof source !== 'string') return undefined;
+    const stats = await stat(source);
+    return stats.size;
+}
+
+/**
+ * @hidden
+ *
+ * Reads the whole `stream` invoking `onChunkCallback` for every chunk of data.
+ */
+export function processFile({
+    stream,
+    signal,
+    onChunkCallback,
+    onFinishCallback,
+    onErrorCallback,
+}: processFileOptions) {
+    let offset = 0;
+    let isDone = false;
+
+    let removeAbortListener: () => void = () => undefined;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const fail = (err: any) => {
+        if (isDone) return;
+        isDone = true;
+        removeAbortListener();
+        stream.destroy();
+        onErrorCallback(err);
+    };
+
+    if (signal) {
+        const onAbort = () => fail(new AbortError());
+        if (signal.aborted) return onAbort();
+        signal.addEventListener('abort', onAbort);
+        removeAbortListener = () => signal.removeEventListener('abort', onAbort);
+    }
+
+    stream.on('data', (chunk: Buffer) => {
+        if (isDone) return;
+        offset += chunk.length;
+        try {
+            onChunkCallback(chunk, offset);
+        } catch (err) {
+            fail(err);
+        }
+    });
+
+    stream.on('end', () => {
+        if (isDone) return;
+        isDone = true;
+        removeAbortListener();
+        try {
+            onFinishCallback();
+        } catch (err) {
+            onErrorCallback(err);
+        }
+    });
+
+    stream.on('error', fail);
+}
+
+/**
+ * @hidden
+ *
+ * Pipes the `stream` through a `Transform` stream which replaces every chunk of data with
+ * the result of `onChunkCallback`. Returns the readable side of the transform.
+ */
+export function transformFile({
+    stream,
+    signal,
+    onStartCallback,
+    onChunkCallback,
+    onFinishCallback,
+    onErrorCallback,
+}: transformFileOptions): Readable {
+    let offset = 0;
+
+    const transform = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            offset += chunk.length;
+            try {
+                callback(undefined, onChunkCallback(chunk, offset));
+            } catch (err) {
+                callback(err);
+            }
+        },
+        flush(callback) {
+            try {
+                callback(undefined, onFinishCallback());
+            } catch (err) {
+                callback(err);
+            }
+        },
+    });
+
+    let isDone = false;
+
+    let removeAbortListener: () => void = () => undefined;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const fail = (err: any) => {
+        if (isDone) return;
+        isDone = true;
+        removeAbortListener();
+        stream.unpipe(transform);
+        stream.destroy();
+        transform.destroy(err);
+        onErrorCallback(err);
+    };
+
+    if (signal) {
+        const onAbort = () => fail(new AbortError());
+        if (signal.aborted) {
+            process.nextTick(onAbort);
+            return transform;
+        }
+        signal.addEventListener('abort', onAbort);
+        removeAbortListener = () => signal.removeEventListener('abort', onAbort);
+    }
+
+    if (onStartCallback) {
+        try {
+            transform.push(onStartCallback());
+        } catch (err) {
+            process.nextTick(() => fail(err));
+            return transform;
+        }
+    }
+
+    stream.on('error', fail);
+    transform.on('error', fail);
+    transform.on('end', () => {
+        isDone = true;
+        removeAbortListener();
+    });
+    stream.pipe(transform);
+    return transform;
+}
@@ -1,9 +1,22 @@
+import {
+    VIRGIL_STREAM_SIGNING_STATE,
+    VIRGIL_STREAM_ENCRYPTING_STATE,
+    VIRGIL_STREAM_VERIFYING_STATE,
+    VIRGIL_STREAM_DECRYPTING_STATE,
+} from './constants';
+
 export type Data = import('@virgilsecurity/e3kit-base').Data;
+export type ICard = import('@virgilsecurity/e3kit-base').ICard;
 export type IPublicKey = import('@virgilsecurity/e3kit-base').IPublicKey;
 export type EThreeBaseInitializeOptions = import('@virgilsecurity/e3kit-base').EThreeInitializeOptions;
 export type EThreeBaseCtorOptions = import('@virgilsecurity/e3kit-base').EThreeCtorOptions;
 
+export type FindUsersResult = import('@virgilsecurity/e3kit-base').FindUsersResult;
+export type FindUserDevicesResult = import('@virgilsecurity/e3kit-base').FindUserDevicesResult;
+export type LookupResult = import('@virgilsecurity/e3kit-base').LookupResult;
+
 export type KeyPairType = import('virgil-crypto').KeyPairType;
+export type VirgilPrivateKey = import('virgil-crypto').VirgilPrivateKey;
 
 export interface FoundationLibraryOptions {
     foundationWasmPath?: string;
@@ -23,3 +36,86 @@ export interface EThreeInitializeOptions
 export interface EThreeCtorOptions extends EThreeBaseCtorOptions {
     keyPairType?: KeyPairType;
 }
+
+/**
+ * Source of the file processed by encryptFile and decryptFile methods. Either a path to the file
+ * or a function that returns a new `Readable` stream of the file contents each time it is called.
+ * The file is read twice, that is why a function is required instead of a single stream.
+ */
+export type FileSource = string | (() => import('stream').Readable);
+
+/**
+ * Callback invoked for each chunk being processed in encryptFile method.
+ */
+export type onEncryptProgressCallback = (snapshot: onEncryptProgressSnapshot) => void;
+
+/**
+ * Callback invoked for each chunk being processed in decryptFile method.
+ */
+export type onDecryptProgressCallback = (snapshot: onDecryptProgressSnapshot) => void;
+
+// eslint-disable-next-line @typescript-eslint/class-name-casing
+interface onProgressSnapshot {
+    /**
+     * Total size of the file being processed. Is `undefined` during the first pass over
+     * the file if it was given as a stream.
+     */
+    fileSize?: number;
+    /**
+     * Size of the file being encrypted in bytes.
+     */
+    bytesProcessed: number;
+}
+
+/**
+ * An argument of the onEncryptProgressCallback.
+ */
+// eslint-disable-next-line @typescript-eslint/class-name-casing
+export interface onEncryptProgressSnapshot extends onProgressSnapshot {
+    /**
+     * Current status of processing. Can be "Signing" then "Encrypting".
+     */
+    state: VIRGIL_STREAM_SIGNING_STATE | VIRGIL_STREAM_ENCRYPTING_STATE;
+}
+
+// eslint-disable-next-line @typescript-eslint/class-name-casing
+export interface onDecryptProgressSnapshot extends onProgressSnapshot {
+    /**
+     * Current status of processing. Can be "Decrypting" then "Verifying".
+     */
+    state: VIRGIL_STREAM_DECRYPTING_STATE | VIRGIL_STREAM_VERIFYING_STATE;
+}
+
+interface FileOptions {
+    /**
+     * Size of chunk being read from the file at one time. Only used when the file is given as
+     * a path. Default value is 64kb.
+     */
+    chunkSize?: number;
+    /**
+     * Instance of `AbortSignal` which can be received from `AbortController`. Used to cancel
+     * the operation.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Options for encryptFile method.
+ */
+export interface EncryptFileOptions extends FileOptions {
+    /**
+     * `onEncryptProgressCallback` parameter.
+     */
+    onProgress?: onEncryptProgressCallback;
+}
+
+/**
+ * Options for decryptFile method.
+ */
+export interface DecryptFileOptions extends FileOptions {
+    /**
+     * `onDecryptProgressCallback` parameter.
+     */
+    onProgress?: onDecryptProgressCallback;
+    encryptedOn?: Date;
+}
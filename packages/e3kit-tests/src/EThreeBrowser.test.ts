@@ -10,6 +10,7 @@ import {
     LookupResult,
     onEncryptProgressSnapshot,
     onDecryptProgressSnapshot,
+    onGroupFileProgressSnapshot,
     EThree,
 } from '@virgilsecurity/e3kit-browser';
 import { initPythia } from '@virgilsecurity/pythia-crypto';
@@ -46,6 +47,17 @@ describe('EThreeBrowser', () => {
         return promise;
     };
 
+    const readStream = async (stream: ReadableStream<Uint8Array>) => {
+        const reader = stream.getReader();
+        const chunks: Uint8Array[] = [];
+        let result = await reader.read();
+        while (!result.done) {
+            chunks.push(result.value);
+            result = await reader.read();
+        }
+        return readFile(new Blob(chunks));
+    };
+
     describe('EThree.encryptFile/EThree.decryptFile', async () => {
         const identity1 = uuid();
         const identity2 = uuid();
@@ -201,4 +213,273 @@ describe('EThreeBrowser', () => {
             expect.fail();
         });
     });
+
+    describe('EThree.authEncryptFile/EThree.authDecryptFile', async () => {
+        const identity1 = uuid();
+        const identity2 = uuid();
+
+        let sdk1: EThree, sdk2: EThree;
+
+        const originString = 'foo'.repeat(1024 * 3);
+
+        const originFile = new File([originString], 'foo.txt', {
+            type: 'text/plain',
+        });
+
+        before(async () => {
+            [sdk1, sdk2] = await Promise.all([
+                initializeETheeFromIdentity(identity1),
+                initializeETheeFromIdentity(identity2),
+            ]);
+            await Promise.all([sdk1.register(), sdk2.register()]);
+        });
+
+        it('should decrypt file in a single pass', async () => {
+            const [card2, card1] = await Promise.all([
+                sdk1.findUsers(identity2),
+                sdk2.findUsers(identity1),
+            ]);
+            const encryptedFile = await sdk1.authEncryptFile(originFile, card2);
+            expect(encryptedFile).to.be.instanceOf(File);
+            const decryptedSnapshots: onDecryptProgressSnapshot[] = [];
+            const decryptedStream = await sdk2.authDecryptFile(encryptedFile, card1, {
+                chunkSize: Math.ceil(encryptedFile.size / 2),
+                onProgress: decryptedSnapshots.push.bind(decryptedSnapshots),
+            });
+            const decryptedString = await readStream(decryptedStream);
+            expect(decryptedString).to.equal(originString);
+            expect(decryptedSnapshots).to.have.length(2);
+            expect(decryptedSnapshots[1]).to.eql({
+                fileSize: encryptedFile.size,
+                bytesProcessed: encryptedFile.size,
+                state: VIRGIL_STREAM_DECRYPTING_STATE,
+            });
+        });
+
+        it('should verify the signature', async () => {
+            const card2 = await sdk1.findUsers(identity2);
+            const encryptedFile = await sdk1.authEncryptFile(originFile, card2);
+            try {
+                await readStream(await sdk2.authDecryptFile(encryptedFile));
+            } catch (err) {
+                expect(err).to.be.instanceOf(IntegrityCheckFailedError);
+                return;
+            }
+            expect.fail();
+        });
+    });
+
+    describe('EThree.createEncryptStream/EThree.createDecryptStream', async () => {
+        const identity1 = uuid();
+        const identity2 = uuid();
+
+        let sdk1: EThree, sdk2: EThree;
+
+        const originString = 'foo'.repeat(1024 * 30);
+
+        before(async () => {
+            [sdk1, sdk2] = await Promise.all([
+                initializeETheeFromIdentity(identity1),
+                initializeETheeFromIdentity(identity2),
+            ]);
+            await Promise.all([sdk1.register(), sdk2.register()]);
+        });
+
+        it('should encrypt and decrypt data on the fly', async () => {
+            const [card2, card1] = await Promise.all([
+                sdk1.findUsers(identity2),
+                sdk2.findUsers(identity1),
+            ]);
+            const encryptedStream = new Response(originString).body!.pipeThrough(
+                sdk1.createEncryptStream(card2, { length: originString.length }),
+            );
+            const encryptedBlob = await new Response(encryptedStream).blob();
+            const decryptedStream = new Response(encryptedBlob).body!.pipeThrough(
+                sdk2.createDecryptStream(card1),
+            );
+            const decryptedString = await readStream(decryptedStream);
+            expect(decryptedString).to.equal(originString);
+        });
+
+        it('should encrypt and decrypt data of unknown length', async () => {
+            const [card2, card1] = await Promise.all([
+                sdk1.findUsers(identity2),
+                sdk2.findUsers(identity1),
+            ]);
+            const encryptedStream = new Response(originString).body!.pipeThrough(
+                sdk1.createEncryptStream(card2),
+            );
+            const encryptedBlob = await new Response(encryptedStream).blob();
+            const decryptedStream = new Response(encryptedBlob).body!.pipeThrough(
+                sdk2.createDecryptStream(card1),
+            );
+            const decryptedString = await readStream(decryptedStream);
+            expect(decryptedString).to.equal(originString);
+        });
+
+        it('should verify the signature of data of unknown length', async () => {
+            const card2 = await sdk1.findUsers(identity2);
+            const encryptedStream = new Response(originString).body!.pipeThrough(
+                sdk1.createEncryptStream(card2),
+            );
+            const encryptedBlob = await new Response(encryptedStream).blob();
+            try {
+                await readStream(
+                    new Response(encryptedBlob).body!.pipeThrough(sdk2.createDecryptStream()),
+                );
+            } catch (err) {
+                expect(err).to.be.instanceOf(IntegrityCheckFailedError);
+                return;
+            }
+            expect.fail();
+        });
+
+        it('should verify the signature', async () => {
+            const card2 = await sdk1.findUsers(identity2);
+            const encryptedStream = new Response(originString).body!.pipeThrough(
+                sdk1.createEncryptStream(card2, { length: originString.length }),
+            );
+            const encryptedBlob = await new Response(encryptedStream).blob();
+            try {
+                await readStream(
+                    new Response(encryptedBlob).body!.pipeThrough(sdk2.createDecryptStream()),
+                );
+            } catch (err) {
+                expect(err).to.be.instanceOf(IntegrityCheckFailedError);
+                return;
+            }
+            expect.fail();
+        });
+
+        it('should decrypt data encrypted with authEncrypt', async () => {
+            const card1 = await sdk2.findUsers(identity1);
+            const encryptedData = await sdk1.authEncrypt(
+                { value: originString, encoding: 'utf8' },
+                await sdk1.findUsers(identity2),
+            );
+            const decryptedStream = new Response(encryptedData as Uint8Array).body!.pipeThrough(
+                sdk2.createDecryptStream(card1),
+            );
+            const decryptedString = await readStream(decryptedStream);
+            expect(decryptedString).to.equal(originString);
+        });
+
+        it('should fail if the data length does not match', async () => {
+            const card2 = await sdk1.findUsers(identity2);
+            const encryptedStream = new Response(originString).body!.pipeThrough(
+                sdk1.createEncryptStream(card2, { length: originString.length + 1 }),
+            );
+            try {
+                await new Response(encryptedStream).blob();
+            } catch (err) {
+                expect(err).to.be.instanceOf(TypeError);
+                return;
+            }
+            expect.fail();
+        });
+    });
+
+    describe('Group.encryptFile/Group.decryptFile', async () => {
+        const identity1 = uuid();
+        const identity2 = uuid();
+
+        let sdk1: EThree, sdk2: EThree;
+
+        const originString = 'foo'.repeat(1024 * 3);
+
+        const originFile = new File([originString], 'foo.txt', {
+            type: 'text/plain',
+        });
+
+        const readChunkLength = async (file: Blob, offset: number) =>
+            new DataView(
+                await new Response(file.slice(offset, offset + 4)).arrayBuffer(),
+            ).getUint32(0);
+
+        before(async () => {
+            [sdk1, sdk2] = await Promise.all([
+                initializeETheeFromIdentity(identity1),
+                initializeETheeFromIdentity(identity2),
+            ]);
+            await Promise.all([sdk1.register(), sdk2.register()]);
+        });
+
+        it('should decrypt file for the group participant', async () => {
+            const groupId = uuid();
+            const card2 = await sdk1.findUsers(identity2);
+            const group1 = await sdk1.createGroup(groupId, card2);
+            const card1 = await sdk2.findUsers(identity1);
+            const group2 = await sdk2.loadGroup(groupId, card1);
+
+            const encryptedSnapshots: onGroupFileProgressSnapshot[] = [];
+            const encryptedFile = await group1.encryptFile(originFile, {
+                chunkSize: 1024,
+                onProgress: encryptedSnapshots.push.bind(encryptedSnapshots),
+            });
+            expect(encryptedFile).to.be.instanceOf(File);
+            expect(encryptedSnapshots).to.have.length(9);
+            expect(encryptedSnapshots[8]).to.eql({
+                fileSize: originFile.size,
+                bytesProcessed: originFile.size,
+            });
+
+            const decryptedStream = await group2.decryptFile(encryptedFile, card1);
+            const decryptedString = await readStream(decryptedStream);
+            expect(decryptedString).to.equal(originString);
+        });
+
+        it('should not decrypt file with missing chunks', async () => {
+            const groupId = uuid();
+            const card2 = await sdk1.findUsers(identity2);
+            const group1 = await sdk1.createGroup(groupId, card2);
+            const card1 = await sdk2.findUsers(identity1);
+            const group2 = await sdk2.loadGroup(groupId, card1);
+
+            const encryptedFile = await group1.encryptFile(originFile, { chunkSize: 1024 });
+            // the header of the file takes 20 bytes
+            const encryptedChunkSize = await readChunkLength(encryptedFile, 20);
+            try {
+                await readStream(
+                    await group2.decryptFile(
+                        new Blob([
+                            encryptedFile.slice(0, 20),
+                            encryptedFile.slice(20 + 4 + encryptedChunkSize),
+                        ]),
+                        card1,
+                    ),
+                );
+            } catch (err) {
+                expect(err).to.be.instanceOf(IntegrityCheckFailedError);
+                return;
+            }
+            expect.fail();
+        });
+
+        it('should not decrypt file with chunks of another file', async () => {
+            const groupId = uuid();
+            const card2 = await sdk1.findUsers(identity2);
+            const group1 = await sdk1.createGroup(groupId, card2);
+            const card1 = await sdk2.findUsers(identity1);
+            const group2 = await sdk2.loadGroup(groupId, card1);
+
+            const encryptedFile1 = await group1.encryptFile(originFile, { chunkSize: 1024 });
+            const encryptedFile2 = await group1.encryptFile(originFile, { chunkSize: 1024 });
+            const firstChunkEnd = 20 + 4 + (await readChunkLength(encryptedFile1, 20));
+            try {
+                await readStream(
+                    await group2.decryptFile(
+                        new Blob([
+                            encryptedFile1.slice(0, firstChunkEnd),
+                            encryptedFile2.slice(firstChunkEnd),
+                        ]),
+                        card1,
+                    ),
+                );
+            } catch (err) {
+                expect(err).to.be.instanceOf(IntegrityCheckFailedError);
+                return;
+            }
+            expect.fail();
+        });
+    });
 });
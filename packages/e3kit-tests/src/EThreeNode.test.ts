@@ -0,0 +1,235 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import uuid from 'uuid/v4';
+
+import {
+    VIRGIL_STREAM_SIGNING_STATE,
+    VIRGIL_STREAM_ENCRYPTING_STATE,
+    VIRGIL_STREAM_DECRYPTING_STATE,
+    VIRGIL_STREAM_VERIFYING_STATE,
+    IntegrityCheckFailedError,
+    AbortError,
+    FindUsersResult,
+    onEncryptProgressSnapshot,
+    onDecryptProgressSnapshot,
+    EThree,
+} from '@virgilsecurity/e3kit-node';
+import { initPythia } from '@virgilsecurity/pythia-crypto';
+import { initCrypto, VirgilAccessTokenSigner, VirgilCrypto } from 'virgil-crypto';
+import { JwtGenerator } from 'virgil-sdk';
+
+describe('EThreeNode', () => {
+    let virgilCrypto: VirgilCrypto;
+    let jwtGenerator: JwtGenerator;
+
+    before(async () => {
+        await Promise.all([initCrypto(), initPythia()]);
+        virgilCrypto = new VirgilCrypto();
+        jwtGenerator = new JwtGenerator({
+            appId: process.env.APP_ID!,
+            apiKeyId: process.env.APP_KEY_ID!,
+            apiKey: virgilCrypto.importPrivateKey(process.env.APP_KEY!),
+            accessTokenSigner: new VirgilAccessTokenSigner(virgilCrypto),
+        });
+    });
+
+    const createFetchToken = (identity: string) => () =>
+        Promise.resolve(jwtGenerator.generateToken(identity).toString());
+
+    const initializeEThreeFromIdentity = (identity: string) =>
+        EThree.initialize(createFetchToken(identity), {
+            apiUrl: process.env.API_URL,
+            groupStorageName: `.virgil-group-storage/${uuid()}`,
+        });
+
+    const readStream = (stream: Readable) =>
+        new Promise<Buffer>((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            stream
+                .on('data', chunk => chunks.push(chunk))
+                .on('error', reject)
+                .on('end', () => resolve(Buffer.concat(chunks)));
+        });
+
+    const writeTempFile = (data: Buffer) => {
+        const filePath = path.join(os.tmpdir(), uuid());
+        fs.writeFileSync(filePath, data);
+        return filePath;
+    };
+
+    describe('EThree.encryptFile/EThree.decryptFile', () => {
+        const identity1 = uuid();
+        const identity2 = uuid();
+        const identity3 = uuid();
+
+        let sdk1: EThree, sdk2: EThree, sdk3: EThree, cards: FindUsersResult;
+
+        const originData = Buffer.from('foo'.repeat(1024 * 3));
+        let originFilePath: string;
+
+        before(async () => {
+            [sdk1, sdk2, sdk3] = await Promise.all([
+                initializeEThreeFromIdentity(identity1),
+                initializeEThreeFromIdentity(identity2),
+                initializeEThreeFromIdentity(identity3),
+            ]);
+            await Promise.all([sdk1.register(), sdk2.register(), sdk3.register()]);
+            cards = await sdk1.findUsers([identity1, identity2, identity3]);
+            originFilePath = writeTempFile(originData);
+        });
+
+        after(() => {
+            fs.unlinkSync(originFilePath);
+        });
+
+        it('should decrypt file for one card', async () => {
+            const encryptedStream = await sdk1.encryptFile(originFilePath, cards[identity2]);
+            const encryptedFilePath = writeTempFile(await readStream(encryptedStream));
+            const decryptedStream = await sdk2.decryptFile(encryptedFilePath, cards[identity1]);
+            const decryptedData = await readStream(decryptedStream);
+            expect(decryptedData.equals(originData)).to.be.true;
+            fs.unlinkSync(encryptedFilePath);
+        });
+
+        it('should take input as path or stream factory', async () => {
+            const encryptedStream = await sdk1.encryptFile(
+                () => fs.createReadStream(originFilePath),
+                cards[identity2],
+            );
+            const encryptedData = await readStream(encryptedStream);
+            const decryptedStream = await sdk2.decryptFile(() => {
+                const stream = new Readable();
+                stream.push(encryptedData);
+                stream.push(null);
+                return stream;
+            }, cards[identity1]);
+            const decryptedData = await readStream(decryptedStream);
+            expect(decryptedData.equals(originData)).to.be.true;
+        });
+
+        it('should not decrypt for users who are not recipients', async () => {
+            const onlyTwoCards = { [identity1]: cards[identity1], [identity2]: cards[identity2] };
+            const encryptedStream = await sdk1.encryptFile(originFilePath, onlyTwoCards);
+            const encryptedFilePath = writeTempFile(await readStream(encryptedStream));
+            try {
+                await readStream(await sdk3.decryptFile(encryptedFilePath, cards[identity1]));
+            } catch (e) {
+                expect(e).to.be.instanceOf(Error);
+                return;
+            } finally {
+                fs.unlinkSync(encryptedFilePath);
+            }
+            expect.fail();
+        });
+
+        it('should process different chunks of data', async () => {
+            const encryptedSnapshots: onEncryptProgressSnapshot[] = [];
+            const filePath = writeTempFile(Buffer.from('foo'));
+            const encryptedStream = await sdk1.encryptFile(filePath, cards[identity2], {
+                chunkSize: 2,
+                onProgress: encryptedSnapshots.push.bind(encryptedSnapshots),
+            });
+            const encryptedFilePath = writeTempFile(await readStream(encryptedStream));
+            expect(encryptedSnapshots).to.eql([
+                { fileSize: 3, bytesProcessed: 2, state: VIRGIL_STREAM_SIGNING_STATE },
+                { fileSize: 3, bytesProcessed: 3, state: VIRGIL_STREAM_SIGNING_STATE },
+                { fileSize: 3, bytesProcessed: 2, state: VIRGIL_STREAM_ENCRYPTING_STATE },
+                { fileSize: 3, bytesProcessed: 3, state: VIRGIL_STREAM_ENCRYPTING_STATE },
+            ]);
+
+            const encryptedFileSize = fs.statSync(encryptedFilePath).size;
+            const decryptedSnapshots: onDecryptProgressSnapshot[] = [];
+            await readStream(
+                await sdk2.decryptFile(encryptedFilePath, cards[identity1], {
+                    chunkSize: encryptedFileSize,
+                    onProgress: decryptedSnapshots.push.bind(decryptedSnapshots),
+                }),
+            );
+            expect(decryptedSnapshots).to.eql([
+                {
+                    fileSize: encryptedFileSize,
+                    bytesProcessed: encryptedFileSize,
+                    state: VIRGIL_STREAM_DECRYPTING_STATE,
+                },
+                {
+                    fileSize: encryptedFileSize,
+                    bytesProcessed: encryptedFileSize,
+                    state: VIRGIL_STREAM_VERIFYING_STATE,
+                },
+            ]);
+            fs.unlinkSync(filePath);
+            fs.unlinkSync(encryptedFilePath);
+        });
+
+        it('should abort encryptFile', async () => {
+            const abortedSignal = { aborted: true, addEventListener: () => undefined };
+            try {
+                await sdk1.encryptFile(originFilePath, cards[identity2], {
+                    signal: abortedSignal as any,
+                });
+            } catch (err) {
+                expect(err).to.be.instanceOf(AbortError);
+                return;
+            }
+            expect.fail();
+        });
+
+        it('should verify the signature', async () => {
+            const encryptedStream = await sdk1.encryptFile(originFilePath, cards[identity2]);
+            const encryptedFilePath = writeTempFile(await readStream(encryptedStream));
+            try {
+                await readStream(await sdk2.decryptFile(encryptedFilePath));
+            } catch (err) {
+                expect(err).to.be.instanceOf(IntegrityCheckFailedError);
+                return;
+            } finally {
+                fs.unlinkSync(encryptedFilePath);
+            }
+            expect.fail();
+        });
+    });
+
+    describe('Group.encryptFile/Group.decryptFile', () => {
+        const identity1 = uuid();
+        const identity2 = uuid();
+
+        let sdk1: EThree, sdk2: EThree;
+
+        const originData = Buffer.from('foo'.repeat(1024 * 3));
+        let originFilePath: string;
+
+        before(async () => {
+            [sdk1, sdk2] = await Promise.all([
+                initializeEThreeFromIdentity(identity1),
+                initializeEThreeFromIdentity(identity2),
+            ]);
+            await Promise.all([sdk1.register(), sdk2.register()]);
+            originFilePath = writeTempFile(originData);
+        });
+
+        after(() => {
+            fs.unlinkSync(originFilePath);
+        });
+
+        it('should decrypt file for the group participant', async () => {
+            const groupId = uuid();
+            const card2 = await sdk1.findUsers(identity2);
+            const group1 = await sdk1.createGroup(groupId, card2);
+            const card1 = await sdk2.findUsers(identity1);
+            const group2 = await sdk2.loadGroup(groupId, card1);
+
+            const encryptedStream = await group1.encryptFile(originFilePath, { chunkSize: 1024 });
+            const encryptedFilePath = writeTempFile(await readStream(encryptedStream));
+            const decryptedStream = await group2.decryptFile(
+                () => fs.createReadStream(encryptedFilePath),
+                card1,
+            );
+            const decryptedData = await readStream(decryptedStream);
+            expect(decryptedData.equals(originData)).to.be.true;
+            fs.unlinkSync(encryptedFilePath);
+        });
+    });
+});
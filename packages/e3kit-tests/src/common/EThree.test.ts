@@ -8,9 +8,13 @@ import {
     LookupError,
     LookupNotFoundError,
     WrongKeyknoxPasswordError,
+    WrongPasswordError,
     PrivateKeyAlreadyExistsError,
     PrivateKeyNoBackupError,
     MissingPrivateKeyError,
+    PrivateKeyMismatchError,
+    DeviceLinkError,
+    DeviceLinkTransport,
     EThree,
 } from '@virgilsecurity/e3kit-node';
 import {
@@ -485,6 +489,128 @@ describe('EThree', () => {
         });
     });
 
+    describe('exportPrivateKey/importPrivateKey', () => {
+        it('imports exported private key', async () => {
+            const pwd = 'secret_password';
+            const identity = uuid();
+            const sdk = await initializeEThree(createFetchToken(identity));
+            await sdk.register();
+            const privateKey = await keyEntryStorage.load(identity);
+            const exportedKey = await sdk.exportPrivateKey(pwd);
+            await sdk.cleanup();
+            await sdk.importPrivateKey(exportedKey, pwd);
+            const importedPrivateKey = await keyEntryStorage.load(identity);
+            expect(importedPrivateKey!.value).to.equal(privateKey!.value);
+        });
+
+        it('wrong password', async () => {
+            const identity = uuid();
+            const sdk = await initializeEThree(createFetchToken(identity));
+            await sdk.register();
+            const exportedKey = await sdk.exportPrivateKey('secret_password');
+            await sdk.cleanup();
+            try {
+                await sdk.importPrivateKey(exportedKey, 'wrong_password');
+            } catch (e) {
+                expect(e).to.be.instanceOf(WrongPasswordError);
+                return;
+            }
+            expect.fail();
+        });
+
+        it('private key was rotated', async () => {
+            const pwd = 'secret_password';
+            const identity = uuid();
+            const sdk = await initializeEThree(createFetchToken(identity));
+            await sdk.register();
+            const exportedKey = await sdk.exportPrivateKey(pwd);
+            await sdk.cleanup();
+            await sdk.rotatePrivateKey();
+            await sdk.cleanup();
+            try {
+                await sdk.importPrivateKey(exportedKey, pwd);
+            } catch (e) {
+                expect(e).to.be.instanceOf(PrivateKeyMismatchError);
+                return;
+            }
+            expect.fail();
+        });
+    });
+
+    describe('createDeviceLink/linkDevice', () => {
+        const initializeNewDevice = (identity: string, newKeyEntryStorage: KeyEntryStorage) =>
+            EThree.initialize(createFetchToken(identity), {
+                apiUrl: process.env.API_URL,
+                groupStorageName: `.virgil-group-storage/${uuid()}`,
+                keyPairType: KeyPairType.ED25519,
+                keyEntryStorage: newKeyEntryStorage,
+            });
+
+        const createTransportPair = (): [DeviceLinkTransport, DeviceLinkTransport] => {
+            const createTransport = (incoming: string[], outgoing: string[]) => ({
+                send: async (message: string) => {
+                    outgoing.push(message);
+                },
+                receive: async () => {
+                    while (!incoming.length) await sleep(10);
+                    return incoming.shift()!;
+                },
+            });
+            const messages1: string[] = [];
+            const messages2: string[] = [];
+            return [createTransport(messages1, messages2), createTransport(messages2, messages1)];
+        };
+
+        it('transfers private key to the new device', async () => {
+            const identity = uuid();
+            const sdk = await initializeEThree(createFetchToken(identity));
+            await sdk.register();
+            const privateKey = await keyEntryStorage.load(identity);
+            const newKeyEntryStorage = new KeyEntryStorage(`.virgil-local-storage/${uuid()}`);
+            const newSdk = await initializeNewDevice(identity, newKeyEntryStorage);
+            const [transport, newTransport] = createTransportPair();
+            const deviceLink = await newSdk.createDeviceLink();
+            let shortAuthenticationString: string | undefined;
+            const linking = sdk.linkDevice(deviceLink.pairingCode, {
+                transport,
+                confirm: async sas => {
+                    shortAuthenticationString = sas;
+                    return true;
+                },
+            });
+            const newShortAuthenticationString = await deviceLink.getShortAuthenticationString(
+                newTransport,
+            );
+            await linking;
+            await deviceLink.complete(newTransport);
+            expect(newShortAuthenticationString).to.equal(shortAuthenticationString);
+            const transferredPrivateKey = await newKeyEntryStorage.load(identity);
+            expect(transferredPrivateKey!.value).to.equal(privateKey!.value);
+        });
+
+        it('short authentication strings are not confirmed', async () => {
+            const identity = uuid();
+            const sdk = await initializeEThree(createFetchToken(identity));
+            await sdk.register();
+            const newSdk = await initializeNewDevice(
+                identity,
+                new KeyEntryStorage(`.virgil-local-storage/${uuid()}`),
+            );
+            const [transport] = createTransportPair();
+            const deviceLink = await newSdk.createDeviceLink();
+            try {
+                await sdk.linkDevice(deviceLink.pairingCode, {
+                    transport,
+                    confirm: async () => false,
+                });
+            } catch (e) {
+                expect(e).to.be.instanceOf(DeviceLinkError);
+                return;
+            }
+            expect.fail();
+        });
+    });
+
     describe('encrypt and decrypt', () => {
         it('STE-3 ', async () => {
             const identity1 = uuid();
@@ -760,4 +886,39 @@ describe('EThree', () => {
             expect(decrypted).to.equal(message);
         });
     });
+
+    describe('sign -> verify', () => {
+        it('verifies the signature of the sender', async () => {
+            const identity1 = uuid();
+            const identity2 = uuid();
+            const [sdk1, sdk2] = await Promise.all([
+                initializeEThree(createFetchToken(identity1)),
+                initializeEThree(createFetchToken(identity2)),
+            ]);
+            await Promise.all([sdk1.register(), sdk2.register()]);
+            const message = 'release notes';
+            const signature = await sdk1.sign(message);
+            expect(typeof signature === 'string').to.be.true;
+            const card1 = await sdk2.findUsers(identity1);
+            expect(await sdk2.verify(message, signature, card1)).to.be.true;
+            expect(await sdk2.verify('tampered', signature, card1)).to.be.false;
+        });
+
+        it('verifies the signature calculated before the rotation of the private key', async () => {
+            const identity1 = uuid();
+            const identity2 = uuid();
+            const [sdk1, sdk2] = await Promise.all([
+                initializeEThree(createFetchToken(identity1)),
+                initializeEThree(createFetchToken(identity2)),
+            ]);
+            await Promise.all([sdk1.register(), sdk2.register()]);
+            const message = 'audit record';
+            const signature = await sdk1.sign(message);
+            const signedAt = new Date();
+            await sdk1.rotatePrivateKey();
+            const card1 = await sdk2.findUsers(identity1);
+            expect(await sdk2.verify(message, signature, card1)).to.be.false;
+            expect(await sdk2.verify(message, signature, card1, signedAt)).to.be.true;
+        });
+    });
 });
@@ -1,7 +1,13 @@
 import { expect } from 'chai';
 import uuid from 'uuid/v4';
 
-import { EThree, GroupError } from '@virgilsecurity/e3kit-node';
+import {
+    EThree,
+    GroupError,
+    GroupErrorCode,
+    GroupTicketTransportFactory,
+    InMemoryGroupTicketTransport,
+} from '@virgilsecurity/e3kit-node';
 import { initPythia } from '@virgilsecurity/pythia-crypto';
 import { initCrypto, VirgilAccessTokenSigner, VirgilCrypto, KeyPairType } from 'virgil-crypto';
 import { JwtGenerator } from 'virgil-sdk';
@@ -31,17 +37,30 @@ describe('EThree', () => {
     const createFetchToken = (identity: string) => () =>
         Promise.resolve(jwtGenerator.generateToken(identity).toString());
 
-    const initializeEThree = (fetchToken: () => Promise<string>) =>
+    const initializeEThree = (
+        fetchToken: () => Promise<string>,
+        options: {
+            keepRemovedGroups?: boolean;
+            groupTicketTransport?: GroupTicketTransportFactory;
+        } = {},
+    ) =>
         EThree.initialize(fetchToken, {
             apiUrl: process.env.API_URL,
             groupStorageName: `.virgil-group-storage/${uuid()}`,
             keyPairType: KeyPairType.ED25519,
+            ...options,
         });
 
     describe('group encryption', () => {
-        const createEThree = async (identity?: string) => {
+        const createEThree = async (
+            identity?: string,
+            options?: {
+                keepRemovedGroups?: boolean;
+                groupTicketTransport?: GroupTicketTransportFactory;
+            },
+        ) => {
             const myIdentity = identity || uuid();
-            const ethree = await initializeEThree(createFetchToken(myIdentity));
+            const ethree = await initializeEThree(createFetchToken(myIdentity), options);
             await ethree.register();
             return ethree;
         };
@@ -79,6 +98,21 @@ describe('EThree', () => {
             expect(decryptedMessageForCharles.toString('utf8')).to.eq(message);
         });
 
+        it('encrypts and decrypts the files given as byte arrays', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const bobCard = await aliceEThree.findUsers(bobEThree.identity);
+            const groupId = uuid();
+            const aliceGroup = await aliceEThree.createGroup(groupId, bobCard);
+            const aliceCard = await bobEThree.findUsers(aliceEThree.identity);
+            const bobGroup = await bobEThree.loadGroup(groupId, aliceCard);
+
+            const file = Buffer.from('foo'.repeat(1024 * 3));
+            const encryptedFile = await aliceGroup.encryptFile(file, { chunkSize: 1024 });
+            const decryptedFile = await bobGroup.decryptFile(encryptedFile, aliceCard);
+            expect(decryptedFile.equals(file)).to.be.true;
+        });
+
         it('STE-26 `createGroup` throws if trying to pass invalid participants count', async () => {
             const aliceEThree = await createEThree();
             const groupId = uuid();
@@ -536,5 +570,485 @@ describe('EThree', () => {
             expect(participants.has(aliceEThree.identity)).to.be.true;
             expect(participants.has(bobEThree.identity)).to.be.true;
         });
+
+        it('`update` re-adds participants who rotated their keys', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const groupId = uuid();
+            const bobCard = await aliceEThree.findUsers(bobEThree.identity);
+            const group = await aliceEThree.createGroup(groupId, bobCard);
+            await bobEThree.cleanup();
+            await bobEThree.rotatePrivateKey();
+
+            await group.update();
+
+            const aliceCard = await bobEThree.findUsers(aliceEThree.identity);
+            const bobGroup = await bobEThree.loadGroup(groupId, aliceCard);
+            const message = 'message';
+            const encrypted = await group.encrypt(message);
+            const decrypted = await bobGroup.decrypt(encrypted, aliceCard);
+            expect(decrypted.toString('utf8')).to.equal(message);
+        });
+
+        it('admins can add and remove participants', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const charlesEThree = await createEThree();
+            const groupId = uuid();
+            const bobCard = await aliceEThree.findUsers(bobEThree.identity);
+            const aliceGroup = await aliceEThree.createGroup(groupId, bobCard);
+            await aliceGroup.addAdmins(bobCard);
+            expect(aliceGroup.getRole(bobEThree.identity)).to.equal('admin');
+
+            const aliceCard = await bobEThree.findUsers(aliceEThree.identity);
+            const bobGroup = await bobEThree.loadGroup(groupId, aliceCard);
+            expect(bobGroup.admins).to.eql([bobEThree.identity]);
+            expect(bobGroup.isEditable()).to.be.true;
+            const charlesCard = await bobEThree.findUsers(charlesEThree.identity);
+            await bobGroup.add(charlesCard);
+
+            const charlesGroup = await charlesEThree.loadGroup(groupId, aliceCard);
+            expect(charlesGroup.getRole()).to.equal('member');
+            const message = 'message';
+            const encrypted = await charlesGroup.encrypt(message);
+            const charlesCardForAlice = await aliceEThree.findUsers(charlesEThree.identity);
+            await aliceGroup.update();
+            const decrypted = await aliceGroup.decrypt(encrypted, charlesCardForAlice);
+            expect(decrypted.toString('utf8')).to.equal(message);
+
+            await bobGroup.remove(charlesCard);
+            await aliceGroup.update();
+            expect(new Set(aliceGroup.participants)).to.eql(
+                new Set([aliceEThree.identity, bobEThree.identity]),
+            );
+            try {
+                await bobGroup.remove(aliceCard);
+                expect.fail();
+            } catch (error) {
+                expect(error).to.be.instanceOf(GroupError);
+            }
+        });
+
+        it('`transferOwnership` makes the participant the group initiator', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const charlesEThree = await createEThree();
+            const groupId = uuid();
+            const bobAndCharlesCards = await aliceEThree.findUsers([
+                bobEThree.identity,
+                charlesEThree.identity,
+            ]);
+            const aliceGroup = await aliceEThree.createGroup(groupId, bobAndCharlesCards);
+            await aliceGroup.transferOwnership(bobAndCharlesCards[bobEThree.identity]);
+            expect(aliceGroup.getRole()).to.equal('admin');
+
+            const aliceCard = await bobEThree.findUsers(aliceEThree.identity);
+            const bobGroup = await bobEThree.loadGroup(groupId, aliceCard);
+            expect(bobGroup.initiator).to.equal(bobEThree.identity);
+            const charlesCard = await bobEThree.findUsers(charlesEThree.identity);
+            await bobGroup.addAdmins(charlesCard);
+
+            const charlesGroup = await charlesEThree.loadGroup(groupId, aliceCard);
+            expect(charlesGroup.initiator).to.equal(bobEThree.identity);
+            expect(new Set(charlesGroup.admins)).to.eql(
+                new Set([aliceEThree.identity, charlesEThree.identity]),
+            );
+            try {
+                await aliceGroup.addAdmins(charlesCard);
+                expect.fail();
+            } catch (error) {
+                expect(error).to.be.instanceOf(GroupError);
+            }
+        });
+
+        it('`leave` removes the participant on the next `update` of the initiator', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const charlesEThree = await createEThree();
+            const groupId = uuid();
+            const bobAndCharlesCards = await aliceEThree.findUsers([
+                bobEThree.identity,
+                charlesEThree.identity,
+            ]);
+            const aliceGroup = await aliceEThree.createGroup(groupId, bobAndCharlesCards);
+            const aliceCard = await bobEThree.findUsers(aliceEThree.identity);
+            const bobGroup = await bobEThree.loadGroup(groupId, aliceCard);
+
+            await bobGroup.leave();
+            expect(await bobEThree.getGroup(groupId)).to.be.null;
+
+            await aliceGroup.update();
+            expect(new Set(aliceGroup.participants)).to.eql(
+                new Set([aliceEThree.identity, charlesEThree.identity]),
+            );
+            try {
+                await bobEThree.loadGroup(groupId, aliceCard);
+                expect.fail();
+            } catch (error) {
+                expect(error).to.be.instanceOf(GroupError);
+            }
+            try {
+                await aliceGroup.leave();
+                expect.fail();
+            } catch (error) {
+                expect(error).to.be.instanceOf(GroupError);
+            }
+        });
+
+        it('large groups shard the tickets between the participants', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const charlesEThree = await createEThree();
+            const groupId = uuid();
+            const bobCard = await aliceEThree.findUsers(bobEThree.identity);
+            const aliceGroup = await aliceEThree.createGroup(groupId, bobCard, { large: true });
+            const charlesCard = await aliceEThree.findUsers(charlesEThree.identity);
+            await aliceGroup.add(charlesCard);
+
+            const aliceCard = await bobEThree.findUsers(aliceEThree.identity);
+            const bobGroup = await bobEThree.loadGroup(groupId, aliceCard);
+            const charlesGroup = await charlesEThree.loadGroup(groupId, aliceCard);
+            const message = 'message';
+            const encrypted = await aliceGroup.encrypt(message);
+            expect((await bobGroup.decrypt(encrypted, aliceCard)).toString('utf8')).to.equal(
+                message,
+            );
+            expect((await charlesGroup.decrypt(encrypted, aliceCard)).toString('utf8')).to.equal(
+                message,
+            );
+
+            await aliceGroup.remove(charlesCard);
+            await aliceGroup.update();
+            expect(new Set(aliceGroup.participants)).to.eql(
+                new Set([aliceEThree.identity, bobEThree.identity]),
+            );
+            await bobGroup.update();
+            const newEncrypted = await aliceGroup.encrypt(message);
+            expect((await bobGroup.decrypt(newEncrypted, aliceCard)).toString('utf8')).to.equal(
+                message,
+            );
+        });
+
+        it('`getHistory` returns the changes of the participants', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const charlesEThree = await createEThree();
+            const groupId = uuid();
+            const bobCard = await aliceEThree.findUsers(bobEThree.identity);
+            const aliceGroup = await aliceEThree.createGroup(groupId, bobCard);
+            await aliceGroup.addAdmins(bobCard);
+
+            const aliceCard = await bobEThree.findUsers(aliceEThree.identity);
+            const bobGroup = await bobEThree.loadGroup(groupId, aliceCard);
+            const charlesCard = await bobEThree.findUsers(charlesEThree.identity);
+            await bobGroup.add(charlesCard);
+            await aliceGroup.update();
+            await aliceGroup.remove(charlesCard);
+
+            const history = await bobGroup.getHistory();
+            expect(history).to.have.length(3);
+            expect(history[0].actor).to.equal(aliceEThree.identity);
+            expect(new Set(history[0].added)).to.eql(
+                new Set([aliceEThree.identity, bobEThree.identity]),
+            );
+            expect(history[1].actor).to.equal(bobEThree.identity);
+            expect(history[1].added).to.eql([charlesEThree.identity]);
+            expect(history[2].actor).to.equal(aliceEThree.identity);
+            expect(history[2].removed).to.eql([charlesEThree.identity]);
+            expect(history[2].epochNumber).to.be.greaterThan(history[1].epochNumber);
+        });
+
+        it('`groupId` and `metadata` are stored with the group', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const groupId = uuid();
+            const bobCard = await aliceEThree.findUsers(bobEThree.identity);
+            const aliceGroup = await aliceEThree.createGroup(groupId, bobCard, {
+                metadata: { name: 'Group name' },
+            });
+            expect(aliceGroup.groupId).to.equal(groupId);
+            await aliceGroup.setMetadata({ name: 'New group name' });
+
+            const storedGroup = await aliceEThree.getGroup(groupId);
+            expect(storedGroup!.groupId).to.equal(groupId);
+            expect(storedGroup!.metadata).to.eql({ name: 'New group name' });
+            const [summary] = await aliceEThree.listGroups();
+            expect(summary.groupId).to.equal(groupId);
+
+            const aliceCard = await bobEThree.findUsers(aliceEThree.identity);
+            const bobGroup = await bobEThree.loadGroup(groupId, aliceCard);
+            expect(bobGroup.groupId).to.equal(groupId);
+            expect(bobGroup.metadata).to.eql({});
+        });
+
+        it('`listGroups` returns the groups stored on the device', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const bobCard = await aliceEThree.findUsers(bobEThree.identity);
+            await aliceEThree.createGroup(uuid());
+            await aliceEThree.createGroup(uuid(), bobCard);
+
+            const groups = await aliceEThree.listGroups();
+            expect(groups).to.have.length(2);
+            expect(groups.every(group => group.initiator === aliceEThree.identity)).to.be.true;
+            const group = groups.find(g => g.participants.length === 2);
+            expect(group).to.be.ok;
+            expect(group!.participants).to.include(bobEThree.identity);
+        });
+
+        it('`keepRemovedGroups` keeps the past epochs of the group after removal', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree(undefined, { keepRemovedGroups: true });
+            const charlesEThree = await createEThree();
+            const groupId = uuid();
+            const bobAndCharlesCards = await aliceEThree.findUsers([
+                bobEThree.identity,
+                charlesEThree.identity,
+            ]);
+            const aliceGroup = await aliceEThree.createGroup(groupId, bobAndCharlesCards);
+            const aliceCard = await bobEThree.findUsers(aliceEThree.identity);
+            const bobGroup = await bobEThree.loadGroup(groupId, aliceCard);
+            const message = 'message';
+            const encrypted = await aliceGroup.encrypt(message);
+
+            await aliceGroup.remove(bobAndCharlesCards[bobEThree.identity]);
+            try {
+                await bobGroup.update();
+                expect.fail();
+            } catch (error) {
+                expect(error).to.be.instanceOf(GroupError);
+            }
+            expect(bobGroup.readOnly).to.be.true;
+            const keptGroup = await bobEThree.getGroup(groupId);
+            expect(keptGroup!.readOnly).to.be.true;
+            expect((await keptGroup!.decrypt(encrypted, aliceCard)).toString('utf8')).to.equal(
+                message,
+            );
+            try {
+                await keptGroup!.decrypt(await aliceGroup.encrypt(message), aliceCard);
+                expect.fail();
+            } catch (error) {
+                expect(error).to.be.instanceOf(GroupError);
+            }
+            try {
+                await keptGroup!.encrypt(message);
+                expect.fail();
+            } catch (error) {
+                expect(error).to.be.instanceOf(GroupError);
+            }
+        });
+
+        it('group operations are removed from the queue once made in the cloud', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const charlesEThree = await createEThree();
+            const bobAndCharlesCards = await aliceEThree.findUsers([
+                bobEThree.identity,
+                charlesEThree.identity,
+            ]);
+            const aliceGroup = await aliceEThree.createGroup(uuid(), bobAndCharlesCards);
+            await aliceGroup.remove(bobAndCharlesCards[charlesEThree.identity]);
+            await aliceGroup.add(bobAndCharlesCards[charlesEThree.identity]);
+
+            expect(await aliceEThree.getGroupOperations()).to.be.empty;
+            await aliceEThree.retryGroupOperations();
+            await aliceGroup.update();
+            expect(new Set(aliceGroup.participants)).to.eql(
+                new Set([aliceEThree.identity, bobEThree.identity, charlesEThree.identity]),
+            );
+        });
+
+        it('`remove` leaves no residual access once finished', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const charlesEThree = await createEThree();
+            const groupId = uuid();
+            const bobAndCharlesCards = await aliceEThree.findUsers([
+                bobEThree.identity,
+                charlesEThree.identity,
+            ]);
+            const aliceGroup = await aliceEThree.createGroup(groupId, bobAndCharlesCards);
+            await aliceGroup.remove(bobAndCharlesCards[charlesEThree.identity]);
+
+            expect(await aliceGroup.getResidualAccess()).to.be.empty;
+            const aliceCard = await charlesEThree.findUsers(aliceEThree.identity);
+            try {
+                await charlesEThree.loadGroup(groupId, aliceCard);
+                expect.fail();
+            } catch (error) {
+                expect(error).to.be.instanceOf(GroupError);
+            }
+        });
+
+        it('`remove` keeps the access of the participants failed to be removed', async () => {
+            const inMemoryTransport = InMemoryGroupTicketTransport.createFactory();
+            const failingIdentities = new Set<string>();
+            const groupTicketTransport: GroupTicketTransportFactory = options => {
+                const transport = inMemoryTransport(options);
+                const removeRecipient = transport.removeRecipient.bind(transport);
+                transport.removeRecipient = async (sessionId, identity, epochNumber) => {
+                    if (failingIdentities.delete(identity)) {
+                        throw new Error('Network error');
+                    }
+                    return removeRecipient(sessionId, identity, epochNumber);
+                };
+                return transport;
+            };
+            const aliceEThree = await createEThree(undefined, { groupTicketTransport });
+            const bobEThree = await createEThree(undefined, { groupTicketTransport });
+            const charlesEThree = await createEThree(undefined, { groupTicketTransport });
+            const bobAndCharlesCards = await aliceEThree.findUsers([
+                bobEThree.identity,
+                charlesEThree.identity,
+            ]);
+            const aliceGroup = await aliceEThree.createGroup(uuid(), bobAndCharlesCards);
+            failingIdentities.add(charlesEThree.identity);
+
+            try {
+                await aliceGroup.remove(bobAndCharlesCards);
+                expect.fail();
+            } catch (error) {
+                expect(error.message).to.equal('Network error');
+            }
+            expect(await aliceGroup.getResidualAccess()).to.eql([charlesEThree.identity]);
+
+            await aliceGroup.update();
+            expect(await aliceGroup.getResidualAccess()).to.be.empty;
+        });
+
+        it('`prune` deletes the tickets of the past epochs', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const charlesEThree = await createEThree();
+            const bobAndCharlesCards = await aliceEThree.findUsers([
+                bobEThree.identity,
+                charlesEThree.identity,
+            ]);
+            const aliceGroup = await aliceEThree.createGroup(uuid(), bobAndCharlesCards);
+            const aliceCard = await aliceEThree.findUsers(aliceEThree.identity);
+            const message = 'message';
+            const oldEncrypted = await aliceGroup.encrypt(message);
+            await aliceGroup.remove(bobAndCharlesCards[charlesEThree.identity]);
+            const encrypted = await aliceGroup.encrypt(message);
+
+            const archivedEpochs: number[] = [];
+            const prunedEpochs = await aliceGroup.prune({
+                maxEpochs: 1,
+                archive: (_, tickets) => {
+                    archivedEpochs.push(...tickets.map(t => t.groupSessionMessage.epochNumber));
+                },
+            });
+            expect(prunedEpochs).to.have.length(1);
+            expect(archivedEpochs).to.eql(prunedEpochs);
+            expect((await aliceGroup.decrypt(encrypted, aliceCard)).toString('utf8')).to.equal(
+                message,
+            );
+            try {
+                await aliceGroup.decrypt(oldEncrypted, aliceCard);
+                expect.fail();
+            } catch (error) {
+                expect(error).to.be.instanceOf(Error);
+            }
+        });
+
+        it('stores the groups with `groupTicketTransport`', async () => {
+            const groupTicketTransport = InMemoryGroupTicketTransport.createFactory();
+            const aliceEThree = await createEThree(undefined, { groupTicketTransport });
+            const bobEThree = await createEThree(undefined, { groupTicketTransport });
+            const groupId = uuid();
+            const bobCard = await aliceEThree.findUsers(bobEThree.identity);
+            const aliceGroup = await aliceEThree.createGroup(groupId, bobCard);
+            const encrypted = await aliceGroup.encrypt('message');
+
+            const aliceCard = await bobEThree.findUsers(aliceEThree.identity);
+            const bobGroup = await bobEThree.loadGroup(groupId, aliceCard);
+            expect((await bobGroup.decrypt(encrypted, aliceCard)).toString('utf8')).to.equal(
+                'message',
+            );
+            expect(await bobGroup.getHistory()).to.have.length(1);
+        });
+
+        it('decrypts the messages of the group with `senderKeys` once', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const groupId = uuid();
+            const bobCard = await aliceEThree.findUsers(bobEThree.identity);
+            const aliceGroup = await aliceEThree.createGroup(groupId, bobCard, {
+                senderKeys: true,
+            });
+            const encrypted1 = await aliceGroup.encrypt('message1');
+            const encrypted2 = await aliceGroup.encrypt('message2');
+
+            const aliceCard = await bobEThree.findUsers(aliceEThree.identity);
+            const bobGroup = await bobEThree.loadGroup(groupId, aliceCard);
+            expect(bobGroup.senderKeys).to.be.true;
+            expect(await bobGroup.decrypt(encrypted2, aliceCard)).to.equal('message2');
+            expect(await bobGroup.decrypt(encrypted1, aliceCard)).to.equal('message1');
+            try {
+                await bobGroup.decrypt(encrypted1, aliceCard);
+                expect.fail();
+            } catch (error) {
+                expect(error).to.be.instanceOf(GroupError);
+                expect(error.errorCode).to.equal(GroupErrorCode.MessageKeyNotFound);
+            }
+        });
+
+        it("doesn't share the sender key chains with the participants added later", async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const carolEThree = await createEThree();
+            const groupId = uuid();
+            const bobCard = await aliceEThree.findUsers(bobEThree.identity);
+            const aliceGroup = await aliceEThree.createGroup(groupId, bobCard, {
+                senderKeys: true,
+            });
+            const encrypted1 = await aliceGroup.encrypt('message1');
+            await aliceGroup.add(await aliceEThree.findUsers(carolEThree.identity));
+            const encrypted2 = await aliceGroup.encrypt('message2');
+
+            const aliceCard = await carolEThree.findUsers(aliceEThree.identity);
+            const carolGroup = await carolEThree.loadGroup(groupId, aliceCard);
+            expect(await carolGroup.decrypt(encrypted2, aliceCard)).to.equal('message2');
+            try {
+                await carolGroup.decrypt(encrypted1, aliceCard);
+                expect.fail();
+            } catch (error) {
+                expect(error).to.be.instanceOf(GroupError);
+                expect(error.errorCode).to.equal(GroupErrorCode.MessageKeyNotFound);
+            }
+        });
+
+        it('`syncGroups` emits the changes of the groups', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const charlesEThree = await createEThree();
+            const groupId = uuid();
+            const bobAndCharlesCards = await aliceEThree.findUsers([
+                bobEThree.identity,
+                charlesEThree.identity,
+            ]);
+            const aliceGroup = await aliceEThree.createGroup(groupId, bobAndCharlesCards);
+            const aliceCard = await bobEThree.findUsers(aliceEThree.identity);
+            const bobGroup = await bobEThree.loadGroup(groupId, aliceCard);
+            await charlesEThree.loadGroup(groupId, aliceCard);
+            const bobEvents: string[] = [];
+            bobGroup.on('epochChanged', event => bobEvents.push(event.type));
+            bobGroup.on('participantsChanged', event => {
+                bobEvents.push(event.type);
+                expect(event.removed).to.eql([charlesEThree.identity]);
+            });
+
+            await aliceGroup.remove(bobAndCharlesCards[charlesEThree.identity]);
+
+            const events = await bobEThree.syncGroups();
+            expect(events.map(event => event.type)).to.eql(['epochChanged', 'participantsChanged']);
+            expect(bobEvents).to.eql(['epochChanged', 'participantsChanged']);
+            expect(await bobEThree.syncGroups()).to.be.empty;
+            const charlesEvents = await charlesEThree.syncGroups();
+            expect(charlesEvents).to.eql([
+                { type: 'accessRevoked', sessionId: events[0].sessionId },
+            ]);
+            expect(await charlesEThree.listGroups()).to.be.empty;
+        });
     });
 });
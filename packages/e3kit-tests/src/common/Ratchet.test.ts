@@ -0,0 +1,133 @@
+import { expect } from 'chai';
+import uuid from 'uuid/v4';
+
+import {
+    EThree,
+    InMemoryRatchetPreKeyServer,
+    RatchetError,
+    RatchetErrorCode,
+    RatchetPreKeyServerFactory,
+} from '@virgilsecurity/e3kit-node';
+import { initPythia } from '@virgilsecurity/pythia-crypto';
+import { initCrypto, VirgilAccessTokenSigner, VirgilCrypto, KeyPairType } from 'virgil-crypto';
+import { JwtGenerator } from 'virgil-sdk';
+
+describe('EThree', () => {
+    let virgilCrypto: VirgilCrypto;
+    let jwtGenerator: JwtGenerator;
+    let ratchetPreKeyServer: RatchetPreKeyServerFactory;
+
+    before(async () => {
+        await Promise.all([initCrypto(), initPythia()]);
+    });
+
+    beforeEach(() => {
+        virgilCrypto = new VirgilCrypto();
+        jwtGenerator = new JwtGenerator({
+            appId: process.env.APP_ID!,
+            apiKeyId: process.env.APP_KEY_ID!,
+            apiKey: virgilCrypto.importPrivateKey(process.env.APP_KEY!),
+            accessTokenSigner: new VirgilAccessTokenSigner(virgilCrypto),
+        });
+        ratchetPreKeyServer = InMemoryRatchetPreKeyServer.createFactory();
+    });
+
+    const createEThree = async () => {
+        const identity = uuid();
+        const ethree = await EThree.initialize(
+            () => Promise.resolve(jwtGenerator.generateToken(identity).toString()),
+            {
+                apiUrl: process.env.API_URL,
+                groupStorageName: `.virgil-group-storage/${uuid()}`,
+                keyPairType: KeyPairType.ED25519,
+                ratchetPreKeyServer,
+            },
+        );
+        await ethree.register();
+        return ethree;
+    };
+
+    describe('ratchet channels', () => {
+        it('encrypts the messages in both directions', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const bobCard = await aliceEThree.findUsers(bobEThree.identity);
+            const aliceChannel = await aliceEThree.createRatchetChannel(bobCard);
+            const encrypted1 = await aliceChannel.encrypt('message1');
+
+            const aliceCard = await bobEThree.findUsers(aliceEThree.identity);
+            const bobChannel = await bobEThree.joinRatchetChannel(aliceCard);
+            expect(bobChannel.participant).to.equal(aliceEThree.identity);
+            expect(await bobChannel.decrypt(encrypted1)).to.equal('message1');
+            const encrypted2 = await bobChannel.encrypt('message2');
+            expect(await aliceChannel.decrypt(encrypted2)).to.equal('message2');
+        });
+
+        it('decrypts every message once', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const bobCard = await aliceEThree.findUsers(bobEThree.identity);
+            const aliceChannel = await aliceEThree.createRatchetChannel(bobCard);
+            const encrypted = await aliceChannel.encrypt('message');
+
+            const aliceCard = await bobEThree.findUsers(aliceEThree.identity);
+            await bobEThree.joinRatchetChannel(aliceCard);
+            const bobChannel = await bobEThree.getRatchetChannel(aliceEThree.identity);
+            expect(await bobChannel!.decrypt(encrypted)).to.equal('message');
+            try {
+                await bobChannel!.decrypt(encrypted);
+                expect.fail();
+            } catch (error) {
+                expect(error).to.be.instanceOf(RatchetError);
+                expect(error.errorCode).to.equal(RatchetErrorCode.MessageKeyNotFound);
+            }
+        });
+
+        it('joins the channels created by several users before the user joins any', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const charlesEThree = await createEThree();
+            const aliceChannel = await aliceEThree.createRatchetChannel(
+                await aliceEThree.findUsers(bobEThree.identity),
+            );
+            const charlesChannel = await charlesEThree.createRatchetChannel(
+                await charlesEThree.findUsers(bobEThree.identity),
+            );
+            const encrypted1 = await aliceChannel.encrypt('message1');
+            const encrypted2 = await charlesChannel.encrypt('message2');
+
+            const bobAliceChannel = await bobEThree.joinRatchetChannel(
+                await bobEThree.findUsers(aliceEThree.identity),
+            );
+            const bobCharlesChannel = await bobEThree.joinRatchetChannel(
+                await bobEThree.findUsers(charlesEThree.identity),
+            );
+            expect(await bobAliceChannel.decrypt(encrypted1)).to.equal('message1');
+            expect(await bobCharlesChannel.decrypt(encrypted2)).to.equal('message2');
+        });
+
+        it('throws if the channel was not created', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const aliceCard = await bobEThree.findUsers(aliceEThree.identity);
+            try {
+                await bobEThree.joinRatchetChannel(aliceCard);
+                expect.fail();
+            } catch (error) {
+                expect(error).to.be.instanceOf(RatchetError);
+                expect(error.errorCode).to.equal(RatchetErrorCode.InvitationNotFound);
+            }
+        });
+
+        it('deletes the channel', async () => {
+            const aliceEThree = await createEThree();
+            const bobEThree = await createEThree();
+            const bobCard = await aliceEThree.findUsers(bobEThree.identity);
+            await aliceEThree.createRatchetChannel(bobCard);
+
+            await aliceEThree.deleteRatchetChannel(bobEThree.identity);
+
+            expect(await aliceEThree.getRatchetChannel(bobEThree.identity)).to.be.null;
+        });
+    });
+});